@@ -2,9 +2,19 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  CallToolRequest,
+  CallToolResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import Database from 'better-sqlite3';
 import * as sqliteVec from 'sqlite-vec';
@@ -12,20 +22,32 @@ import { get_encoding } from 'tiktoken';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { pipeline, env } from '@huggingface/transformers';
+import { AsyncLocalStorage } from 'async_hooks';
 
 // Import our new structured tool system
 import { getAllMCPTools, validateToolArgs, getSystemInfo } from './src/tools/tool-registry.js';
 
+// Import chunking strategies
+import { chunkByStrategy, ChunkingStrategy } from './src/chunking/chunking-strategies.js';
+
+// Import embedding providers
+import { EmbeddingProvider } from './src/embeddings/types.js';
+import { loadEmbeddingConfig, createEmbeddingProvider } from './src/embeddings/provider-factory.js';
+import { DeterministicEmbeddingProvider } from './src/embeddings/deterministic-provider.js';
+import { SearchFilter, compileChunkFilter, compileEntityFilter } from './src/search/search-filter.js';
+import { allocateEntityId, slugEntityId } from './src/graph/entity-ids.js';
+import { normalizeEntityName, nameSimilarity } from './src/graph/name-similarity.js';
+import { observationKey } from './src/graph/observations.js';
+import { validAt, existedAt, chunkValidAt } from './src/graph/validity.js';
+import { graphStatsResource, memoryResourceTemplates, parseMemoryUri, entityUri, documentUri } from './src/resources/memory-resources.js';
+import { ResourceSubscriptions } from './src/resources/resource-subscriptions.js';
+import { loadTransportConfig, startHttpServer, HttpMcpServer } from './src/transport/http-transport.js';
+import { listMemoryPrompts, getMemoryPrompt } from './src/prompts/memory-prompts.js';
+
 // Import migration system
 import { MigrationManager } from './src/migrations/migration-manager.js';
 import { migrations } from './src/migrations/migrations.js';
 
-// Configure Hugging Face transformers for better compatibility
-if (env.backends?.onnx?.wasm) {
-  env.backends.onnx.wasm.wasmPaths = './node_modules/@huggingface/transformers/dist/';
-}
-
 // Define database file path using environment variable with fallback
 const defaultDbPath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'rag-memory.db');
 const DB_FILE_PATH = process.env.DB_FILE_PATH
@@ -34,6 +56,47 @@ const DB_FILE_PATH = process.env.DB_FILE_PATH
     : path.join(path.dirname(fileURLToPath(import.meta.url)), process.env.DB_FILE_PATH)
   : defaultDbPath;
 
+// Reciprocal rank fusion: rank constant and default share of the lexical (BM25) ranking
+const RRF_K = 60;
+const DEFAULT_LEXICAL_WEIGHT = 0.5;
+
+// Largest cosine distance between a stored vector and a fresh embedding of its text that still counts as aligned
+const VECTOR_ALIGNMENT_TOLERANCE = 0.01;
+
+// Upper bound on rows produced by recursive graph walks, so dense graphs cannot explode into every possible path
+const MAX_GRAPH_WALK_ROWS = 10000;
+
+// Duplicate detection: nearest embedding neighbours checked per entity, and the weight of name vs embedding similarity
+const DUPLICATE_NEIGHBOURS = 10;
+const DUPLICATE_NAME_WEIGHT = 0.5;
+
+// Default page size for readGraph and the number of top-degree entities in its summary mode
+const DEFAULT_GRAPH_PAGE_SIZE = 100;
+const GRAPH_SUMMARY_TOP_NODES = 10;
+
+// Page size of resources/list
+const DEFAULT_RESOURCE_PAGE_SIZE = 100;
+
+// How often the database file is checked for commits made by other processes, for resource notifications
+const RESOURCE_POLL_INTERVAL_MS = 2000;
+
+// Floor for relationship confidence when weighting paths, so a zero-confidence hop is costly rather than impassable
+const MIN_PATH_CONFIDENCE = 0.01;
+
+// Tools that only read; every other tool call holds the write lock while it runs
+const READ_ONLY_TOOLS = new Set([
+  'listObservations', 'readGraph', 'searchNodes', 'traverseGraph', 'findPaths', 'findDuplicateEntities', 'openNodes',
+  'getHistory', 'getEntityChunkLinks', 'hybridSearch', 'getDetailedContext', 'getKnowledgeGraphStats', 'listDocuments',
+  'getMigrationStatus'
+]);
+
+// Argument keys of the logged tools that name entities, that hold observation IDs, and that list the records holding
+// those keys, used to scope change snapshots
+const CHANGE_SCOPE_NAME_KEYS = new Set(['name', 'newName', 'entityName', 'entityNames', 'from', 'to', 'target', 'sources']);
+const CHANGE_SCOPE_OBSERVATION_KEYS = new Set(['id', 'observationIds']);
+const CHANGE_SCOPE_RECORD_KEYS = new Set(['entities', 'relations', 'observations', 'deletions', 'aliases']);
+const DEFAULT_HISTORY_LIMIT = 20;
+
 // Original MCP interfaces
 interface Entity {
   name: string;
@@ -45,6 +108,34 @@ interface Relation {
   from: string;
   to: string;
   relationType: string;
+  confidence?: number;
+  properties?: Record<string, any>;
+  // Where the relationship came from: a document ID, chunk ID or conversation reference
+  source?: string;
+  // Valid time: the relationship holds from validFrom until it is invalidated at validTo
+  validFrom?: string;
+  validTo?: string;
+}
+
+// A single observation; entities.observations mirrors the texts of the current ones in ID order
+interface Observation {
+  id: number;
+  text: string;
+  source?: string;
+  confidence?: number;
+  createdAt: string;
+  validFrom: string;
+  validTo?: string;
+}
+
+interface ObservationRow {
+  id: number;
+  text: string;
+  source: string | null;
+  confidence: number | null;
+  created_at: string;
+  valid_from: string;
+  valid_to: string | null;
 }
 
 interface KnowledgeGraph {
@@ -52,6 +143,89 @@ interface KnowledgeGraph {
   relations: Relation[];
 }
 
+interface ReadGraphOptions {
+  cursor?: string;
+  limit?: number;
+  entityTypes?: string[];
+  relationTypes?: string[];
+  namePrefix?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  includeObservations?: boolean;
+  summary?: boolean;
+  // Read the graph as it was believed at this time instead of the current one
+  asOf?: string;
+}
+
+// One page of readGraph: relations are listed on the page of their source entity
+interface GraphPage {
+  entities: Array<Omit<Entity, 'observations'> & { observations?: string[] }>;
+  relations: Relation[];
+  nextCursor: string | null;
+}
+
+interface GraphSummary {
+  entityCount: number;
+  relationCount: number;
+  entityTypes: Record<string, number>;
+  relationTypes: Record<string, number>;
+  topNodes: Array<{ name: string; entityType: string; degree: number }>;
+}
+
+type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+// Entity reached by traverseGraph, with the shortest path that reached it
+interface TraversedEntity extends Entity {
+  depth: number;
+  path: Relation[];
+}
+
+// Pair of entities that may describe the same thing, proposed by findDuplicateEntities
+interface DuplicateCandidate {
+  entities: [string, string];
+  entityTypes: [string, string];
+  score: number;
+  nameSimilarity: number;
+  embeddingSimilarity: number | null;
+}
+
+// Path between two entities found by findPaths
+interface GraphPath {
+  length: number;
+  cost: number;
+  confidence: number;
+  entities: string[];
+  relations: Array<Relation & { confidence: number }>;
+  text: string;
+}
+
+// State of a set of entities as recorded in the change log: entity rows with their aliases and document chunk
+// links, their observations, and every relationship touching them
+interface GraphSnapshot {
+  entities: Array<Record<string, unknown> & { id: string; name: string; aliases: string[]; chunkLinks: number[] }>;
+  observations: Array<Record<string, unknown> & { id: number; entity_id: string }>;
+  relationships: Array<Record<string, unknown> & { id: string }>;
+}
+
+// Progress reporting and cancellation of a long-running job, wired to MCP progress notifications and request cancellation
+interface JobControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, total: number) => Promise<void>;
+}
+
+// Entry of the change log as returned by getHistory
+interface ChangeLogEntry {
+  id: number;
+  operation: string;
+  arguments: unknown;
+  entities: string[];
+  createdAt: string;
+  reverts?: number;
+  revertedBy?: number;
+  before?: GraphSnapshot;
+  after?: GraphSnapshot;
+}
+
 // Enhanced RAG interfaces
 interface Document {
   id: string;
@@ -67,6 +241,7 @@ interface Chunk {
   text: string;
   start_pos: number;
   end_pos: number;
+  metadata?: Record<string, any>;
   embedding?: Float32Array;
 }
 
@@ -99,12 +274,32 @@ interface EnhancedSearchResult {
   document_title: string;
   entities: string[];
   vector_similarity: number;
+  lexical_score?: number; // BM25 score (higher is better), present when the chunk matched lexically
+  fusion_score: number; // Weighted reciprocal rank fusion of the vector and lexical rankings
   graph_boost?: number;
   full_context_available: boolean;
   chunk_type: 'document' | 'entity' | 'relationship'; // NEW: Indicates the source type
   source_id?: string; // NEW: ID of the source entity/relationship if applicable
 }
 
+// Per-table result of verifyIndexIntegrity
+interface IndexIntegrityReport {
+  vectors: number;
+  orphanedVectors: number;
+  missingVectors: string[];
+  misalignedVectors: string[];
+  unverifiable: number; // Vectors from another model, which cannot be compared with a fresh embedding
+  unembedded?: number; // Chunks or observations that were never embedded (not an error)
+}
+
+// A stored vector and the text it should be the embedding of
+interface AlignmentCandidate {
+  rowid: number;
+  text: string;
+  embedding_model: string | null;
+  embedding_dimensions: number | null;
+}
+
 // NEW: Interface for detailed context retrieval
 interface DetailedContext {
   chunk_id: string;
@@ -118,14 +313,111 @@ interface DetailedContext {
   }>;
   entities: string[];
   metadata: Record<string, any>;
+  chunk_metadata: Record<string, any>;
+  // Exact character span of the chunk in the original document (absent for legacy token-offset chunks)
+  span?: {
+    start_pos: number;
+    end_pos: number;
+    context_before: string;
+    context_after: string;
+  };
 }
 
 // Enhanced RAG-enabled Knowledge Graph Manager
 class RAGKnowledgeGraphManager {
   private db: Database.Database | null = null;
   private encoding: any = null;
-  private embeddingModel: any = null;
-  private modelInitialized: boolean = false;
+  private embeddingProvider: EmbeddingProvider;
+  private fallbackEmbeddingProvider?: EmbeddingProvider;
+  // Vector size of the vec0 tables in the open database
+  private vectorDimensions = 0;
+  // Tail of the queue of writes waiting for the write lock, and the context of the write holding it
+  private writeQueue: Promise<void> = Promise.resolve();
+  private writeLockHolder = new AsyncLocalStorage<boolean>();
+  // Reads in progress and the context they run in, and the transaction spanning awaits that reads must not see
+  private activeReads = 0;
+  private readsFinished?: () => void;
+  private readLockHolder = new AsyncLocalStorage<boolean>();
+  private openTransaction: Promise<void> | null = null;
+  private closeTransaction?: () => void;
+
+  constructor(embeddingProvider: EmbeddingProvider, options: { fallbackEmbeddingProvider?: EmbeddingProvider } = {}) {
+    this.embeddingProvider = embeddingProvider;
+    this.fallbackEmbeddingProvider = options.fallbackEmbeddingProvider;
+  }
+
+  /**
+   * Run a write while holding the write lock, after the writes queued before it. Transactions stay open across
+   * awaits on the one shared connection, so a write from another call must not run meanwhile: it would join the
+   * transaction and be rolled back with it. Writes made while already holding the lock run directly.
+   */
+  async withWriteLock<T>(write: () => Promise<T>): Promise<T> {
+    if (this.writeLockHolder.getStore()) {
+      return write();
+    }
+    
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>(resolve => { release = resolve; });
+    
+    await previous;
+    try {
+      return await this.writeLockHolder.run(true, write);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Run a read that must not see uncommitted writes. Reads run side by side and alongside writes, except while a
+   * write holds a transaction open across awaits: reads wait for it to commit or roll back, and the transaction
+   * waits for the reads already running to finish. Reads made while holding the write lock see that write's own
+   * changes and run directly, as do reads nested in another read.
+   */
+  async withReadLock<T>(read: () => Promise<T>): Promise<T> {
+    if (this.writeLockHolder.getStore() || this.readLockHolder.getStore()) {
+      return read();
+    }
+    
+    while (this.openTransaction) {
+      await this.openTransaction;
+    }
+    
+    this.activeReads++;
+    try {
+      return await this.readLockHolder.run(true, read);
+    } finally {
+      this.activeReads--;
+      if (this.activeReads === 0) {
+        this.readsFinished?.();
+      }
+    }
+  }
+
+  // BEGIN IMMEDIATE once the reads in progress finish, holding back new reads until endAsyncTransaction; needs the write lock
+  private async beginAsyncTransaction(): Promise<void> {
+    let close!: () => void;
+    this.openTransaction = new Promise<void>(resolve => { close = resolve; });
+    this.closeTransaction = close;
+    
+    try {
+      if (this.activeReads > 0) {
+        await new Promise<void>(resolve => { this.readsFinished = resolve; });
+        this.readsFinished = undefined;
+      }
+      this.db!.exec('BEGIN IMMEDIATE');
+    } catch (error) {
+      this.endAsyncTransaction();
+      throw error;
+    }
+  }
+
+  // Let reads run again, after the transaction was committed or rolled back
+  private endAsyncTransaction(): void {
+    this.openTransaction = null;
+    this.closeTransaction?.();
+    this.closeTransaction = undefined;
+  }
 
   async initialize() {
     console.error('🚀 Initializing RAG Knowledge Graph MCP Server...');
@@ -145,6 +437,15 @@ class RAGKnowledgeGraphManager {
     // Run database migrations
     await this.runMigrations();
     
+    // Make sure the vec0 tables match the configured embedding dimension
+    this.checkVectorDimensions();
+    
+    // Record which embedding model writes vectors from now on
+    this.recordEmbeddingModel();
+    
+    // Cheap structural check; misalignment needs verifyIndexIntegrity
+    this.warnAboutIndexDrift();
+    
     console.error('✅ RAG-enabled knowledge graph initialized');
     
     // Log system info
@@ -154,28 +455,129 @@ class RAGKnowledgeGraphManager {
 
   private async initializeEmbeddingModel() {
     try {
-      console.error('🤖 Loading sentence transformer model: all-MiniLM-L12-v2...');
-      
-      // Configure environment to allow remote model downloads
-      env.allowRemoteModels = true;
-      env.allowLocalModels = true;
-      
-      this.embeddingModel = await pipeline(
-        'feature-extraction',
-        'sentence-transformers/all-MiniLM-L12-v2',
-        { 
-          revision: 'main',
-        }
-      );
-      
-      this.modelInitialized = true;
-      console.error('✅ Sentence transformer model loaded successfully');
-      
+      await this.embeddingProvider.initialize();
     } catch (error) {
-      console.error('❌ Failed to load embedding model:', error);
-      console.error('📋 Falling back to simple embedding generation');
-      this.modelInitialized = false;
+      if (!this.fallbackEmbeddingProvider) {
+        throw new Error(`Failed to initialize embedding provider ${this.embeddingProvider.modelId}: ${error}`);
+      }
+      
+      console.error(`❌ Failed to load embedding provider ${this.embeddingProvider.modelId}:`, error);
+      console.error(`📋 Falling back to ${this.fallbackEmbeddingProvider.modelId} - vectors will not be comparable with ${this.embeddingProvider.modelId} vectors`);
+      this.embeddingProvider = this.fallbackEmbeddingProvider;
+      await this.embeddingProvider.initialize();
+    }
+    
+    console.error(`🔮 Active embedding model: ${this.embeddingProvider.modelId} (${this.embeddingProvider.dimensions} dimensions)`);
+  }
+
+  // Track every embedding model that has written vectors so mixed vector spaces can be detected
+  private recordEmbeddingModel(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId, name, model, dimensions } = this.embeddingProvider;
+    
+    // Forget models that no stored vector refers to anymore
+    this.db.prepare(`
+      DELETE FROM embedding_models
+      WHERE model_id != ?
+        AND model_id NOT IN (SELECT embedding_model FROM chunk_metadata WHERE embedding_model IS NOT NULL)
+        AND model_id NOT IN (SELECT embedding_model FROM entity_embedding_metadata WHERE embedding_model IS NOT NULL)
+        AND model_id NOT IN (SELECT embedding_model FROM observations WHERE embedding_model IS NOT NULL)
+    `).run(modelId);
+    
+    this.db.prepare(`
+      INSERT INTO embedding_models (model_id, provider, model, dimensions)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(model_id) DO UPDATE SET dimensions = excluded.dimensions, last_used_at = CURRENT_TIMESTAMP
+    `).run(modelId, name, model, dimensions);
+    
+    const stale = this.countStaleVectors();
+    if (stale.chunks + stale.entities + stale.observations > 0) {
+      console.error(`⚠️ Mixed vector spaces: ${stale.chunks} chunk vectors, ${stale.entities} entity vectors and ${stale.observations} observation vectors were not produced by the active model ${modelId} at ${dimensions} dimensions. They are excluded from searches until reembedStale is run.`);
+    }
+  }
+
+  // Vectors produced by a model other than the active one, or at another dimension (including vectors of unknown provenance)
+  private countStaleVectors(): { chunks: number; entities: number; observations: number } {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId, dimensions } = this.embeddingProvider;
+    const chunks = this.db.prepare(`
+      SELECT COUNT(*) as count FROM chunk_metadata
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).get(modelId, dimensions) as { count: number };
+    const entities = this.db.prepare(`
+      SELECT COUNT(*) as count FROM entity_embedding_metadata
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).get(modelId, dimensions) as { count: number };
+    const observations = this.db.prepare(`
+      SELECT COUNT(*) as count FROM observations
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).get(modelId, dimensions) as { count: number };
+    
+    return { chunks: chunks.count, entities: entities.count, observations: observations.count };
+  }
+
+  // Read the vector size from the vec0 table definition
+  private readVectorDimensions(): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const table = this.db.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'chunks'
+    `).get() as { sql: string } | undefined;
+    const match = table?.sql.match(/FLOAT\[(\d+)\]/i);
+    if (!match) throw new Error('Cannot determine the dimension of the chunks vector table');
+    
+    return parseInt(match[1], 10);
+  }
+
+  // Empty vec0 tables are recreated at the configured dimension; populated ones need migrateEmbeddingDimensions
+  private checkVectorDimensions(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.vectorDimensions = this.readVectorDimensions();
+    const dimensions = this.embeddingProvider.dimensions;
+    if (this.vectorDimensions === dimensions) return;
+    
+    const stored = this.db.prepare(`
+      SELECT (SELECT COUNT(*) FROM chunks) + (SELECT COUNT(*) FROM entity_embeddings) + (SELECT COUNT(*) FROM observation_embeddings) as count
+    `).get() as { count: number };
+    
+    if (stored.count === 0) {
+      this.rebuildVectorTables(dimensions);
+      console.error(`🔧 Vector tables recreated with ${dimensions} dimensions`);
+      return;
     }
+    
+    console.error(`⚠️ Vector tables are ${this.vectorDimensions}-dimensional but ${this.embeddingProvider.modelId} is configured for ${dimensions} dimensions. Embedding and vector search are unavailable until migrateEmbeddingDimensions is run.`);
+  }
+
+  // Drop and recreate the vec0 tables; stored vectors are lost, their metadata rows keep the old provenance
+  private rebuildVectorTables(dimensions: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.transaction(() => {
+      this.db!.exec(`DROP TABLE IF EXISTS chunks`);
+      this.db!.exec(`DROP TABLE IF EXISTS entity_embeddings`);
+      this.db!.exec(`DROP TABLE IF EXISTS observation_embeddings`);
+      this.db!.exec(`
+        CREATE VIRTUAL TABLE chunks USING vec0(
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+      this.db!.exec(`
+        CREATE VIRTUAL TABLE entity_embeddings USING vec0(
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+      this.db!.exec(`
+        CREATE VIRTUAL TABLE observation_embeddings USING vec0(
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+    })();
+    
+    this.vectorDimensions = dimensions;
   }
 
   async runMigrations(): Promise<{ applied: number; currentVersion: number; appliedMigrations: Array<{ version: number; description: string }> }> {
@@ -214,11 +616,8 @@ class RAGKnowledgeGraphManager {
       this.encoding.free();
       this.encoding = null;
     }
-    if (this.embeddingModel) {
-      // Clean up the embedding model if it has cleanup methods
-      this.embeddingModel = null;
-      this.modelInitialized = false;
-    }
+    // Release model resources held by the embedding provider
+    void this.embeddingProvider.dispose();
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -237,17 +636,26 @@ class RAGKnowledgeGraphManager {
     `);
 
     for (const entity of entities) {
-      const entityId = `entity_${entity.name.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      const observations = JSON.stringify(entity.observations || []);
+      // A name that already resolves (exactly, case-insensitively or as an alias) refers to the existing entity
+      if (this.resolveEntity(entity.name)) continue;
+      
+      const entityId = allocateEntityId(entity.name, id => this.entityIdExists(id));
       const metadata = JSON.stringify({});
       
-      const result = stmt.run(entityId, entity.name, entity.entityType, observations, metadata);
+      // The observations column is filled from the observation rows by trigger
+      const result = stmt.run(entityId, entity.name, entity.entityType, '[]', metadata);
       if (result.changes > 0) {
         newEntities.push(entity);
         
+        const observationIds = this.insertObservations(entityId, entity.observations || []);
+        for (const observationId of observationIds) {
+          await this.embedObservation(observationId);
+        }
+        
         // Generate embedding for the new entity
         console.error(`🔮 Generating embedding for new entity: ${entity.name}`);
         await this.embedEntity(entityId);
+        await this.refreshKnowledgeGraphChunks([entityId], []);
       }
     }
 
@@ -266,78 +674,454 @@ class RAGKnowledgeGraphManager {
         { name: relation.to, entityType: 'CONCEPT', observations: [] }
       ]);
       
-      const sourceId = `entity_${relation.from.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      const targetId = `entity_${relation.to.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+      const source = this.resolveEntity(relation.from)!;
+      const target = this.resolveEntity(relation.to)!;
+      const sourceId = source.id;
+      const targetId = target.id;
       const relationId = `rel_${sourceId}_${relation.relationType}_${targetId}`.toLowerCase();
       
+      const validFrom = relation.validFrom !== undefined ? this.parseTimestamp(relation.validFrom, 'validFrom') : null;
+      
       const stmt = this.db.prepare(`
         INSERT OR IGNORE INTO relationships 
-        (id, source_entity, target_entity, relationType, confidence, metadata)
-        VALUES (?, ?, ?, ?, ?, ?)
+        (id, source_entity, target_entity, relationType, confidence, metadata, source, valid_from)
+        VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
       `);
       
-      const result = stmt.run(relationId, sourceId, targetId, relation.relationType, 1.0, '{}');
+      const params = [
+        relation.relationType,
+        relation.confidence ?? 1.0,
+        JSON.stringify(relation.properties || {}),
+        relation.source || null,
+        validFrom
+      ];
+      let result = stmt.run(relationId, sourceId, targetId, ...params);
+      if (result.changes === 0) {
+        // An invalidated relationship that is stated again is reopened from the new validFrom
+        result = this.db.prepare(`
+          UPDATE relationships SET
+            relationType = ?, confidence = ?, metadata = ?, source = ?,
+            valid_from = COALESCE(?, CURRENT_TIMESTAMP), valid_to = NULL
+          WHERE id = ? AND valid_to IS NOT NULL
+        `).run(...params, relationId);
+      }
       if (result.changes > 0) {
-        newRelations.push(relation);
+        newRelations.push({ ...relation, from: source.name, to: target.name });
+        await this.refreshKnowledgeGraphChunks([], [relationId]);
       }
     }
 
     return newRelations;
   }
 
-  async addObservations(observations: { entityName: string; contents: string[] }[]): Promise<{ entityName: string; addedObservations: string[] }[]> {
+  // Edit confidence, properties or source of an existing relationship; properties are merged, null values remove keys
+  async updateRelation(relation: Relation): Promise<Relation> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const sourceId = this.resolveEntity(relation.from)?.id;
+    const targetId = this.resolveEntity(relation.to)?.id;
+    const existing = sourceId && targetId ? this.db.prepare(`
+      SELECT id, metadata FROM relationships
+      WHERE source_entity = ? AND target_entity = ? AND relationType = ?
+    `).get(sourceId, targetId, relation.relationType) as { id: string; metadata: string } | undefined : undefined;
+    
+    if (!existing) {
+      throw new Error(`Relation ${relation.from} -[${relation.relationType}]-> ${relation.to} not found`);
+    }
+    
+    const properties = { ...JSON.parse(existing.metadata || '{}'), ...(relation.properties || {}) };
+    for (const [key, value] of Object.entries(properties)) {
+      if (value === null) delete properties[key];
+    }
+    
+    // An empty source string clears the provenance
+    this.db.prepare(`
+      UPDATE relationships
+      SET confidence = COALESCE(?, confidence),
+          metadata = ?,
+          source = CASE WHEN ? IS NULL THEN source ELSE NULLIF(?, '') END
+      WHERE id = ?
+    `).run(
+      relation.confidence ?? null,
+      JSON.stringify(properties),
+      relation.source ?? null,
+      relation.source ?? null,
+      existing.id
+    );
+    
+    await this.refreshKnowledgeGraphChunks([], [existing.id]);
+    
+    return this.toRelation(this.db.prepare(`
+      SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+      FROM relationships r
+      JOIN entities e1 ON r.source_entity = e1.id
+      JOIN entities e2 ON r.target_entity = e2.id
+      WHERE r.id = ?
+    `).get(existing.id));
+  }
+
+  async addObservations(observations: { entityName: string; contents: string[]; source?: string; confidence?: number; validFrom?: string }[]): Promise<{ entityName: string; addedObservations: string[]; observationIds: number[] }[]> {
     if (!this.db) throw new Error('Database not initialized');
     
     const results = [];
     
     for (const obs of observations) {
-      const entityId = `entity_${obs.entityName.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      
-      // Get current observations
-      const entity = this.db.prepare(`
-        SELECT observations FROM entities WHERE id = ?
-      `).get(entityId) as { observations: string } | undefined;
-      
-      if (!entity) {
+      const resolved = this.resolveEntity(obs.entityName);
+      if (!resolved) {
         throw new Error(`Entity with name ${obs.entityName} not found`);
       }
+      const entityId = resolved.id;
       
-      const currentObservations = JSON.parse(entity.observations);
-      const newObservations = obs.contents.filter(content => !currentObservations.includes(content));
+      const validFrom = obs.validFrom !== undefined ? this.parseTimestamp(obs.validFrom, 'validFrom') : undefined;
+      const observationIds = this.insertObservations(entityId, obs.contents, { source: obs.source, confidence: obs.confidence, validFrom });
+      const addedObservations = observationIds.map(id => (this.db!.prepare(`
+        SELECT text FROM observations WHERE id = ?
+      `).get(id) as { text: string }).text);
       
-      if (newObservations.length > 0) {
-        const updatedObservations = [...currentObservations, ...newObservations];
-        
-        this.db.prepare(`
-          UPDATE entities SET observations = ? WHERE id = ?
-        `).run(JSON.stringify(updatedObservations), entityId);
+      if (observationIds.length > 0) {
+        for (const observationId of observationIds) {
+          await this.embedObservation(observationId);
+        }
         
         // Regenerate embedding for the updated entity
         console.error(`🔮 Regenerating embedding for updated entity: ${obs.entityName}`);
         await this.embedEntity(entityId);
+        await this.refreshKnowledgeGraphChunks([entityId], []);
       }
       
-      results.push({ entityName: obs.entityName, addedObservations: newObservations });
+      results.push({ entityName: obs.entityName, addedObservations, observationIds });
     }
 
     return results;
   }
 
+  // Store the observations an entity does not currently have (ignoring case, spacing and a trailing full stop) and return their IDs
+  private insertObservations(entityId: string, contents: string[], provenance: { source?: string; confidence?: number; validFrom?: string } = {}): number[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { source, confidence, validFrom } = provenance;
+    const known = new Set(this.observationsOf(entityId)
+      .filter(observation => !observation.validTo)
+      .map(observation => observationKey(observation.text)));
+    const insert = this.db.prepare(`
+      INSERT INTO observations (entity_id, text, source, confidence, valid_from) VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+    `);
+    
+    const observationIds: number[] = [];
+    for (const content of contents) {
+      const text = content.trim();
+      const key = observationKey(text);
+      if (!key || known.has(key)) continue;
+      known.add(key);
+      observationIds.push(Number(insert.run(entityId, text, source || null, confidence ?? null, validFrom ?? null).lastInsertRowid));
+    }
+    return observationIds;
+  }
+
+  private observationsOf(entityId: string): Observation[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const rows = this.db.prepare(`
+      SELECT id, text, source, confidence, created_at, valid_from, valid_to FROM observations WHERE entity_id = ? ORDER BY id
+    `).all(entityId) as ObservationRow[];
+    return rows.map(row => this.toObservation(row));
+  }
+
+  private toObservation(row: ObservationRow): Observation {
+    return {
+      id: row.id,
+      text: row.text,
+      ...(row.source ? { source: row.source } : {}),
+      ...(row.confidence !== null ? { confidence: row.confidence } : {}),
+      createdAt: row.created_at,
+      validFrom: row.valid_from,
+      ...(row.valid_to ? { validTo: row.valid_to } : {})
+    };
+  }
+
+  // Observation texts of an entity as they were believed at asOf (the cached current ones without it)
+  private observationTextsAt(entityId: string, asOf: string): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const validity = validAt('o', asOf);
+    return (this.db.prepare(`
+      SELECT o.text FROM observations o WHERE o.entity_id = ? AND ${validity.sql} ORDER BY o.id
+    `).all(entityId, ...validity.params) as Array<{ text: string }>).map(row => row.text);
+  }
+
+  // Normalize a timestamp given to a tool to SQLite's UTC datetime format
+  private parseTimestamp(value: string, field: string): string {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const parsed = (this.db.prepare(`SELECT datetime(?) as value`).get(value) as { value: string | null }).value;
+    if (!parsed) {
+      throw new Error(`Invalid ${field} timestamp: ${value} (expected an ISO 8601 date or datetime)`);
+    }
+    return parsed;
+  }
+
+  // Close relationships and observations at validTo instead of deleting them; they stay readable with asOf
+  async invalidate(facts: { relations?: Array<{ from: string; to: string; relationType: string }>; observationIds?: number[] }, validTo?: string): Promise<{
+    validTo: string;
+    invalidatedRelations: Relation[];
+    invalidatedObservations: number[];
+    notFound: string[];
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const now = (this.db.prepare(`SELECT datetime('now') as value`).get() as { value: string }).value;
+    const closedAt = validTo !== undefined ? this.parseTimestamp(validTo, 'validTo') : now;
+    if (closedAt > now) {
+      throw new Error(`validTo cannot be in the future (${closedAt})`);
+    }
+    
+    const invalidatedRelations: Relation[] = [];
+    const invalidatedObservations: number[] = [];
+    const notFound: string[] = [];
+    const touchedRelationships: string[] = [];
+    const touchedEntities = new Set<string>();
+    
+    for (const relation of facts.relations || []) {
+      const sourceId = this.resolveEntity(relation.from)?.id;
+      const targetId = this.resolveEntity(relation.to)?.id;
+      const existing = sourceId && targetId ? this.db.prepare(`
+        SELECT id, valid_from FROM relationships
+        WHERE source_entity = ? AND target_entity = ? AND relationType = ? AND valid_to IS NULL
+      `).get(sourceId, targetId, relation.relationType) as { id: string; valid_from: string } | undefined : undefined;
+      if (!existing) {
+        notFound.push(`${relation.from} ${relation.relationType} ${relation.to}`);
+        continue;
+      }
+      if (closedAt < existing.valid_from) {
+        throw new Error(`validTo ${closedAt} is before the relationship ${relation.from} ${relation.relationType} ${relation.to} became valid (${existing.valid_from})`);
+      }
+      
+      this.db.prepare(`UPDATE relationships SET valid_to = ? WHERE id = ?`).run(closedAt, existing.id);
+      touchedRelationships.push(existing.id);
+      invalidatedRelations.push(this.toRelation(this.db.prepare(`
+        SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+        FROM relationships r
+        JOIN entities e1 ON r.source_entity = e1.id
+        JOIN entities e2 ON r.target_entity = e2.id
+        WHERE r.id = ?
+      `).get(existing.id)));
+    }
+    
+    for (const id of facts.observationIds || []) {
+      const existing = this.db.prepare(`
+        SELECT entity_id, valid_from FROM observations WHERE id = ? AND valid_to IS NULL
+      `).get(id) as { entity_id: string; valid_from: string } | undefined;
+      if (!existing) {
+        notFound.push(`observation ${id}`);
+        continue;
+      }
+      if (closedAt < existing.valid_from) {
+        throw new Error(`validTo ${closedAt} is before observation ${id} became valid (${existing.valid_from})`);
+      }
+      
+      this.db.prepare(`UPDATE observations SET valid_to = ? WHERE id = ?`).run(closedAt, id);
+      touchedEntities.add(existing.entity_id);
+      invalidatedObservations.push(id);
+    }
+    
+    // Current embeddings and chunks only describe what is still valid
+    for (const entityId of touchedEntities) {
+      await this.embedEntity(entityId);
+    }
+    await this.refreshKnowledgeGraphChunks([...touchedEntities], touchedRelationships);
+    
+    console.error(`🕰️ Invalidated ${invalidatedRelations.length} relationships and ${invalidatedObservations.length} observations at ${closedAt}`);
+    
+    return { validTo: closedAt, invalidatedRelations, invalidatedObservations, notFound };
+  }
+
+  // List the observations of entities with their IDs and provenance
+  async listObservations(entityNames: string[]): Promise<Array<{ entityName: string; observations: Observation[] }>> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return entityNames.map(name => {
+      const entity = this.resolveEntity(name);
+      if (!entity) {
+        throw new Error(`Entity with name ${name} not found`);
+      }
+      return { entityName: entity.name, observations: this.observationsOf(entity.id) };
+    });
+  }
+
+  // Edit one observation in place; an empty source clears it
+  async updateObservation(id: number, changes: { text?: string; source?: string; confidence?: number }): Promise<Observation & { entityName: string }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const existing = this.db.prepare(`
+      SELECT o.entity_id, o.text, e.name as entity_name
+      FROM observations o
+      JOIN entities e ON e.id = o.entity_id
+      WHERE o.id = ?
+    `).get(id) as { entity_id: string; text: string; entity_name: string } | undefined;
+    if (!existing) {
+      throw new Error(`Observation with ID ${id} not found`);
+    }
+    
+    const text = changes.text?.trim();
+    if (changes.text !== undefined && !text) {
+      throw new Error(`Observation text cannot be empty`);
+    }
+    const textChanged = text !== undefined && text !== existing.text;
+    if (textChanged) {
+      const duplicate = this.observationsOf(existing.entity_id)
+        .find(observation => observation.id !== id && !observation.validTo && observationKey(observation.text) === observationKey(text));
+      if (duplicate) {
+        throw new Error(`${existing.entity_name} already has this observation (ID ${duplicate.id})`);
+      }
+    }
+    
+    this.db.prepare(`
+      UPDATE observations SET
+        text = COALESCE(?, text),
+        source = CASE WHEN ? IS NULL THEN source ELSE NULLIF(?, '') END,
+        confidence = COALESCE(?, confidence)
+      WHERE id = ?
+    `).run(text ?? null, changes.source ?? null, changes.source ?? null, changes.confidence ?? null, id);
+    
+    if (textChanged) {
+      await this.embedObservation(id);
+      await this.embedEntity(existing.entity_id);
+      await this.refreshKnowledgeGraphChunks([existing.entity_id], []);
+    }
+    
+    const updated = this.db.prepare(`
+      SELECT id, text, source, confidence, created_at, valid_from, valid_to FROM observations WHERE id = ?
+    `).get(id) as ObservationRow;
+    return { entityName: existing.entity_name, ...this.toObservation(updated) };
+  }
+
+  // Rename and/or retype an entity in place, carrying every reference over to its new ID
+  async updateEntity(name: string, changes: { newName?: string; entityType?: string }): Promise<{
+    name: string;
+    entityType: string;
+    previousName: string;
+    previousEntityType: string;
+    updatedRelations: number;
+    aliases: string[];
+  }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      if (this.db.inTransaction) {
+        throw new Error('Another write transaction is in progress, retry updateEntity later');
+      }
+    
+      const resolved = this.resolveEntity(name);
+      if (!resolved) {
+        throw new Error(`Entity with name ${name} not found`);
+      }
+      const entity = this.db.prepare(`
+        SELECT id, name, entityType FROM entities WHERE id = ?
+      `).get(resolved.id) as { id: string; name: string; entityType: string };
+    
+      const newName = changes.newName?.trim() || entity.name;
+      const entityType = changes.entityType?.trim() || entity.entityType;
+      if (newName === entity.name && entityType === entity.entityType) {
+        throw new Error(`No changes given for entity ${entity.name}: provide a new name or entity type`);
+      }
+    
+      // The new name must not already belong to another entity, as its name or an alias
+      const owner = this.resolveEntity(newName);
+      if (owner && owner.id !== entity.id) {
+        throw new Error(`Cannot rename ${entity.name} to ${newName}: the name already refers to ${owner.name}`);
+      }
+    
+      // A rename that changes the derived ID moves the entity to a fresh, collision-safe ID
+      const renamed = newName !== entity.name;
+      const newId = renamed && slugEntityId(newName) !== slugEntityId(entity.name)
+        ? allocateEntityId(newName, id => id !== entity.id && this.entityIdExists(id))
+        : entity.id;
+    
+      console.error(`✏️ Updating entity ${entity.name}${renamed ? ` → ${newName}` : ''}${entityType !== entity.entityType ? ` (type ${entity.entityType} → ${entityType})` : ''}`);
+    
+      // better-sqlite3 transactions cannot span awaits, so the transaction is managed manually
+      await this.beginAsyncTransaction();
+    
+      try {
+        // References still point at the old ID until they are rewritten below; check them at commit instead
+        this.db.pragma('defer_foreign_keys = ON');
+      
+        this.db.prepare(`
+          UPDATE entities SET id = ?, name = ?, entityType = ? WHERE id = ?
+        `).run(newId, newName, entityType, entity.id);
+      
+        // Relationship IDs embed the entity IDs, so they are rewritten along with the endpoints
+        const relationships = this.db.prepare(`
+          SELECT id, source_entity, target_entity, relationType FROM relationships
+          WHERE source_entity = ? OR target_entity = ?
+        `).all(entity.id, entity.id) as Array<{ id: string; source_entity: string; target_entity: string; relationType: string }>;
+      
+        const touchedRelationships: string[] = [];
+        if (newId !== entity.id) {
+          for (const rel of relationships) {
+            const sourceEntity = rel.source_entity === entity.id ? newId : rel.source_entity;
+            const targetEntity = rel.target_entity === entity.id ? newId : rel.target_entity;
+            const newRelId = `rel_${sourceEntity}_${rel.relationType}_${targetEntity}`.toLowerCase();
+            this.db.prepare(`
+              UPDATE relationships SET id = ?, source_entity = ?, target_entity = ? WHERE id = ?
+            `).run(newRelId, sourceEntity, targetEntity, rel.id);
+            touchedRelationships.push(rel.id, newRelId);
+          }
+        
+          this.db.prepare(`UPDATE chunk_entities SET entity_id = ? WHERE entity_id = ?`).run(newId, entity.id);
+          this.db.prepare(`UPDATE entity_embedding_metadata SET entity_id = ? WHERE entity_id = ?`).run(newId, entity.id);
+          this.db.prepare(`UPDATE entity_aliases SET entity_id = ? WHERE entity_id = ?`).run(newId, entity.id);
+          this.db.prepare(`UPDATE observations SET entity_id = ? WHERE entity_id = ?`).run(newId, entity.id);
+        } else {
+          // Same ID, but relationship chunks mention the entity by name
+          touchedRelationships.push(...relationships.map(rel => rel.id));
+        }
+      
+        // The new name stops being an alias; the old one becomes one (unless only its case changed)
+        if (renamed) {
+          this.db.prepare(`DELETE FROM entity_aliases WHERE alias = ? AND entity_id = ?`).run(newName, newId);
+          if (newName.toLowerCase() !== entity.name.toLowerCase()) {
+            this.db.prepare(`INSERT OR IGNORE INTO entity_aliases (alias, entity_id) VALUES (?, ?)`).run(entity.name, newId);
+          }
+        }
+      
+        await this.embedEntity(newId);
+        await this.refreshKnowledgeGraphChunks([entity.id, newId], touchedRelationships);
+      
+        this.db.exec('COMMIT');
+      
+        console.error(`✅ Entity updated: ${newName} (${relationships.length} relationships carried over)`);
+      
+        return {
+          name: newName,
+          entityType,
+          previousName: entity.name,
+          previousEntityType: entity.entityType,
+          updatedRelations: relationships.length,
+          aliases: this.aliasesOf(newId)
+        };
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec('ROLLBACK');
+        }
+        console.error(`❌ Failed to update entity '${entity.name}', all changes rolled back:`, error);
+        throw error;
+      } finally {
+        this.endAsyncTransaction();
+      }
+    });
+  }
+
   async deleteEntities(entityNames: string[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
     console.error(`🗑️ Deleting entities: ${entityNames.join(', ')}`);
     
     for (const name of entityNames) {
-      const entityId = `entity_${name.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      
       try {
         // Check if entity exists first
-        const entityExists = this.db.prepare(`
-          SELECT id FROM entities WHERE id = ?
-        `).get(entityId);
+        const entityId = this.resolveEntity(name)?.id;
         
-        if (!entityExists) {
+        if (!entityId) {
           console.warn(`⚠️ Entity '${name}' not found, skipping`);
           continue;
         }
@@ -370,6 +1154,9 @@ class RAGKnowledgeGraphManager {
         }
         
         // Step 2: Delete relationships where this entity is involved
+        const relationshipIds = (this.db.prepare(`
+          SELECT id FROM relationships WHERE source_entity = ? OR target_entity = ?
+        `).all(entityId, entityId) as Array<{ id: string }>).map(row => row.id);
         const relationships = this.db.prepare(`
           DELETE FROM relationships 
           WHERE source_entity = ? OR target_entity = ?
@@ -388,6 +1175,9 @@ class RAGKnowledgeGraphManager {
           console.warn(`  └─ Entity '${name}' was not deleted (possibly already removed)`);
         }
         
+        // Drop the KG chunks of the entity and its relationships
+        await this.refreshKnowledgeGraphChunks([entityId], relationshipIds);
+        
       } catch (error) {
         console.error(`❌ Failed to delete entity '${name}':`, error);
         // Continue with other entities instead of failing completely
@@ -397,79 +1187,632 @@ class RAGKnowledgeGraphManager {
     console.error(`✅ Entity deletion process completed`);
   }
 
-  async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<void> {
+  // Delete observations by text (ignoring case, spacing and a trailing full stop) and/or by ID
+  async deleteObservations(deletions: { entityName: string; observations: string[] }[] = [], observationIds: number[] = []): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
+    const deleteObservation = this.db.prepare(`DELETE FROM observations WHERE id = ? RETURNING entity_id`);
+    const affectedEntities = new Set<string>();
+    
     for (const deletion of deletions) {
-      const entityId = `entity_${deletion.entityName.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+      const entityId = this.resolveEntity(deletion.entityName)?.id;
+      if (!entityId) continue;
       
-      const entity = this.db.prepare(`
-        SELECT observations FROM entities WHERE id = ?
-      `).get(entityId) as { observations: string } | undefined;
-      
-      if (entity) {
-        const currentObservations = JSON.parse(entity.observations);
-        const filteredObservations = currentObservations.filter(
-          (obs: string) => !deletion.observations.includes(obs)
-        );
-        
-        this.db.prepare(`
-          UPDATE entities SET observations = ? WHERE id = ?
-        `).run(JSON.stringify(filteredObservations), entityId);
+      const keys = new Set(deletion.observations.map(observationKey));
+      for (const observation of this.observationsOf(entityId)) {
+        if (keys.has(observationKey(observation.text))) {
+          deleteObservation.run(observation.id);
+          affectedEntities.add(entityId);
+        }
       }
     }
+    
+    for (const id of observationIds) {
+      const deleted = deleteObservation.get(id) as { entity_id: string } | undefined;
+      if (deleted) affectedEntities.add(deleted.entity_id);
+    }
+    
+    for (const entityId of affectedEntities) {
+      await this.embedEntity(entityId);
+      await this.refreshKnowledgeGraphChunks([entityId], []);
+    }
   }
 
   async deleteRelations(relations: Relation[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
     for (const relation of relations) {
-      const sourceId = `entity_${relation.from.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      const targetId = `entity_${relation.to.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+      const sourceId = this.resolveEntity(relation.from)?.id;
+      const targetId = this.resolveEntity(relation.to)?.id;
+      if (!sourceId || !targetId) continue;
+      
+      const relationshipIds = (this.db.prepare(`
+        SELECT id FROM relationships
+        WHERE source_entity = ? AND target_entity = ? AND relationType = ?
+      `).all(sourceId, targetId, relation.relationType) as Array<{ id: string }>).map(row => row.id);
       
       this.db.prepare(`
         DELETE FROM relationships 
         WHERE source_entity = ? AND target_entity = ? AND relationType = ?
       `).run(sourceId, targetId, relation.relationType);
+      
+      await this.refreshKnowledgeGraphChunks([], relationshipIds);
+    }
+  }
+
+  // === ENTITY ALIASES ===
+
+  async addAliases(additions: { entityName: string; aliases: string[] }[]): Promise<Array<{
+    entityName: string;
+    addedAliases: string[];
+    conflicts: Array<{ alias: string; existingEntity: string }>;
+  }>> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = [];
+    const insertAlias = this.db.prepare(`
+      INSERT OR IGNORE INTO entity_aliases (alias, entity_id) VALUES (?, ?)
+    `);
+    
+    for (const addition of additions) {
+      const entity = this.resolveEntity(addition.entityName);
+      if (!entity) {
+        throw new Error(`Entity with name ${addition.entityName} not found`);
+      }
+      
+      const addedAliases: string[] = [];
+      const conflicts: Array<{ alias: string; existingEntity: string }> = [];
+      
+      for (const rawAlias of addition.aliases) {
+        const alias = rawAlias.trim();
+        if (!alias) continue;
+        
+        // An alias must not already name, or be an alias of, a different entity
+        const existing = this.resolveEntity(alias);
+        if (existing && existing.id !== entity.id) {
+          conflicts.push({ alias, existingEntity: existing.name });
+          continue;
+        }
+        if (existing) continue;
+        
+        insertAlias.run(alias, entity.id);
+        addedAliases.push(alias);
+      }
+      
+      if (conflicts.length > 0) {
+        console.warn(`⚠️ Aliases of '${entity.name}' already used by other entities: ${conflicts.map(c => c.alias).join(', ')}`);
+      }
+      results.push({ entityName: entity.name, addedAliases, conflicts });
+    }
+    
+    return results;
+  }
+
+  async removeAliases(removals: { entityName: string; aliases: string[] }[]): Promise<Array<{
+    entityName: string;
+    removedAliases: string[];
+  }>> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = [];
+    const deleteAlias = this.db.prepare(`
+      DELETE FROM entity_aliases WHERE alias = ? AND entity_id = ?
+    `);
+    
+    for (const removal of removals) {
+      const entity = this.resolveEntity(removal.entityName);
+      if (!entity) {
+        throw new Error(`Entity with name ${removal.entityName} not found`);
+      }
+      
+      const removedAliases = removal.aliases
+        .map(alias => alias.trim())
+        .filter(alias => deleteAlias.run(alias, entity.id).changes > 0);
+      
+      results.push({ entityName: entity.name, removedAliases });
     }
+    
+    return results;
   }
 
-  async readGraph(): Promise<KnowledgeGraph> {
+  // Resolve a name to its entity: exact name first, then case-insensitive name, then alias
+  private resolveEntity(name: string): { id: string; name: string } | undefined {
     if (!this.db) throw new Error('Database not initialized');
     
+    return (this.db.prepare(`SELECT id, name FROM entities WHERE name = ?`).get(name)
+      ?? this.db.prepare(`SELECT id, name FROM entities WHERE name = ? COLLATE NOCASE ORDER BY name LIMIT 1`).get(name)
+      ?? this.db.prepare(`
+        SELECT e.id, e.name FROM entity_aliases a
+        JOIN entities e ON e.id = a.entity_id
+        WHERE a.alias = ?
+      `).get(name.trim())) as { id: string; name: string } | undefined;
+  }
+
+  // Resolve several names, dropping unknown ones and duplicates
+  private resolveEntityIds(names: string[]): string[] {
+    const ids = names.map(name => this.resolveEntity(name)?.id).filter((id): id is string => id !== undefined);
+    return [...new Set(ids)];
+  }
+
+  private aliasesOf(entityId: string): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return (this.db.prepare(`
+      SELECT alias FROM entity_aliases WHERE entity_id = ? ORDER BY alias
+    `).all(entityId) as Array<{ alias: string }>).map(row => row.alias);
+  }
+
+  private entityIdExists(entityId: string): boolean {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return this.db.prepare(`SELECT 1 FROM entities WHERE id = ?`).get(entityId) !== undefined;
+  }
+
+  // === DUPLICATES AND MERGING ===
+
+  // Propose pairs of entities that look like duplicates, scored by name and embedding similarity
+  async findDuplicateEntities(options: {
+    threshold?: number;
+    limit?: number;
+    entityTypes?: string[];
+    entityNames?: string[];
+  } = {}): Promise<{ candidates: DuplicateCandidate[]; comparedEntities: number; unembeddedEntities: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const threshold = options.threshold ?? 0.8;
+    const limit = options.limit ?? 20;
+    
+    console.error(`👯 Looking for duplicate entities (threshold ${threshold})`);
+    
+    const typeFilter = options.entityTypes?.length
+      ? `WHERE e.entityType IN (${options.entityTypes.map(() => '?').join(',')})`
+      : '';
     const entities = this.db.prepare(`
-      SELECT name, entityType, observations FROM entities
-    `).all().map((row: any) => ({
-      name: row.name,
-      entityType: row.entityType,
-      observations: JSON.parse(row.observations)
-    }));
+      SELECT e.id, e.name, e.entityType, eem.rowid as vector_rowid
+      FROM entities e
+      LEFT JOIN entity_embedding_metadata eem ON eem.entity_id = e.id AND eem.embedding_model = ?
+      ${typeFilter}
+    `).all(this.embeddingProvider.modelId, ...(options.entityTypes || [])) as Array<{
+      id: string;
+      name: string;
+      entityType: string;
+      vector_rowid: number | null;
+    }>;
+    const byId = new Map(entities.map(entity => [entity.id, entity]));
     
-    const relations = this.db.prepare(`
+    // Only pairs involving these entities are proposed, when given
+    const focus = options.entityNames?.length ? new Set(this.resolveEntityIds(options.entityNames)) : null;
+    const isCandidatePair = (a: string, b: string) => a !== b && byId.has(a) && byId.has(b) && (!focus || focus.has(a) || focus.has(b));
+    
+    const pairs = new Map<string, [string, string]>();
+    const addPair = (a: string, b: string) => {
+      if (!isCandidatePair(a, b)) return;
+      const pair: [string, string] = a < b ? [a, b] : [b, a];
+      pairs.set(pair.join('\u0000'), pair);
+    };
+    
+    // Candidates by meaning: nearest neighbours among vectors of the active model
+    const vectorQuery = this.db.prepare(`SELECT embedding FROM entity_embeddings WHERE rowid = ?`);
+    const neighbourQuery = this.db.prepare(`
+      SELECT eem.entity_id
+      FROM entity_embeddings ee
+      JOIN entity_embedding_metadata eem ON ee.rowid = eem.rowid
+      WHERE ee.embedding MATCH ?
+        AND k = ?
+        AND ee.rowid IN (SELECT rowid FROM entity_embedding_metadata WHERE embedding_model = ?)
+    `);
+    for (const entity of entities) {
+      if (entity.vector_rowid === null || (focus && !focus.has(entity.id))) continue;
+      const vector = vectorQuery.get(BigInt(entity.vector_rowid)) as { embedding: Buffer } | undefined;
+      if (!vector) continue;
+      const neighbours = neighbourQuery.all(vector.embedding, DUPLICATE_NEIGHBOURS + 1, this.embeddingProvider.modelId) as Array<{ entity_id: string }>;
+      neighbours.forEach(neighbour => addPair(entity.id, neighbour.entity_id));
+    }
+    
+    // Candidates by spelling: names sharing their first normalized characters
+    const blocks = new Map<string, string[]>();
+    for (const entity of entities) {
+      const key = normalizeEntityName(entity.name).slice(0, 3);
+      if (!key) continue;
+      blocks.set(key, [...(blocks.get(key) || []), entity.id]);
+    }
+    for (const block of blocks.values()) {
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          addPair(block[i], block[j]);
+        }
+      }
+    }
+    
+    const cosineQuery = this.db.prepare(`
+      SELECT vec_distance_cosine(a.embedding, b.embedding) as distance
+      FROM entity_embeddings a, entity_embeddings b
+      WHERE a.rowid = ? AND b.rowid = ?
+    `);
+    
+    const candidates: DuplicateCandidate[] = [];
+    for (const [a, b] of pairs.values()) {
+      const left = byId.get(a)!;
+      const right = byId.get(b)!;
+      
+      const names = nameSimilarity(left.name, right.name);
+      let embedding: number | null = null;
+      if (left.vector_rowid !== null && right.vector_rowid !== null) {
+        const row = cosineQuery.get(BigInt(left.vector_rowid), BigInt(right.vector_rowid)) as { distance: number } | undefined;
+        if (row) embedding = 1 - row.distance;
+      }
+      
+      // Without a vector on both sides the name alone decides
+      const score = embedding === null
+        ? names
+        : DUPLICATE_NAME_WEIGHT * names + (1 - DUPLICATE_NAME_WEIGHT) * embedding;
+      
+      if (score >= threshold) {
+        candidates.push({
+          entities: [left.name, right.name],
+          entityTypes: [left.entityType, right.entityType],
+          score: Math.round(score * 1000) / 1000,
+          nameSimilarity: Math.round(names * 1000) / 1000,
+          embeddingSimilarity: embedding === null ? null : Math.round(embedding * 1000) / 1000
+        });
+      }
+    }
+    
+    candidates.sort((x, y) => y.score - x.score);
+    const unembeddedEntities = entities.filter(entity => entity.vector_rowid === null).length;
+    
+    console.error(`✅ Found ${candidates.length} duplicate candidate(s) among ${entities.length} entities`);
+    
+    return {
+      candidates: candidates.slice(0, limit),
+      comparedEntities: entities.length,
+      unembeddedEntities
+    };
+  }
+
+  // Fold entities into a surviving entity; their names become aliases of the survivor
+  async mergeEntities(targetName: string, sourceNames: string[]): Promise<{
+    survivor: string;
+    mergedEntities: string[];
+    addedObservations: number;
+    relations: { repointed: number; dropped: number };
+    movedChunkLinks: number;
+    aliases: string[];
+  }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      if (this.db.inTransaction) {
+        throw new Error('Another write transaction is in progress, retry mergeEntities later');
+      }
+    
+      const target = this.resolveEntity(targetName);
+      if (!target) {
+        throw new Error(`Entity with name ${targetName} not found`);
+      }
+      const sources: Array<{ id: string; name: string }> = [];
+      for (const name of sourceNames) {
+        const source = this.resolveEntity(name);
+        if (!source) {
+          throw new Error(`Entity with name ${name} not found`);
+        }
+        if (source.id !== target.id && !sources.some(existing => existing.id === source.id)) {
+          sources.push(source);
+        }
+      }
+      if (sources.length === 0) {
+        throw new Error(`Nothing to merge into ${target.name}: the given entities are the survivor itself`);
+      }
+    
+      const sourceIds = new Set(sources.map(source => source.id));
+      console.error(`🔀 Merging ${sources.map(source => source.name).join(', ')} into ${target.name}`);
+    
+      // better-sqlite3 transactions cannot span awaits, so the transaction is managed manually
+      await this.beginAsyncTransaction();
+    
+      try {
+        // Observations move to the survivor with their IDs, provenance and vectors; current ones it already has are dropped
+        const known = new Set(this.observationsOf(target.id)
+          .filter(observation => !observation.validTo)
+          .map(observation => observationKey(observation.text)));
+        let addedObservations = 0;
+        for (const source of sources) {
+          for (const observation of this.observationsOf(source.id)) {
+            const key = observationKey(observation.text);
+            if (observation.validTo) {
+              this.db.prepare(`UPDATE observations SET entity_id = ? WHERE id = ?`).run(target.id, observation.id);
+            } else if (known.has(key)) {
+              this.db.prepare(`DELETE FROM observations WHERE id = ?`).run(observation.id);
+            } else {
+              this.db.prepare(`UPDATE observations SET entity_id = ? WHERE id = ?`).run(target.id, observation.id);
+              known.add(key);
+              addedObservations++;
+            }
+          }
+        }
+      
+        // Relationships: re-point endpoints to the survivor; ones now duplicating an existing
+        // relationship, or linking the survivor to itself, are dropped
+        const placeholders = sources.map(() => '?').join(',');
+        const relationships = this.db.prepare(`
+          SELECT id, source_entity, target_entity, relationType, confidence FROM relationships
+          WHERE source_entity IN (${placeholders}) OR target_entity IN (${placeholders})
+        `).all(...sourceIds, ...sourceIds) as Array<{
+          id: string;
+          source_entity: string;
+          target_entity: string;
+          relationType: string;
+          confidence: number;
+        }>;
+      
+        const touchedRelationships: string[] = [];
+        let repointed = 0;
+        let dropped = 0;
+        for (const rel of relationships) {
+          const sourceEntity = sourceIds.has(rel.source_entity) ? target.id : rel.source_entity;
+          const targetEntity = sourceIds.has(rel.target_entity) ? target.id : rel.target_entity;
+          const newId = `rel_${sourceEntity}_${rel.relationType}_${targetEntity}`.toLowerCase();
+          touchedRelationships.push(rel.id, newId);
+        
+          const becomesSelfLoop = sourceEntity === targetEntity && rel.source_entity !== rel.target_entity;
+          const moved = !becomesSelfLoop && this.db.prepare(`
+            UPDATE OR IGNORE relationships SET id = ?, source_entity = ?, target_entity = ? WHERE id = ?
+          `).run(newId, sourceEntity, targetEntity, rel.id).changes > 0;
+        
+          if (moved) {
+            repointed++;
+          } else {
+            if (!becomesSelfLoop) {
+              this.db.prepare(`
+                UPDATE relationships SET confidence = MAX(COALESCE(confidence, 1.0), ?) WHERE id = ?
+              `).run(rel.confidence ?? 1.0, newId);
+            }
+            this.db.prepare(`DELETE FROM relationships WHERE id = ?`).run(rel.id);
+            dropped++;
+          }
+        }
+      
+        // Document chunk links
+        let movedChunkLinks = 0;
+        for (const source of sources) {
+          movedChunkLinks += this.db.prepare(`
+            INSERT OR IGNORE INTO chunk_entities (chunk_rowid, entity_id)
+            SELECT chunk_rowid, ? FROM chunk_entities WHERE entity_id = ?
+          `).run(target.id, source.id).changes;
+          this.db.prepare(`DELETE FROM chunk_entities WHERE entity_id = ?`).run(source.id);
+        }
+      
+        // Aliases of the merged entities move over, and their names become aliases too
+        const aliases: string[] = [];
+        for (const source of sources) {
+          aliases.push(...this.aliasesOf(source.id));
+          this.db.prepare(`UPDATE entity_aliases SET entity_id = ? WHERE entity_id = ?`).run(target.id, source.id);
+        }
+        for (const source of sources) {
+          this.db.prepare(`DELETE FROM entity_embedding_metadata WHERE entity_id = ?`).run(source.id);
+          this.db.prepare(`DELETE FROM entities WHERE id = ?`).run(source.id);
+          this.db.prepare(`INSERT OR IGNORE INTO entity_aliases (alias, entity_id) VALUES (?, ?)`).run(source.name, target.id);
+          aliases.push(source.name);
+        }
+      
+        await this.embedEntity(target.id);
+        await this.refreshKnowledgeGraphChunks([target.id, ...sourceIds], touchedRelationships);
+      
+        this.db.exec('COMMIT');
+      
+        console.error(`✅ Merged ${sources.length} entities into ${target.name}: ${repointed} relationships re-pointed, ${dropped} dropped, ${movedChunkLinks} chunk links moved`);
+      
+        return {
+          survivor: target.name,
+          mergedEntities: sources.map(source => source.name),
+          addedObservations,
+          relations: { repointed, dropped },
+          movedChunkLinks,
+          aliases
+        };
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec('ROLLBACK');
+        }
+        console.error(`❌ Failed to merge into '${target.name}', all changes rolled back:`, error);
+        throw error;
+      } finally {
+        this.endAsyncTransaction();
+      }
+    });
+  }
+
+  async readGraph(options: ReadGraphOptions = {}): Promise<GraphPage | GraphSummary> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    if (options.asOf !== undefined) {
+      options = { ...options, asOf: this.parseTimestamp(options.asOf, 'asOf') };
+    }
+    
+    if (options.summary) {
+      return this.summarizeGraph(options);
+    }
+    
+    const limit = options.limit ?? DEFAULT_GRAPH_PAGE_SIZE;
+    const includeObservations = options.includeObservations ?? true;
+    
+    const sourceFilter = this.graphEntityFilter('e1', options);
+    const targetFilter = this.graphEntityFilter('e2', options);
+    const relationTypeFilter = options.relationTypes?.length
+      ? `AND r.relationType IN (${options.relationTypes.map(() => '?').join(',')})`
+      : '';
+    const relationTypeParams = options.relationTypes || [];
+    
+    // Keyset pagination on the unique entity name; the cursor is the last name of the previous page
+    const after = options.cursor !== undefined ? this.decodeGraphCursor(options.cursor) : null;
+    const rows = this.db.prepare(`
+      SELECT e1.id, e1.name, e1.entityType, e1.observations FROM entities e1
+      WHERE ${sourceFilter.sql}
+        ${after !== null ? 'AND e1.name > ?' : ''}
+      ORDER BY e1.name
+      LIMIT ?
+    `).all(
+      ...sourceFilter.params,
+      ...(after !== null ? [after] : []),
+      limit + 1
+    ) as Array<{ id: string; name: string; entityType: string; observations: string }>;
+    
+    const page = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? this.encodeGraphCursor(page[page.length - 1].name) : null;
+    
+    const entities = page.map(row => includeObservations
+      ? {
+        name: row.name,
+        entityType: row.entityType,
+        observations: options.asOf ? this.observationTextsAt(row.id, options.asOf) : JSON.parse(row.observations)
+      }
+      : { name: row.name, entityType: row.entityType });
+    
+    const pageIds = page.map(row => row.id);
+    const validity = validAt('r', options.asOf);
+    const relations = pageIds.length === 0 ? [] : this.db.prepare(`
       SELECT 
         e1.name as from_name,
         e2.name as to_name,
-        r.relationType
+        r.relationType,
+        r.confidence,
+        r.metadata,
+        r.source,
+        r.valid_from,
+        r.valid_to
       FROM relationships r
       JOIN entities e1 ON r.source_entity = e1.id
       JOIN entities e2 ON r.target_entity = e2.id
-    `).all().map((row: any) => ({
-      from: row.from_name,
-      to: row.to_name,
-      relationType: row.relationType
-    }));
+      WHERE r.source_entity IN (${pageIds.map(() => '?').join(',')})
+        AND ${targetFilter.sql}
+        AND ${validity.sql}
+        ${relationTypeFilter}
+      ORDER BY e1.name, r.relationType, e2.name
+    `).all(...pageIds, ...targetFilter.params, ...validity.params, ...relationTypeParams).map((row: any) => this.toRelation(row));
 
-    return { entities, relations };
+    return { entities, relations, nextCursor };
+  }
+
+  // Counts and the best-connected entities of the (filtered) graph, without listing it
+  private summarizeGraph(options: ReadGraphOptions): GraphSummary {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const sourceFilter = this.graphEntityFilter('e1', options);
+    const targetFilter = this.graphEntityFilter('e2', options);
+    const relationTypeFilter = options.relationTypes?.length
+      ? `AND r.relationType IN (${options.relationTypes.map(() => '?').join(',')})`
+      : '';
+    const relationTypeParams = options.relationTypes || [];
+    const validity = validAt('r', options.asOf);
+    
+    // Relationships whose endpoints both pass the entity filters
+    const matchingRelations = `
+      SELECT r.id, r.relationType, r.source_entity, r.target_entity
+      FROM relationships r
+      JOIN entities e1 ON r.source_entity = e1.id
+      JOIN entities e2 ON r.target_entity = e2.id
+      WHERE ${sourceFilter.sql} AND ${targetFilter.sql} AND ${validity.sql}
+        ${relationTypeFilter}
+    `;
+    const relationParams = [...sourceFilter.params, ...targetFilter.params, ...validity.params, ...relationTypeParams];
+    
+    const entityTypes = this.db.prepare(`
+      SELECT e1.entityType as type, COUNT(*) as count FROM entities e1
+      WHERE ${sourceFilter.sql}
+      GROUP BY e1.entityType
+      ORDER BY count DESC, type
+    `).all(...sourceFilter.params) as Array<{ type: string; count: number }>;
+    
+    const relationTypes = this.db.prepare(`
+      SELECT relationType as type, COUNT(*) as count FROM (${matchingRelations})
+      GROUP BY relationType
+      ORDER BY count DESC, type
+    `).all(...relationParams) as Array<{ type: string; count: number }>;
+    
+    const topNodes = this.db.prepare(`
+      WITH matching AS (${matchingRelations}),
+      endpoints AS (
+        SELECT source_entity as entity_id FROM matching
+        UNION ALL
+        SELECT target_entity as entity_id FROM matching
+      )
+      SELECT e.name, e.entityType, COUNT(*) as degree
+      FROM endpoints ep
+      JOIN entities e ON e.id = ep.entity_id
+      GROUP BY e.id
+      ORDER BY degree DESC, e.name
+      LIMIT ?
+    `).all(...relationParams, GRAPH_SUMMARY_TOP_NODES) as Array<{ name: string; entityType: string; degree: number }>;
+    
+    return {
+      entityCount: entityTypes.reduce((sum, row) => sum + row.count, 0),
+      relationCount: relationTypes.reduce((sum, row) => sum + row.count, 0),
+      entityTypes: Object.fromEntries(entityTypes.map(row => [row.type, row.count])),
+      relationTypes: Object.fromEntries(relationTypes.map(row => [row.type, row.count])),
+      topNodes
+    };
+  }
+
+  // SQL condition applying the readGraph entity filters to the entities table under the given alias
+  private graphEntityFilter(alias: string, options: ReadGraphOptions): { sql: string; params: Array<string | number> } {
+    const existed = existedAt(alias, options.asOf);
+    const clauses: string[] = [existed.sql];
+    const params: Array<string | number> = [...existed.params];
+    
+    if (options.entityTypes?.length) {
+      clauses.push(`${alias}.entityType IN (${options.entityTypes.map(() => '?').join(',')})`);
+      params.push(...options.entityTypes);
+    }
+    if (options.namePrefix) {
+      clauses.push(`${alias}.name LIKE ? ESCAPE '\\'`);
+      params.push(options.namePrefix.replace(/[\\%_]/g, match => `\\${match}`) + '%');
+    }
+    if (options.createdAfter) {
+      clauses.push(`datetime(${alias}.created_at) >= datetime(?)`);
+      params.push(options.createdAfter);
+    }
+    if (options.createdBefore) {
+      clauses.push(`datetime(${alias}.created_at) < datetime(?)`);
+      params.push(options.createdBefore);
+    }
+    
+    return { sql: clauses.join(' AND '), params };
+  }
+
+  private encodeGraphCursor(name: string): string {
+    return Buffer.from(name, 'utf8').toString('base64url');
   }
 
-  async searchNodes(query: string, limit = 10): Promise<KnowledgeGraph> {
+  private decodeGraphCursor(cursor: string): string {
+    const name = Buffer.from(cursor, 'base64url').toString('utf8');
+    if (name.length === 0 || this.encodeGraphCursor(name) !== cursor) {
+      throw new Error(`Invalid readGraph cursor: ${cursor}`);
+    }
+    return name;
+  }
+
+  async searchNodes(query: string, limit = 10, filter?: SearchFilter, asOf?: string): Promise<KnowledgeGraph> {
     if (!this.db) throw new Error('Database not initialized');
     
-    console.error(`🔍 Semantic entity search: "${query}"`);
+    console.error(`🔍 Semantic entity search: "${query}"${asOf ? ` as of ${asOf}` : ''}`);
+    
+    // With asOf, entities recorded later are left out; ranking still uses the current embeddings and text
+    const at = asOf !== undefined ? this.parseTimestamp(asOf, 'asOf') : undefined;
+    const compiledFilter = compileEntityFilter(filter);
+    const existed = existedAt('e', at);
+    const entityFilter = {
+      sql: `${compiledFilter.sql} AND ${existed.sql}`,
+      params: [...compiledFilter.params, ...existed.params]
+    };
     
     // Generate query embedding
     const queryEmbedding = await this.generateEmbedding(query);
     
+    // Vectors from other models live in a different space; they are excluded inside the KNN query
+    const staleEntities = this.countStaleVectors().entities;
+    if (staleEntities > 0) {
+      console.error(`⚠️ Ignoring ${staleEntities} entity vectors not produced by ${this.embeddingProvider.modelId} (run reembedStale)`);
+    }
+    
     // Perform vector similarity search on entities
     const entityResults = this.db.prepare(`
       SELECT 
@@ -485,8 +1828,13 @@ class RAGKnowledgeGraphManager {
       JOIN entities e ON eem.entity_id = e.id
       WHERE ee.embedding MATCH ?
         AND k = ?
+        AND ee.rowid IN (
+          SELECT eem.rowid FROM entity_embedding_metadata eem
+          JOIN entities e ON eem.entity_id = e.id
+          WHERE eem.embedding_model = ? AND ${entityFilter.sql}
+        )
       ORDER BY ee.distance
-    `).all(Buffer.from(queryEmbedding.buffer), limit) as Array<{
+    `).all(Buffer.from(queryEmbedding.buffer), limit, this.embeddingProvider.modelId, ...entityFilter.params) as Array<{
       rowid: number;
       entity_id: string;
       embedding_text: string;
@@ -496,76 +1844,462 @@ class RAGKnowledgeGraphManager {
       observations: string;
     }>;
     
-    if (entityResults.length === 0) {
-      console.error(`ℹ️ No semantic matches found for "${query}"`);
+    // BM25 over names (weighted higher) and observations
+    const ftsQuery = this.buildFtsQuery(query);
+    const lexicalResults = ftsQuery ? this.db.prepare(`
+      SELECT 
+        e.id as entity_id,
+        e.name,
+        e.entityType,
+        e.observations,
+        bm25(entities_fts, 0.0, 2.0, 1.0) as bm25
+      FROM entities_fts
+      JOIN entities e ON e.id = entities_fts.entity_id
+      WHERE entities_fts MATCH ?
+        AND ${entityFilter.sql}
+      ORDER BY bm25
+      LIMIT ?
+    `).all(ftsQuery, ...entityFilter.params, limit) as Array<{
+      entity_id: string;
+      name: string;
+      entityType: string;
+      observations: string;
+      bm25: number;
+    }> : [];
+    
+    type Candidate = { name: string; entityType: string; observations: string; distance?: number; vectorRank?: number; bm25?: number; lexicalRank?: number };
+    const candidates = new Map<string, Candidate>();
+    entityResults.forEach((result, index) => {
+      candidates.set(result.entity_id, { ...result, vectorRank: index + 1 });
+    });
+    lexicalResults.forEach((result, index) => {
+      const candidate: Candidate = candidates.get(result.entity_id) || { name: result.name, entityType: result.entityType, observations: result.observations };
+      candidate.bm25 = result.bm25;
+      candidate.lexicalRank = index + 1;
+      candidates.set(result.entity_id, candidate);
+    });
+    
+    if (candidates.size === 0) {
+      console.error(`ℹ️ No semantic or lexical matches found for "${query}"`);
       return { entities: [], relations: [] };
     }
     
-    const entities = entityResults.map(result => ({
-      name: result.name,
-      entityType: result.entityType,
-      observations: JSON.parse(result.observations),
-      similarity: 1 / (1 + result.distance) // Convert distance to similarity score
-    }));
+    // Lexical-only matches still get a similarity when they have a vector in the active space
+    const distanceQuery = this.db.prepare(`
+      SELECT vec_distance_l2(ee.embedding, ?) as distance
+      FROM entity_embedding_metadata eem
+      JOIN entity_embeddings ee ON ee.rowid = eem.rowid
+      WHERE eem.entity_id = ? AND eem.embedding_model = ?
+    `);
+    for (const [entityId, candidate] of candidates) {
+      if (candidate.distance === undefined) {
+        const row = distanceQuery.get(Buffer.from(queryEmbedding.buffer), entityId, this.embeddingProvider.modelId) as { distance: number } | undefined;
+        candidate.distance = row?.distance;
+      }
+    }
+    
+    const ranked = [...candidates.entries()]
+      .map(([entityId, candidate]) => ({
+        entityId,
+        candidate,
+        fusion_score: this.fuseRanks(candidate.vectorRank, candidate.lexicalRank, DEFAULT_LEXICAL_WEIGHT)
+      }))
+      .sort((a, b) => b.fusion_score - a.fusion_score)
+      .slice(0, limit);
+    
+    // The observation of each result closest to the query, among the valid ones embedded by the active model
+    const observationValidity = validAt('o', at);
+    const observationQuery = this.db.prepare(`
+      SELECT o.id, o.text, vec_distance_l2(oe.embedding, ?) as distance
+      FROM observations o
+      JOIN observation_embeddings oe ON oe.rowid = o.id
+      WHERE o.entity_id = ? AND o.embedding_model = ? AND o.embedding_dimensions = ? AND ${observationValidity.sql}
+      ORDER BY distance
+      LIMIT 1
+    `);
+    
+    const entities = ranked.map(({ entityId, candidate, fusion_score }) => {
+      const matched = observationQuery.get(
+        Buffer.from(queryEmbedding.buffer), entityId, this.embeddingProvider.modelId, queryEmbedding.length, ...observationValidity.params
+      ) as { id: number; text: string; distance: number } | undefined;
+      return {
+        name: candidate.name,
+        entityType: candidate.entityType,
+        observations: at ? this.observationTextsAt(entityId, at) : JSON.parse(candidate.observations),
+        similarity: candidate.distance !== undefined ? 1 / (1 + candidate.distance) : 0, // Convert distance to similarity score
+        lexical_score: candidate.bm25 !== undefined ? -candidate.bm25 : undefined,
+        fusion_score,
+        matchedObservation: matched ? { id: matched.id, text: matched.text, similarity: 1 / (1 + matched.distance) } : undefined
+      };
+    });
     
     // Get relationships between the found entities
     const entityNames = entities.map(e => e.name);
+    const relationValidity = validAt('r', at);
     const relations = this.db.prepare(`
       SELECT 
         e1.name as from_name,
         e2.name as to_name,
-        r.relationType
+        r.relationType,
+        r.confidence,
+        r.metadata,
+        r.source,
+        r.valid_from,
+        r.valid_to
       FROM relationships r
       JOIN entities e1 ON r.source_entity = e1.id
       JOIN entities e2 ON r.target_entity = e2.id
       WHERE e1.name IN (${entityNames.map(() => '?').join(',')}) 
         AND e2.name IN (${entityNames.map(() => '?').join(',')})
-    `).all(...entityNames, ...entityNames).map((row: any) => ({
-      from: row.from_name,
-      to: row.to_name,
-      relationType: row.relationType
-    }));
+        AND ${relationValidity.sql}
+    `).all(...entityNames, ...entityNames, ...relationValidity.params).map((row: any) => this.toRelation(row));
 
     console.error(`✅ Found ${entities.length} semantically similar entities with ${relations.length} relationships`);
     
     return { entities, relations };
   }
 
-  async openNodes(names: string[]): Promise<KnowledgeGraph> {
+  async openNodes(names: string[], asOf?: string): Promise<KnowledgeGraph> {
     if (!this.db) throw new Error('Database not initialized');
     
-    if (names.length === 0) {
+    const at = asOf !== undefined ? this.parseTimestamp(asOf, 'asOf') : undefined;
+    const entityIds = this.resolveEntityIds(names);
+    if (entityIds.length === 0) {
       return { entities: [], relations: [] };
     }
     
-    const entities = this.db.prepare(`
-      SELECT name, entityType, observations FROM entities
-      WHERE name IN (${names.map(() => '?').join(',')})
-    `).all(...names).map((row: any) => ({
-      name: row.name,
-      entityType: row.entityType,
-      observations: JSON.parse(row.observations)
-    }));
+    const existed = existedAt('e', at);
+    const rows = this.db.prepare(`
+      SELECT e.id, e.name, e.entityType, e.observations FROM entities e
+      WHERE e.id IN (${entityIds.map(() => '?').join(',')}) AND ${existed.sql}
+    `).all(...entityIds, ...existed.params) as Array<{ id: string; name: string; entityType: string; observations: string }>;
+    const entities = rows.map(row => {
+      const aliases = this.aliasesOf(row.id);
+      return {
+        name: row.name,
+        entityType: row.entityType,
+        observations: at ? this.observationTextsAt(row.id, at) : JSON.parse(row.observations),
+        ...(aliases.length > 0 ? { aliases } : {})
+      };
+    });
     
+    const existingIds = rows.map(row => row.id);
+    const validity = validAt('r', at);
     const relations = this.db.prepare(`
       SELECT 
         e1.name as from_name,
         e2.name as to_name,
-        r.relationType
+        r.relationType,
+        r.confidence,
+        r.metadata,
+        r.source,
+        r.valid_from,
+        r.valid_to
       FROM relationships r
       JOIN entities e1 ON r.source_entity = e1.id
       JOIN entities e2 ON r.target_entity = e2.id
-      WHERE e1.name IN (${names.map(() => '?').join(',')}) 
-        AND e2.name IN (${names.map(() => '?').join(',')})
-    `).all(...names, ...names).map((row: any) => ({
-      from: row.from_name,
-      to: row.to_name,
-      relationType: row.relationType
-    }));
+      WHERE r.source_entity IN (${existingIds.map(() => '?').join(',')}) 
+        AND r.target_entity IN (${existingIds.map(() => '?').join(',')})
+        AND ${validity.sql}
+    `).all(...existingIds, ...existingIds, ...validity.params).map((row: any) => this.toRelation(row));
 
     return { entities, relations };
   }
 
+  // Walk relationships breadth-first from the start entities, returning the reached subgraph with paths
+  async traverseGraph(startEntities: string[], options: {
+    maxDepth?: number;
+    direction?: TraversalDirection;
+    relationTypes?: string[];
+    entityTypes?: string[];
+    maxNodes?: number;
+    asOf?: string;
+  } = {}): Promise<{
+    startEntities: string[];
+    missingEntities: string[];
+    entities: TraversedEntity[];
+    relations: Relation[];
+    truncated: boolean;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const maxDepth = options.maxDepth ?? 2;
+    const direction = options.direction ?? 'both';
+    const maxNodes = options.maxNodes ?? 50;
+    const at = options.asOf !== undefined ? this.parseTimestamp(options.asOf, 'asOf') : undefined;
+    
+    console.error(`🕸️ Traversing graph from ${startEntities.join(', ')} (depth ${maxDepth}, ${direction})${at ? ` as of ${at}` : ''}`);
+    
+    // With asOf, start entities recorded later count as missing
+    const existed = existedAt('e', at);
+    const existedQuery = this.db.prepare(`SELECT 1 FROM entities e WHERE e.id = ? AND ${existed.sql}`);
+    
+    const starts: Array<{ id: string; name: string }> = [];
+    const missingEntities: string[] = [];
+    for (const name of startEntities) {
+      const start = this.resolveEntity(name);
+      if (!start || !existedQuery.get(start.id, ...existed.params)) {
+        missingEntities.push(name);
+      } else if (!starts.some(existing => existing.id === start.id)) {
+        starts.push(start);
+      }
+    }
+    
+    if (starts.length === 0) {
+      return { startEntities: [], missingEntities, entities: [], relations: [], truncated: false };
+    }
+    
+    const { joinCondition, nextEntity, params: stepParams } = this.relationshipStep('w.entity_id', direction, at);
+    const relationTypeFilter = options.relationTypes?.length
+      ? `AND r.relationType IN (${options.relationTypes.map(() => '?').join(',')})`
+      : '';
+    const entityTypeFilter = options.entityTypes?.length
+      ? `AND n.entityType IN (${options.entityTypes.map(() => '?').join(',')})`
+      : '';
+    
+    // Breadth-first walk: ORDER BY depth turns the recursive queue into BFS, the path check prevents cycles
+    const rows = this.db.prepare(`
+      WITH RECURSIVE walk(entity_id, depth, node_path, edge_path) AS (
+        SELECT id, 0, ',' || id || ',', '' FROM entities
+        WHERE id IN (${starts.map(() => '?').join(',')})
+        UNION ALL
+        SELECT
+          ${nextEntity},
+          w.depth + 1,
+          w.node_path || ${nextEntity} || ',',
+          w.edge_path || r.id || char(31)
+        FROM walk w
+        JOIN relationships r ON ${joinCondition}
+        JOIN entities n ON n.id = ${nextEntity}
+        WHERE w.depth < ?
+          AND instr(w.node_path, ',' || ${nextEntity} || ',') = 0
+          ${relationTypeFilter}
+          ${entityTypeFilter}
+        ORDER BY 2
+        LIMIT ${MAX_GRAPH_WALK_ROWS}
+      )
+      SELECT entity_id, depth, edge_path FROM walk
+    `).all(
+      ...starts.map(start => start.id),
+      ...stepParams,
+      maxDepth,
+      ...(options.relationTypes || []),
+      ...(options.entityTypes || [])
+    ) as Array<{ entity_id: string; depth: number; edge_path: string }>;
+    
+    // Rows arrive in BFS order, so the first row per entity carries its shortest path
+    const reached = new Map<string, { depth: number; edgePath: string }>();
+    for (const row of rows) {
+      if (!reached.has(row.entity_id)) {
+        reached.set(row.entity_id, { depth: row.depth, edgePath: row.edge_path });
+      }
+    }
+    
+    // Hitting the row cap means the walk stopped before exploring every path, so more entities may be reachable
+    const truncated = reached.size > maxNodes || rows.length >= MAX_GRAPH_WALK_ROWS;
+    const selected = [...reached.entries()].slice(0, maxNodes);
+    
+    const relationshipQuery = this.db.prepare(`
+      SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+      FROM relationships r
+      JOIN entities e1 ON r.source_entity = e1.id
+      JOIN entities e2 ON r.target_entity = e2.id
+      WHERE r.id = ?
+    `);
+    const relationshipCache = new Map<string, Relation>();
+    const toRelation = (relationshipId: string): Relation => {
+      if (!relationshipCache.has(relationshipId)) {
+        relationshipCache.set(relationshipId, this.toRelation(relationshipQuery.get(relationshipId)));
+      }
+      return relationshipCache.get(relationshipId)!;
+    };
+    
+    const entityQuery = this.db.prepare(`
+      SELECT name, entityType, observations FROM entities WHERE id = ?
+    `);
+    const entities: TraversedEntity[] = selected.map(([entityId, { depth, edgePath }]) => {
+      const entity = entityQuery.get(entityId) as { name: string; entityType: string; observations: string };
+      return {
+        name: entity.name,
+        entityType: entity.entityType,
+        observations: at ? this.observationTextsAt(entityId, at) : JSON.parse(entity.observations),
+        depth,
+        path: edgePath.split(String.fromCharCode(31)).filter(id => id.length > 0).map(toRelation)
+      };
+    });
+    
+    // The subgraph: every relationship between returned entities that passes the relation type filter
+    const selectedIds = selected.map(([entityId]) => entityId);
+    const validity = validAt('r', at);
+    const relations = this.db.prepare(`
+      SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+      FROM relationships r
+      JOIN entities e1 ON r.source_entity = e1.id
+      JOIN entities e2 ON r.target_entity = e2.id
+      WHERE r.source_entity IN (${selectedIds.map(() => '?').join(',')})
+        AND r.target_entity IN (${selectedIds.map(() => '?').join(',')})
+        AND ${validity.sql}
+        ${relationTypeFilter}
+    `).all(...selectedIds, ...selectedIds, ...validity.params, ...(options.relationTypes || [])).map((row: any) => this.toRelation(row));
+    
+    console.error(`✅ Traversal reached ${entities.length} entities${reached.size > maxNodes ? ` (truncated from ${reached.size})` : truncated ? ' (walk size limit reached)' : ''} with ${relations.length} relationships`);
+    
+    return {
+      startEntities: starts.map(start => start.name),
+      missingEntities,
+      entities,
+      relations,
+      truncated
+    };
+  }
+
+  // Find the k cheapest simple paths between two entities; hops cost 1, or 1/confidence when weighted
+  async findPaths(from: string, to: string, options: {
+    maxDepth?: number;
+    direction?: TraversalDirection;
+    relationTypes?: string[];
+    k?: number;
+    weighted?: boolean;
+    asOf?: string;
+  } = {}): Promise<{
+    from: string;
+    to: string;
+    shortestPath: GraphPath | null;
+    paths: GraphPath[];
+    truncated: boolean;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const maxDepth = options.maxDepth ?? 4;
+    const direction = options.direction ?? 'both';
+    const k = options.k ?? 3;
+    const weighted = options.weighted ?? false;
+    const at = options.asOf !== undefined ? this.parseTimestamp(options.asOf, 'asOf') : undefined;
+    
+    console.error(`🧭 Finding ${k} path(s) from ${from} to ${to} (depth ${maxDepth}, ${direction}${weighted ? ', confidence-weighted' : ''})${at ? ` as of ${at}` : ''}`);
+    
+    const source = this.resolveEntity(from);
+    const target = this.resolveEntity(to);
+    if (!source) throw new Error(`Entity with name ${from} not found`);
+    if (!target) throw new Error(`Entity with name ${to} not found`);
+    
+    const { joinCondition, nextEntity, params: stepParams } = this.relationshipStep('w.entity_id', direction, at);
+    const relationTypeFilter = options.relationTypes?.length
+      ? `AND r.relationType IN (${options.relationTypes.map(() => '?').join(',')})`
+      : '';
+    const hopCost = weighted ? `1.0 / MAX(COALESCE(r.confidence, 1.0), ${MIN_PATH_CONFIDENCE})` : '1.0';
+    
+    // Ordering the recursive queue by cost expands the cheapest partial paths first, so the row cap
+    // drops the most expensive ones; paths stop at the target and never revisit a node.
+    // The walk runs once and is filtered here, since its size is needed to tell whether it was cut off
+    const walked = this.db.prepare(`
+      WITH RECURSIVE walk(entity_id, depth, cost, node_path, edge_path) AS (
+        SELECT ?, 0, 0.0, ',' || ? || ',', ''
+        UNION ALL
+        SELECT
+          ${nextEntity},
+          w.depth + 1,
+          w.cost + ${hopCost},
+          w.node_path || ${nextEntity} || ',',
+          w.edge_path || r.id || char(31)
+        FROM walk w
+        JOIN relationships r ON ${joinCondition}
+        WHERE w.depth < ?
+          AND w.entity_id != ?
+          AND instr(w.node_path, ',' || ${nextEntity} || ',') = 0
+          ${relationTypeFilter}
+        ORDER BY 3, 2
+        LIMIT ${MAX_GRAPH_WALK_ROWS}
+      )
+      SELECT entity_id, depth, cost, node_path, edge_path FROM walk
+    `).all(
+      source.id,
+      source.id,
+      ...stepParams,
+      maxDepth,
+      target.id,
+      ...(options.relationTypes || [])
+    ) as Array<{ entity_id: string; depth: number; cost: number; node_path: string; edge_path: string }>;
+    
+    const rows = walked
+      .filter(row => row.entity_id === target.id && row.depth > 0)
+      .sort((a, b) => a.cost - b.cost || a.depth - b.depth)
+      .slice(0, k);
+    
+    // Hitting the row cap means cheaper or further paths may have been cut off before reaching the target
+    const truncated = walked.length >= MAX_GRAPH_WALK_ROWS;
+    
+    const entityNameQuery = this.db.prepare(`SELECT name FROM entities WHERE id = ?`);
+    const relationshipQuery = this.db.prepare(`
+      SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+      FROM relationships r
+      JOIN entities e1 ON r.source_entity = e1.id
+      JOIN entities e2 ON r.target_entity = e2.id
+      WHERE r.id = ?
+    `);
+    
+    const paths: GraphPath[] = rows.map(row => {
+      const entities = row.node_path.split(',').filter(id => id.length > 0)
+        .map(id => (entityNameQuery.get(id) as { name: string }).name);
+      const relations = row.edge_path.split(String.fromCharCode(31)).filter(id => id.length > 0)
+        .map(id => this.toRelation(relationshipQuery.get(id)) as Relation & { confidence: number });
+      
+      return {
+        length: row.depth,
+        cost: row.cost,
+        confidence: relations.reduce((product, rel) => product * rel.confidence, 1),
+        entities,
+        relations,
+        text: relations.map(rel => this.generateRelationshipChunkText(rel.from, rel.to, rel.relationType)).join(', and ')
+      };
+    });
+    
+    console.error(`✅ Found ${paths.length} path(s) from ${from} to ${to}`);
+    
+    return {
+      from: source.name,
+      to: target.name,
+      shortestPath: paths[0] ?? null,
+      paths,
+      truncated
+    };
+  }
+
+  // SQL for following one relationship from the current entity in the given direction
+  private relationshipStep(current: string, direction: TraversalDirection, asOf?: string): { joinCondition: string; nextEntity: string; params: unknown[] } {
+    // Only relationships valid at asOf (the current ones without it) are crossed
+    const validity = validAt('r', asOf);
+    switch (direction) {
+      case 'outgoing':
+        return { joinCondition: `r.source_entity = ${current} AND ${validity.sql}`, nextEntity: 'r.target_entity', params: validity.params };
+      case 'incoming':
+        return { joinCondition: `r.target_entity = ${current} AND ${validity.sql}`, nextEntity: 'r.source_entity', params: validity.params };
+      case 'both':
+        return {
+          joinCondition: `(r.source_entity = ${current} OR r.target_entity = ${current}) AND ${validity.sql}`,
+          nextEntity: `CASE WHEN r.source_entity = ${current} THEN r.target_entity ELSE r.source_entity END`,
+          params: validity.params
+        };
+      default:
+        throw new Error(`Unknown traversal direction: ${direction}`);
+    }
+  }
+
+  // Relationship row (from_name, to_name, relationType, confidence, metadata, source, valid_from, valid_to) as returned by the read tools
+  private toRelation(row: any): Relation {
+    const properties = row.metadata ? JSON.parse(row.metadata) : {};
+    return {
+      from: row.from_name,
+      to: row.to_name,
+      relationType: row.relationType,
+      confidence: row.confidence ?? 1.0,
+      ...(Object.keys(properties).length > 0 ? { properties } : {}),
+      ...(row.source ? { source: row.source } : {}),
+      ...(row.valid_from ? { validFrom: row.valid_from } : {}),
+      ...(row.valid_to ? { validTo: row.valid_to } : {})
+    };
+  }
+
   // === NEW RAG FUNCTIONALITY ===
 
   // Generate embedding text for an entity (combines name, type, and observations)
@@ -748,26 +2482,22 @@ class RAGKnowledgeGraphManager {
     const embedding = await this.generateEmbedding(embeddingText);
     
     try {
-      // Delete existing embedding if any
-      const existingMetadata = this.db.prepare(`
-        SELECT rowid FROM entity_embedding_metadata WHERE entity_id = ?
-      `).get(entityId) as { rowid: number } | undefined;
-      
-      if (existingMetadata) {
-        this.db.prepare(`DELETE FROM entity_embeddings WHERE rowid = ?`).run(existingMetadata.rowid);
-        this.db.prepare(`DELETE FROM entity_embedding_metadata WHERE entity_id = ?`).run(entityId);
-      }
-      
-      // Insert new embedding
-      const result = this.db.prepare(`
-        INSERT INTO entity_embeddings (embedding) VALUES (?)
-      `).run(Buffer.from(embedding.buffer));
+      // Store metadata first, tagged with the model that produced the vector; an existing row keeps its rowid
+      const metadata = this.db.prepare(`
+        INSERT INTO entity_embedding_metadata (entity_id, embedding_text, embedding_model, embedding_dimensions)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(entity_id) DO UPDATE SET
+          embedding_text = excluded.embedding_text,
+          embedding_model = excluded.embedding_model,
+          embedding_dimensions = excluded.embedding_dimensions
+        RETURNING rowid
+      `).get(entityId, embeddingText, this.embeddingProvider.modelId, embedding.length) as { rowid: number };
       
-      // Store metadata
+      // Replace the vector, keyed to the metadata rowid
+      this.db.prepare(`DELETE FROM entity_embeddings WHERE rowid = ?`).run(metadata.rowid);
       this.db.prepare(`
-        INSERT INTO entity_embedding_metadata (rowid, entity_id, embedding_text)
-        VALUES (?, ?, ?)
-      `).run(result.lastInsertRowid, entityId, embeddingText);
+        INSERT INTO entity_embeddings (rowid, embedding) VALUES (?, ?)
+      `).run(BigInt(metadata.rowid), Buffer.from(embedding.buffer));
       
       return true;
     } catch (error) {
@@ -776,150 +2506,871 @@ class RAGKnowledgeGraphManager {
     }
   }
 
-  // Embed all entities in the knowledge graph
-  async embedAllEntities(): Promise<{ totalEntities: number; embeddedEntities: number }> {
+  // Generate and store the vector of a single observation, keyed by its ID
+  private async embedObservation(observationId: number): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const observation = this.db.prepare(`
+      SELECT text FROM observations WHERE id = ?
+    `).get(observationId) as { text: string } | undefined;
+    
+    if (!observation) {
+      console.warn(`Observation ${observationId} not found for embedding`);
+      return false;
+    }
+    
+    const embedding = await this.generateEmbedding(observation.text);
+    
+    try {
+      this.db.prepare(`
+        UPDATE observations SET embedding_model = ?, embedding_dimensions = ? WHERE id = ?
+      `).run(this.embeddingProvider.modelId, embedding.length, observationId);
+      this.db.prepare(`DELETE FROM observation_embeddings WHERE rowid = ?`).run(BigInt(observationId));
+      this.db.prepare(`
+        INSERT INTO observation_embeddings (rowid, embedding) VALUES (?, ?)
+      `).run(BigInt(observationId), Buffer.from(embedding.buffer));
+      
+      return true;
+    } catch (error) {
+      console.error(`Failed to embed observation ${observationId}:`, error);
+      return false;
+    }
+  }
+
+  // Embed all entities in the knowledge graph, plus any observation that has no vector yet
+  async embedAllEntities(control: JobControl = {}): Promise<{ totalEntities: number; embeddedEntities: number; embeddedObservations: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    console.error('🔮 Generating embeddings for all entities...');
+    
+    const entities = this.db.prepare(`
+      SELECT id FROM entities
+    `).all() as Array<{ id: string }>;
+    
+    // Observations moved over by the migration are stored without a vector
+    const unembedded = this.db.prepare(`
+      SELECT id FROM observations WHERE embedding_model IS NULL
+    `).all() as Array<{ id: number }>;
+    
+    const total = entities.length + unembedded.length;
+    let embeddedCount = 0;
+    
+    for (const [index, entity] of entities.entries()) {
+      await this.throwIfCancelled(control, 'embedAllEntities', index, total);
+      const success = await this.embedEntity(entity.id);
+      if (success) {
+        embeddedCount++;
+      }
+      await this.reportProgress(control, index + 1, total);
+    }
+    
+    let embeddedObservations = 0;
+    for (const [index, observation] of unembedded.entries()) {
+      await this.throwIfCancelled(control, 'embedAllEntities', entities.length + index, total);
+      if (await this.embedObservation(observation.id)) {
+        embeddedObservations++;
+      }
+      this.logProgress('Embedding observations', index + 1, unembedded.length);
+      await this.reportProgress(control, entities.length + index + 1, total);
+    }
+    
+    console.error(`✅ Entity embeddings completed: ${embeddedCount}/${entities.length} entities and ${embeddedObservations}/${unembedded.length} observations embedded`);
+    
+    return {
+      totalEntities: entities.length,
+      embeddedEntities: embeddedCount,
+      embeddedObservations
+    };
+  }
+
+  // Regenerate every vector that was not produced by the active embedding model
+  async reembedStale(dryRun = false, control: JobControl = {}): Promise<{
+    activeModel: string;
+    dryRun: boolean;
+    chunks: { stale: number; reembedded: number };
+    entities: { stale: number; reembedded: number };
+    observations: { stale: number; reembedded: number };
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId, dimensions } = this.embeddingProvider;
+    
+    const staleChunks = this.getStaleChunks();
+    
+    const staleEntities = this.db.prepare(`
+      SELECT entity_id FROM entity_embedding_metadata
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).all(modelId, dimensions) as Array<{ entity_id: string }>;
+    
+    const staleObservations = this.db.prepare(`
+      SELECT id FROM observations
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).all(modelId, dimensions) as Array<{ id: number }>;
+    
+    console.error(`🔄 ${dryRun ? 'Dry run: ' : ''}${staleChunks.length} stale chunk vectors, ${staleEntities.length} stale entity vectors and ${staleObservations.length} stale observation vectors (active model: ${modelId})`);
+    
+    let reembeddedChunks = 0;
+    let reembeddedEntities = 0;
+    let reembeddedObservations = 0;
+    
+    if (!dryRun) {
+      const total = staleChunks.length + staleEntities.length + staleObservations.length;
+      let done = 0;
+      
+      for (const [index, chunk] of staleChunks.entries()) {
+        await this.throwIfCancelled(control, 'reembedStale', done, total);
+        if (await this.embedChunk(chunk)) {
+          reembeddedChunks++;
+        }
+        this.logProgress('Re-embedding chunks', index + 1, staleChunks.length);
+        await this.reportProgress(control, ++done, total);
+      }
+      
+      for (const [index, entity] of staleEntities.entries()) {
+        await this.throwIfCancelled(control, 'reembedStale', done, total);
+        if (await this.embedEntity(entity.entity_id)) {
+          reembeddedEntities++;
+        }
+        this.logProgress('Re-embedding entities', index + 1, staleEntities.length);
+        await this.reportProgress(control, ++done, total);
+      }
+      
+      for (const [index, observation] of staleObservations.entries()) {
+        await this.throwIfCancelled(control, 'reembedStale', done, total);
+        if (await this.embedObservation(observation.id)) {
+          reembeddedObservations++;
+        }
+        this.logProgress('Re-embedding observations', index + 1, staleObservations.length);
+        await this.reportProgress(control, ++done, total);
+      }
+      
+      console.error(`✅ Re-embedded ${reembeddedChunks} chunks, ${reembeddedEntities} entities and ${reembeddedObservations} observations with ${modelId}`);
+    }
+    
+    return {
+      activeModel: modelId,
+      dryRun,
+      chunks: { stale: staleChunks.length, reembedded: reembeddedChunks },
+      entities: { stale: staleEntities.length, reembedded: reembeddedEntities },
+      observations: { stale: staleObservations.length, reembedded: reembeddedObservations }
+    };
+  }
+
+  // Rebuild the vec0 tables at the configured dimension and re-embed every stored vector
+  async migrateEmbeddingDimensions(dryRun = false, control: JobControl = {}): Promise<{
+    activeModel: string;
+    dryRun: boolean;
+    previousDimensions: number;
+    targetDimensions: number;
+    rebuilt: boolean;
+    chunks: { stale: number; reembedded: number };
+    entities: { stale: number; reembedded: number };
+    observations: { stale: number; reembedded: number };
+    estimate: { vectors: number; chunkTokens: number; storageBytes: number; seconds: number | null };
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const previousDimensions = this.vectorDimensions;
+    const targetDimensions = this.embeddingProvider.dimensions;
+    const needsRebuild = previousDimensions !== targetDimensions;
+    
+    // Estimate the work: every stored vector is stale once the dimension changes
+    const stale = this.countStaleVectors();
+    const vectors = stale.chunks + stale.entities + stale.observations;
+    const chunkTokens = this.getStaleChunks()
+      .reduce((sum, chunk) => sum + this.encoding.encode(chunk.text).length, 0);
+    
+    let seconds: number | null = null;
+    if (dryRun && vectors > 0) {
+      // Time a single embedding as a sample for the whole job
+      const started = Date.now();
+      await this.embeddingProvider.embed('Sample text used to estimate embedding throughput.');
+      seconds = Math.ceil(((Date.now() - started) / 1000) * vectors);
+    }
+    
+    const estimate = { vectors, chunkTokens, storageBytes: vectors * targetDimensions * 4, seconds };
+    
+    console.error(`📐 ${dryRun ? 'Dry run: ' : ''}vector tables ${previousDimensions} → ${targetDimensions} dimensions, ${stale.chunks} chunks, ${stale.entities} entities and ${stale.observations} observations to re-embed`);
+    
+    if (dryRun) {
+      return {
+        activeModel: this.embeddingProvider.modelId,
+        dryRun,
+        previousDimensions,
+        targetDimensions,
+        rebuilt: false,
+        chunks: { stale: stale.chunks, reembedded: 0 },
+        entities: { stale: stale.entities, reembedded: 0 },
+        observations: { stale: stale.observations, reembedded: 0 },
+        estimate
+      };
+    }
+    
+    // A new dimension needs new vec0 tables; otherwise vectors from another model are re-embedded in place,
+    // and since they stay stale until then an interrupted run can be resumed
+    const result = needsRebuild
+      ? await this.rebuildVectorIndex(targetDimensions, control)
+      : await this.reembedStale(false, control);
+    this.recordEmbeddingModel();
+    
+    return {
+      activeModel: result.activeModel,
+      dryRun,
+      previousDimensions,
+      targetDimensions,
+      rebuilt: needsRebuild,
+      chunks: result.chunks,
+      entities: result.entities,
+      observations: result.observations,
+      estimate
+    };
+  }
+
+  // Re-embed everything into staging vec0 tables at the new dimension and swap them in with one transaction;
+  // the live vectors stay searchable until then, and a failed or cancelled run resumes from what was staged
+  private async rebuildVectorIndex(dimensions: number, control: JobControl): Promise<{
+    activeModel: string;
+    chunks: { stale: number; reembedded: number };
+    entities: { stale: number; reembedded: number };
+    observations: { stale: number; reembedded: number };
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId } = this.embeddingProvider;
+    
+    // Staging tables of an interrupted run are reused when they have the right dimension
+    for (const table of ['chunks', 'entity_embeddings', 'observation_embeddings']) {
+      const staged = this.db.prepare(`
+        SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?
+      `).get(`${table}_next`) as { sql: string } | undefined;
+      if (staged && staged.sql.match(/FLOAT\[(\d+)\]/i)?.[1] !== String(dimensions)) {
+        this.db.exec(`DROP TABLE ${table}_next`);
+      }
+      this.db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${table}_next USING vec0(
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+    }
+    
+    // Everything embedded now is embedded again; rows are keyed as in the live tables
+    const count = (sql: string) => (this.db!.prepare(sql).get() as { count: number }).count;
+    const stale = {
+      chunks: count(`SELECT COUNT(*) as count FROM chunk_metadata WHERE embedding_model IS NOT NULL`),
+      entities: count(`SELECT COUNT(*) as count FROM entity_embedding_metadata WHERE embedding_model IS NOT NULL`),
+      observations: count(`SELECT COUNT(*) as count FROM observations WHERE embedding_model IS NOT NULL`)
+    };
+    const pending = [
+      {
+        table: 'chunks',
+        items: this.db.prepare(`
+          SELECT rowid, text FROM chunk_metadata
+          WHERE embedding_model IS NOT NULL AND rowid NOT IN (SELECT rowid FROM chunks_next)
+        `).all() as Array<{ rowid: number; text: string }>
+      },
+      {
+        table: 'entity_embeddings',
+        items: this.db.prepare(`
+          SELECT rowid, embedding_text as text FROM entity_embedding_metadata
+          WHERE embedding_model IS NOT NULL AND rowid NOT IN (SELECT rowid FROM entity_embeddings_next)
+        `).all() as Array<{ rowid: number; text: string }>
+      },
+      {
+        table: 'observation_embeddings',
+        items: this.db.prepare(`
+          SELECT id as rowid, text FROM observations
+          WHERE embedding_model IS NOT NULL AND id NOT IN (SELECT rowid FROM observation_embeddings_next)
+        `).all() as Array<{ rowid: number; text: string }>
+      }
+    ];
+    
+    const total = pending.reduce((sum, { items }) => sum + items.length, 0);
+    let done = 0;
+    console.error(`🔄 Staging ${total} vectors at ${dimensions} dimensions (${stale.chunks + stale.entities + stale.observations - total} already staged)`);
+    
+    for (const { table, items } of pending) {
+      const insert = this.db.prepare(`INSERT INTO ${table}_next (rowid, embedding) VALUES (?, ?)`);
+      for (const [index, item] of items.entries()) {
+        await this.throwIfCancelled(control, 'migrateEmbeddingDimensions', done, total);
+        
+        // The live tables still have the old dimension, so the provider is called directly
+        const embedding = await this.embeddingProvider.embed(item.text);
+        if (embedding.length !== dimensions) {
+          throw new Error(`${modelId} produced a ${embedding.length}-dimensional vector instead of ${dimensions}; the existing vector index was left in place`);
+        }
+        insert.run(BigInt(item.rowid), Buffer.from(embedding.buffer));
+        
+        this.logProgress(`Staging ${table} vectors`, index + 1, items.length);
+        await this.reportProgress(control, ++done, total);
+      }
+    }
+    
+    // Swap: recreate the live tables at the new dimension, copy the staged vectors of rows that still exist and tag them
+    this.db.transaction(() => {
+      this.rebuildVectorTables(dimensions);
+      this.db!.exec(`
+        INSERT INTO chunks (rowid, embedding)
+        SELECT rowid, embedding FROM chunks_next
+        WHERE rowid IN (SELECT rowid FROM chunk_metadata WHERE embedding_model IS NOT NULL)
+      `);
+      this.db!.exec(`
+        INSERT INTO entity_embeddings (rowid, embedding)
+        SELECT rowid, embedding FROM entity_embeddings_next
+        WHERE rowid IN (SELECT rowid FROM entity_embedding_metadata WHERE embedding_model IS NOT NULL)
+      `);
+      this.db!.exec(`
+        INSERT INTO observation_embeddings (rowid, embedding)
+        SELECT rowid, embedding FROM observation_embeddings_next
+        WHERE rowid IN (SELECT id FROM observations WHERE embedding_model IS NOT NULL)
+      `);
+      this.db!.prepare(`
+        UPDATE chunk_metadata SET embedding_model = ?, embedding_dimensions = ? WHERE rowid IN (SELECT rowid FROM chunks)
+      `).run(modelId, dimensions);
+      this.db!.prepare(`
+        UPDATE entity_embedding_metadata SET embedding_model = ?, embedding_dimensions = ? WHERE rowid IN (SELECT rowid FROM entity_embeddings)
+      `).run(modelId, dimensions);
+      this.db!.prepare(`
+        UPDATE observations SET embedding_model = ?, embedding_dimensions = ? WHERE id IN (SELECT rowid FROM observation_embeddings)
+      `).run(modelId, dimensions);
+      this.db!.exec(`
+        DROP TABLE chunks_next;
+        DROP TABLE entity_embeddings_next;
+        DROP TABLE observation_embeddings_next;
+      `);
+    })();
+    
+    const swapped = {
+      chunks: count(`SELECT COUNT(*) as count FROM chunks`),
+      entities: count(`SELECT COUNT(*) as count FROM entity_embeddings`),
+      observations: count(`SELECT COUNT(*) as count FROM observation_embeddings`)
+    };
+    console.error(`✅ Vector tables swapped to ${dimensions} dimensions: ${swapped.chunks} chunks, ${swapped.entities} entities and ${swapped.observations} observations re-embedded with ${modelId}`);
+    
+    return {
+      activeModel: modelId,
+      chunks: { stale: stale.chunks, reembedded: swapped.chunks },
+      entities: { stale: stale.entities, reembedded: swapped.entities },
+      observations: { stale: stale.observations, reembedded: swapped.observations }
+    };
+  }
+
+  // Check that every vector is keyed to the metadata row it belongs to, optionally repairing what is broken
+  async verifyIndexIntegrity(options: { repair?: boolean; checkAlignment?: boolean } = {}, control: JobControl = {}): Promise<{
+    repair: boolean;
+    healthy: boolean;
+    chunks: IndexIntegrityReport;
+    entities: IndexIntegrityReport;
+    observations: IndexIntegrityReport;
+    repaired?: {
+      deletedVectors: number;
+      deletedMetadata: number;
+      reembeddedChunks: number;
+      reembeddedEntities: number;
+      reembeddedObservations: number;
+    };
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const repair = options.repair === true;
+    const checkAlignment = options.checkAlignment === true;
+    
+    console.error(`🩺 Verifying vector index integrity${repair ? ' (repair mode)' : ''}...`);
+    
+    // Vectors that do not belong to an embedded chunk
+    const orphanedChunkVectors = (this.db.prepare(`
+      SELECT rowid FROM chunks
+      WHERE rowid NOT IN (SELECT rowid FROM chunk_metadata WHERE embedding_model IS NOT NULL)
+    `).all() as Array<{ rowid: number }>).map(row => row.rowid);
+    
+    // Chunks recorded as embedded whose vector is gone
+    const missingChunkVectors = this.db.prepare(`
+      SELECT rowid, chunk_id, text FROM chunk_metadata
+      WHERE embedding_model IS NOT NULL AND rowid NOT IN (SELECT rowid FROM chunks)
+    `).all() as Array<{ rowid: number; chunk_id: string; text: string }>;
+    
+    const unembeddedChunks = this.db.prepare(`
+      SELECT COUNT(*) as count FROM chunk_metadata WHERE embedding_model IS NULL
+    `).get() as { count: number };
+    
+    // Entity vectors without metadata, and metadata whose entity was deleted
+    const orphanedEntityVectors = (this.db.prepare(`
+      SELECT rowid FROM entity_embeddings
+      WHERE rowid NOT IN (SELECT rowid FROM entity_embedding_metadata)
+    `).all() as Array<{ rowid: number }>).map(row => row.rowid);
+    
+    const orphanedEntityMetadata = (this.db.prepare(`
+      SELECT entity_id FROM entity_embedding_metadata
+      WHERE entity_id NOT IN (SELECT id FROM entities)
+    `).all() as Array<{ entity_id: string }>).map(row => row.entity_id);
+    
+    const missingEntityVectors = (this.db.prepare(`
+      SELECT eem.entity_id FROM entity_embedding_metadata eem
+      JOIN entities e ON e.id = eem.entity_id
+      WHERE eem.rowid NOT IN (SELECT rowid FROM entity_embeddings)
+    `).all() as Array<{ entity_id: string }>).map(row => row.entity_id);
+    
+    // Observation vectors are keyed by observation ID: vectors of deleted or unembedded observations, and embedded observations without one
+    const orphanedObservationVectors = (this.db.prepare(`
+      SELECT rowid FROM observation_embeddings
+      WHERE rowid NOT IN (SELECT id FROM observations WHERE embedding_model IS NOT NULL)
+    `).all() as Array<{ rowid: number }>).map(row => row.rowid);
+    
+    const missingObservationVectors = (this.db.prepare(`
+      SELECT id FROM observations
+      WHERE embedding_model IS NOT NULL AND id NOT IN (SELECT rowid FROM observation_embeddings)
+    `).all() as Array<{ id: number }>).map(row => row.id);
+    
+    const unembeddedObservations = this.db.prepare(`
+      SELECT COUNT(*) as count FROM observations WHERE embedding_model IS NULL
+    `).get() as { count: number };
+    
+    // A vector is misaligned when it does not match a fresh embedding of the text it is keyed to.
+    // Checking that embeds every text again, so it only runs when asked for
+    let misalignedChunks: Array<{ rowid: number; chunk_id: string; text: string }> = [];
+    let misalignedEntities: string[] = [];
+    let misalignedObservations: number[] = [];
+    let unverifiableChunks = 0;
+    let unverifiableEntities = 0;
+    let unverifiableObservations = 0;
+    const progress = { control, done: 0, total: 0 };
+    
+    if (checkAlignment) {
+      const chunkCandidates = this.db.prepare(`
+        SELECT m.rowid, m.chunk_id, m.text, m.embedding_model, m.embedding_dimensions FROM chunk_metadata m
+        WHERE m.embedding_model IS NOT NULL AND m.rowid IN (SELECT rowid FROM chunks)
+      `).all() as Array<AlignmentCandidate & { chunk_id: string }>;
+      
+      const entityCandidates = this.db.prepare(`
+        SELECT eem.rowid, eem.entity_id, eem.embedding_text as text, eem.embedding_model, eem.embedding_dimensions
+        FROM entity_embedding_metadata eem
+        JOIN entities e ON e.id = eem.entity_id
+        WHERE eem.rowid IN (SELECT rowid FROM entity_embeddings)
+      `).all() as Array<AlignmentCandidate & { entity_id: string }>;
+      
+      const observationCandidates = this.db.prepare(`
+        SELECT id as rowid, text, embedding_model, embedding_dimensions FROM observations
+        WHERE embedding_model IS NOT NULL AND id IN (SELECT rowid FROM observation_embeddings)
+      `).all() as AlignmentCandidate[];
+      
+      progress.total = chunkCandidates.length + entityCandidates.length + observationCandidates.length;
+      
+      const chunkAlignment = await this.findMisalignedVectors('chunks', chunkCandidates, progress);
+      misalignedChunks = chunkAlignment.misaligned;
+      unverifiableChunks = chunkAlignment.unverifiable;
+      
+      const entityAlignment = await this.findMisalignedVectors('entity_embeddings', entityCandidates, progress);
+      misalignedEntities = entityAlignment.misaligned.map(entity => entity.entity_id);
+      unverifiableEntities = entityAlignment.unverifiable;
+      
+      const observationAlignment = await this.findMisalignedVectors('observation_embeddings', observationCandidates, progress);
+      misalignedObservations = observationAlignment.misaligned.map(observation => observation.rowid);
+      unverifiableObservations = observationAlignment.unverifiable;
+    }
+    
+    const chunks: IndexIntegrityReport = {
+      vectors: (this.db.prepare(`SELECT COUNT(*) as count FROM chunks`).get() as { count: number }).count,
+      orphanedVectors: orphanedChunkVectors.length,
+      missingVectors: missingChunkVectors.map(chunk => chunk.chunk_id),
+      misalignedVectors: misalignedChunks.map(chunk => chunk.chunk_id),
+      unverifiable: unverifiableChunks,
+      unembedded: unembeddedChunks.count
+    };
+    const entities: IndexIntegrityReport = {
+      vectors: (this.db.prepare(`SELECT COUNT(*) as count FROM entity_embeddings`).get() as { count: number }).count,
+      orphanedVectors: orphanedEntityVectors.length + orphanedEntityMetadata.length,
+      missingVectors: missingEntityVectors,
+      misalignedVectors: misalignedEntities,
+      unverifiable: unverifiableEntities
+    };
+    const observations: IndexIntegrityReport = {
+      vectors: (this.db.prepare(`SELECT COUNT(*) as count FROM observation_embeddings`).get() as { count: number }).count,
+      orphanedVectors: orphanedObservationVectors.length,
+      missingVectors: missingObservationVectors.map(String),
+      misalignedVectors: misalignedObservations.map(String),
+      unverifiable: unverifiableObservations,
+      unembedded: unembeddedObservations.count
+    };
+    const healthy = [chunks, entities, observations].every(report =>
+      report.orphanedVectors === 0 && report.missingVectors.length === 0 && report.misalignedVectors.length === 0
+    );
+    
+    console.error(`${healthy ? '✅' : '⚠️'} Chunk vectors: ${chunks.orphanedVectors} orphaned, ${chunks.missingVectors.length} missing, ${chunks.misalignedVectors.length} misaligned`);
+    console.error(`${healthy ? '✅' : '⚠️'} Entity vectors: ${entities.orphanedVectors} orphaned, ${entities.missingVectors.length} missing, ${entities.misalignedVectors.length} misaligned`);
+    console.error(`${healthy ? '✅' : '⚠️'} Observation vectors: ${observations.orphanedVectors} orphaned, ${observations.missingVectors.length} missing, ${observations.misalignedVectors.length} misaligned`);
+    
+    if (!repair || healthy) {
+      return { repair, healthy, chunks, entities, observations };
+    }
+    
+    let deletedVectors = 0;
+    let deletedMetadata = 0;
+    let reembeddedChunks = 0;
+    let reembeddedEntities = 0;
+    let reembeddedObservations = 0;
+    
+    for (const rowid of orphanedChunkVectors) {
+      deletedVectors += this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(rowid).changes;
+    }
+    for (const rowid of orphanedEntityVectors) {
+      deletedVectors += this.db.prepare(`DELETE FROM entity_embeddings WHERE rowid = ?`).run(rowid).changes;
+    }
+    for (const entityId of orphanedEntityMetadata) {
+      // The delete trigger removes the vector keyed to this row
+      deletedMetadata += this.db.prepare(`DELETE FROM entity_embedding_metadata WHERE entity_id = ?`).run(entityId).changes;
+    }
+    for (const rowid of orphanedObservationVectors) {
+      deletedVectors += this.db.prepare(`DELETE FROM observation_embeddings WHERE rowid = ?`).run(rowid).changes;
+    }
+    
+    // Re-embedding is the slow part of a repair, so it reports progress and stops when cancelled
+    const reembedChunks = [...missingChunkVectors, ...misalignedChunks];
+    const reembedEntities = [...missingEntityVectors, ...misalignedEntities];
+    const reembedObservations = [...missingObservationVectors, ...misalignedObservations];
+    progress.total += reembedChunks.length + reembedEntities.length + reembedObservations.length;
+    
+    for (const chunk of reembedChunks) {
+      await this.throwIfCancelled(control, 'verifyIndexIntegrity', progress.done, progress.total);
+      if (await this.embedChunk(chunk)) {
+        reembeddedChunks++;
+      }
+      await this.reportProgress(control, ++progress.done, progress.total);
+    }
+    for (const entityId of reembedEntities) {
+      await this.throwIfCancelled(control, 'verifyIndexIntegrity', progress.done, progress.total);
+      if (await this.embedEntity(entityId)) {
+        reembeddedEntities++;
+      }
+      await this.reportProgress(control, ++progress.done, progress.total);
+    }
+    for (const observationId of reembedObservations) {
+      await this.throwIfCancelled(control, 'verifyIndexIntegrity', progress.done, progress.total);
+      if (await this.embedObservation(observationId)) {
+        reembeddedObservations++;
+      }
+      await this.reportProgress(control, ++progress.done, progress.total);
+    }
+    
+    console.error(`🔧 Repaired index: ${deletedVectors} orphaned vectors and ${deletedMetadata} orphaned metadata rows deleted, ${reembeddedChunks} chunks, ${reembeddedEntities} entities and ${reembeddedObservations} observations re-embedded`);
+    
+    return {
+      repair,
+      healthy,
+      chunks,
+      entities,
+      observations,
+      repaired: { deletedVectors, deletedMetadata, reembeddedChunks, reembeddedEntities, reembeddedObservations }
+    };
+  }
+
+  // Compare stored vectors with a fresh embedding of their text. Only vectors from the active model can be
+  // compared; the others are stale, counted as unverifiable and left to reembedStale
+  private async findMisalignedVectors<T extends AlignmentCandidate>(
+    table: 'chunks' | 'entity_embeddings' | 'observation_embeddings',
+    candidates: T[],
+    progress: { control: JobControl; done: number; total: number }
+  ): Promise<{ misaligned: T[]; unverifiable: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId, dimensions } = this.embeddingProvider;
+    const distance = this.db.prepare(`
+      SELECT vec_distance_cosine(embedding, ?) as distance FROM ${table} WHERE rowid = ?
+    `);
+    const misaligned: T[] = [];
+    let unverifiable = 0;
+    
+    for (const [index, candidate] of candidates.entries()) {
+      await this.throwIfCancelled(progress.control, 'verifyIndexIntegrity', progress.done, progress.total);
+      if (candidate.embedding_model !== modelId || candidate.embedding_dimensions !== dimensions) {
+        unverifiable++;
+      } else {
+        const embedding = await this.generateEmbedding(candidate.text);
+        const row = distance.get(Buffer.from(embedding.buffer), candidate.rowid) as { distance: number };
+        if (row.distance > VECTOR_ALIGNMENT_TOLERANCE) {
+          misaligned.push(candidate);
+        }
+      }
+      this.logProgress(`Checking ${table} alignment`, index + 1, candidates.length);
+      await this.reportProgress(progress.control, ++progress.done, progress.total);
+    }
+    
+    return { misaligned, unverifiable };
+  }
+
+  // Log orphaned and missing vectors at startup so drift does not go unnoticed
+  private warnAboutIndexDrift(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const drift = this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM chunks WHERE rowid NOT IN (SELECT rowid FROM chunk_metadata WHERE embedding_model IS NOT NULL)) as orphaned,
+        (SELECT COUNT(*) FROM chunk_metadata WHERE embedding_model IS NOT NULL AND rowid NOT IN (SELECT rowid FROM chunks)) as missing
+    `).get() as { orphaned: number; missing: number };
+    
+    if (drift.orphaned + drift.missing > 0) {
+      console.error(`⚠️ Vector index drift: ${drift.orphaned} orphaned chunk vectors, ${drift.missing} embedded chunks without a vector. Run verifyIndexIntegrity with repair enabled.`);
+    }
+  }
+
+  private getStaleChunks(): Array<{ rowid: number; chunk_id: string; text: string }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { modelId, dimensions } = this.embeddingProvider;
+    return this.db.prepare(`
+      SELECT rowid, chunk_id, text FROM chunk_metadata
+      WHERE embedding_model IS NOT NULL AND (embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).all(modelId, dimensions) as Array<{ rowid: number; chunk_id: string; text: string }>;
+  }
+
+  // Log progress of long-running jobs roughly every 10%
+  private logProgress(label: string, done: number, total: number): void {
+    const step = Math.max(1, Math.floor(total / 10));
+    if (done % step === 0 || done === total) {
+      console.error(`📈 ${label}: ${done}/${total} (${Math.round((done / total) * 100)}%)`);
+    }
+  }
+
+  // Report a job's progress to its caller, at most about a hundred times per job
+  private async reportProgress(control: JobControl, done: number, total: number): Promise<void> {
+    if (!control.onProgress) return;
+    
+    const step = Math.max(1, Math.floor(total / 100));
+    if (done % step === 0 || done === total) {
+      try {
+        await control.onProgress(done, total);
+      } catch (error) {
+        console.error('⚠️ Failed to report progress:', error);
+      }
+    }
+  }
+
+  // Stop a job between items once its request was cancelled; each item is written synchronously after its
+  // embedding is generated, so every vector stored so far is complete. Yields to the event loop first, so a
+  // cancellation is received even when the embedding provider never waits on I/O
+  private async throwIfCancelled(control: JobControl, job: string, done: number, total: number): Promise<void> {
+    if (!control.signal) return;
+    
+    await new Promise(resolve => setImmediate(resolve));
+    if (control.signal.aborted) {
+      console.error(`🛑 ${job} cancelled after ${done}/${total}`);
+      throw new Error(`${job} cancelled after ${done}/${total} items`);
+    }
+  }
+
+  // NEW: Generate knowledge graph chunks for entities and relationships
+  // Incremental: only chunks whose text or metadata changed are rewritten, orphaned chunks are removed
+  async generateKnowledgeGraphChunks(): Promise<{ entityChunks: number; relationshipChunks: number; updatedChunks: number; removedChunks: number }> {
     if (!this.db) throw new Error('Database not initialized');
     
-    console.error('🔮 Generating embeddings for all entities...');
+    console.error('🧠 Generating knowledge graph chunks...');
     
-    const entities = this.db.prepare(`
-      SELECT id FROM entities
-    `).all() as Array<{ id: string }>;
+    const entityIds = (this.db.prepare(`SELECT id FROM entities`).all() as Array<{ id: string }>).map(row => row.id);
+    const relationshipIds = (this.db.prepare(`SELECT id FROM relationships`).all() as Array<{ id: string }>).map(row => row.id);
+    
+    // Chunks whose entity or relationship no longer exists are synced too, which removes them
+    const orphanedEntityIds = (this.db.prepare(`
+      SELECT entity_id FROM chunk_metadata
+      WHERE chunk_type = 'entity' AND entity_id NOT IN (SELECT id FROM entities)
+    `).all() as Array<{ entity_id: string }>).map(row => row.entity_id);
+    const orphanedRelationshipIds = (this.db.prepare(`
+      SELECT relationship_id FROM chunk_metadata
+      WHERE chunk_type = 'relationship' AND relationship_id NOT IN (SELECT id FROM relationships)
+    `).all() as Array<{ relationship_id: string }>).map(row => row.relationship_id);
+    
+    const { updated, removed } = this.syncKnowledgeGraphChunks(
+      [...entityIds, ...orphanedEntityIds],
+      [...relationshipIds, ...orphanedRelationshipIds]
+    );
+    
+    console.error(`✅ Knowledge graph chunks generated: ${entityIds.length} entities, ${relationshipIds.length} relationships (${updated.length} updated, ${removed} removed)`);
+    
+    return {
+      entityChunks: entityIds.length,
+      relationshipChunks: relationshipIds.length,
+      updatedChunks: updated.length,
+      removedChunks: removed
+    };
+  }
+
+  // NEW: Embed knowledge graph chunks that have no vector from the active model yet
+  async embedKnowledgeGraphChunks(control: JobControl = {}): Promise<{ embeddedChunks: number; upToDateChunks: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    console.error('🔮 Embedding knowledge graph chunks...');
+    
+    const { modelId, dimensions } = this.embeddingProvider;
+    const chunks = this.db.prepare(`
+      SELECT rowid, chunk_id, text 
+      FROM chunk_metadata 
+      WHERE chunk_type IN ('entity', 'relationship')
+        AND (embedding_model IS NULL OR embedding_model != ? OR embedding_dimensions IS NOT ?)
+    `).all(modelId, dimensions) as Array<{ rowid: number; chunk_id: string; text: string }>;
+    
+    const total = this.db.prepare(`
+      SELECT COUNT(*) as count FROM chunk_metadata WHERE chunk_type IN ('entity', 'relationship')
+    `).get() as { count: number };
     
     let embeddedCount = 0;
     
-    for (const entity of entities) {
-      const success = await this.embedEntity(entity.id);
-      if (success) {
+    for (const [index, chunk] of chunks.entries()) {
+      await this.throwIfCancelled(control, 'embedKnowledgeGraphChunks', index, chunks.length);
+      if (await this.embedChunk(chunk)) {
         embeddedCount++;
       }
+      await this.reportProgress(control, index + 1, chunks.length);
     }
     
-    console.error(`✅ Entity embeddings completed: ${embeddedCount}/${entities.length} entities embedded`);
+    console.error(`✅ Knowledge graph chunks embedded: ${embeddedCount} embeddings created, ${total.count - chunks.length} already up to date`);
     
-    return {
-      totalEntities: entities.length,
-      embeddedEntities: embeddedCount
-    };
+    return { embeddedChunks: embeddedCount, upToDateChunks: total.count - chunks.length };
   }
 
-  // NEW: Generate knowledge graph chunks for entities and relationships
-  async generateKnowledgeGraphChunks(): Promise<{ entityChunks: number; relationshipChunks: number }> {
+  // Regenerate and re-embed the KG chunks of entities and relationships touched by a write
+  private async refreshKnowledgeGraphChunks(entityIds: string[], relationshipIds: string[]): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
-    console.error('🧠 Generating knowledge graph chunks...');
+    const { updated, removed } = this.syncKnowledgeGraphChunks(entityIds, relationshipIds);
     
-    // Clean up existing knowledge graph chunks
-    await this.cleanupKnowledgeGraphChunks();
+    for (const chunk of updated) {
+      await this.embedChunk(chunk);
+    }
     
-    let entityChunks = 0;
-    let relationshipChunks = 0;
+    if (updated.length > 0 || removed > 0) {
+      console.error(`🧠 Knowledge graph chunks refreshed: ${updated.length} updated, ${removed} removed`);
+    }
+  }
+
+  // Bring the KG chunks of the given entities and relationships in line with the graph (without embedding)
+  private syncKnowledgeGraphChunks(entityIds: string[], relationshipIds: string[]): {
+    updated: Array<{ rowid: number; chunk_id: string; text: string }>;
+    removed: number;
+  } {
+    if (!this.db) throw new Error('Database not initialized');
     
-    // Generate entity chunks
-    const entities = this.db.prepare(`
-      SELECT id, name, entityType, observations FROM entities
-    `).all() as Array<{ id: string; name: string; entityType: string; observations: string }>;
+    const updated: Array<{ rowid: number; chunk_id: string; text: string }> = [];
+    let removed = 0;
     
-    for (const entity of entities) {
-      const observations = JSON.parse(entity.observations);
-      const chunkText = this.generateEntityChunkText(entity.name, entity.entityType, observations);
-      const chunkId = `kg_entity_${entity.id}`;
+    for (const entityId of new Set(entityIds)) {
+      const chunkId = `kg_entity_${entityId}`;
+      const entity = this.db.prepare(`
+        SELECT id, name, entityType, observations FROM entities WHERE id = ?
+      `).get(entityId) as { id: string; name: string; entityType: string; observations: string } | undefined;
       
-      // Store chunk metadata
-      this.db.prepare(`
-        INSERT INTO chunk_metadata (
-          chunk_id, chunk_type, entity_id, chunk_index, text, start_pos, end_pos, metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `).run(chunkId, 'entity', entity.id, 0, chunkText, 0, chunkText.length, JSON.stringify({
-        entity_name: entity.name,
-        entity_type: entity.entityType
-      }));
+      if (!entity) {
+        removed += this.removeKnowledgeGraphChunk(chunkId);
+        continue;
+      }
       
-      entityChunks++;
+      const chunk = this.upsertKnowledgeGraphChunk({
+        chunkId,
+        chunkType: 'entity',
+        sourceId: entity.id,
+        text: this.generateEntityChunkText(entity.name, entity.entityType, JSON.parse(entity.observations)),
+        metadata: {
+          entity_name: entity.name,
+          entity_type: entity.entityType
+        }
+      });
+      if (chunk) updated.push(chunk);
     }
     
-    // Generate relationship chunks
-    const relationships = this.db.prepare(`
-      SELECT 
-        r.id,
-        r.relationType,
-        e1.name as source_name,
-        e2.name as target_name,
-        r.confidence
-      FROM relationships r
-      JOIN entities e1 ON r.source_entity = e1.id
-      JOIN entities e2 ON r.target_entity = e2.id
-    `).all() as Array<{ 
-      id: string; 
-      relationType: string; 
-      source_name: string; 
-      target_name: string; 
-      confidence: number;
-    }>;
-    
-    for (const rel of relationships) {
-      const chunkText = this.generateRelationshipChunkText(rel.source_name, rel.target_name, rel.relationType);
-      const chunkId = `kg_relationship_${rel.id}`;
+    for (const relationshipId of new Set(relationshipIds)) {
+      const chunkId = `kg_relationship_${relationshipId}`;
+      const rel = this.db.prepare(`
+        SELECT 
+          r.id,
+          r.relationType,
+          e1.name as source_name,
+          e2.name as target_name,
+          r.confidence
+        FROM relationships r
+        JOIN entities e1 ON r.source_entity = e1.id
+        JOIN entities e2 ON r.target_entity = e2.id
+        WHERE r.id = ?
+      `).get(relationshipId) as { 
+        id: string; 
+        relationType: string; 
+        source_name: string; 
+        target_name: string; 
+        confidence: number;
+      } | undefined;
       
-      // Store chunk metadata
-      this.db.prepare(`
-        INSERT INTO chunk_metadata (
-          chunk_id, chunk_type, relationship_id, chunk_index, text, start_pos, end_pos, metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `).run(chunkId, 'relationship', rel.id, 0, chunkText, 0, chunkText.length, JSON.stringify({
-        source_entity: rel.source_name,
-        target_entity: rel.target_name,
-        relation_type: rel.relationType,
-        confidence: rel.confidence
-      }));
+      if (!rel) {
+        removed += this.removeKnowledgeGraphChunk(chunkId);
+        continue;
+      }
       
-      relationshipChunks++;
+      const chunk = this.upsertKnowledgeGraphChunk({
+        chunkId,
+        chunkType: 'relationship',
+        sourceId: rel.id,
+        text: this.generateRelationshipChunkText(rel.source_name, rel.target_name, rel.relationType),
+        metadata: {
+          source_entity: rel.source_name,
+          target_entity: rel.target_name,
+          relation_type: rel.relationType,
+          confidence: rel.confidence
+        }
+      });
+      if (chunk) updated.push(chunk);
     }
     
-    console.error(`✅ Knowledge graph chunks generated: ${entityChunks} entities, ${relationshipChunks} relationships`);
-    
-    return { entityChunks, relationshipChunks };
+    return { updated, removed };
   }
 
-  // NEW: Embed knowledge graph chunks
-  async embedKnowledgeGraphChunks(): Promise<{ embeddedChunks: number }> {
+  // Insert or rewrite a KG chunk; returns the chunk when it changed (its vector is dropped until re-embedded)
+  private upsertKnowledgeGraphChunk(chunk: {
+    chunkId: string;
+    chunkType: 'entity' | 'relationship';
+    sourceId: string;
+    text: string;
+    metadata: Record<string, any>;
+  }): { rowid: number; chunk_id: string; text: string } | null {
     if (!this.db) throw new Error('Database not initialized');
     
-    console.error('🔮 Embedding knowledge graph chunks...');
-    
-    // Get all knowledge graph chunks
-    const chunks = this.db.prepare(`
-      SELECT rowid, chunk_id, text 
-      FROM chunk_metadata 
-      WHERE chunk_type IN ('entity', 'relationship')
-    `).all() as Array<{ rowid: number; chunk_id: string; text: string }>;
-    
-    let embeddedCount = 0;
+    const metadata = JSON.stringify(chunk.metadata);
+    const existing = this.db.prepare(`
+      SELECT rowid, text, metadata FROM chunk_metadata WHERE chunk_id = ?
+    `).get(chunk.chunkId) as { rowid: number; text: string; metadata: string } | undefined;
     
-    for (const chunk of chunks) {
-      // Generate embedding
-      const embedding = await this.generateEmbedding(chunk.text);
-      
-      try {
-        // Delete existing embedding if any
-        this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(chunk.rowid);
-        
-        // Insert new embedding
-        const result = this.db.prepare(`
-          INSERT INTO chunks (embedding) VALUES (?)
-        `).run(Buffer.from(embedding.buffer));
-        
-        if (result.changes > 0) {
-          embeddedCount++;
-        }
-      } catch (error) {
-        console.error(`Failed to embed knowledge graph chunk ${chunk.chunk_id}:`, error);
+    if (existing) {
+      if (existing.text === chunk.text && existing.metadata === metadata) {
+        return null;
       }
+      
+      this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(existing.rowid);
+      this.db.prepare(`
+        UPDATE chunk_metadata
+        SET text = ?, end_pos = ?, metadata = ?, embedding_model = NULL, embedding_dimensions = NULL
+        WHERE rowid = ?
+      `).run(chunk.text, chunk.text.length, metadata, existing.rowid);
+      
+      return { rowid: existing.rowid, chunk_id: chunk.chunkId, text: chunk.text };
     }
     
-    console.error(`✅ Knowledge graph chunks embedded: ${embeddedCount} embeddings created`);
+    const sourceColumn = chunk.chunkType === 'entity' ? 'entity_id' : 'relationship_id';
+    const result = this.db.prepare(`
+      INSERT INTO chunk_metadata (
+        chunk_id, chunk_type, ${sourceColumn}, chunk_index, text, start_pos, end_pos, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(chunk.chunkId, chunk.chunkType, chunk.sourceId, 0, chunk.text, 0, chunk.text.length, metadata);
+    
+    return { rowid: Number(result.lastInsertRowid), chunk_id: chunk.chunkId, text: chunk.text };
+  }
+
+  // Delete a KG chunk with its vector and entity associations; returns the number of chunks removed
+  private removeKnowledgeGraphChunk(chunkId: string): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const existing = this.db.prepare(`
+      SELECT rowid FROM chunk_metadata WHERE chunk_id = ?
+    `).get(chunkId) as { rowid: number } | undefined;
+    if (!existing) return 0;
+    
+    this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(existing.rowid);
+    this.db.prepare(`DELETE FROM chunk_entities WHERE chunk_rowid = ?`).run(existing.rowid);
+    this.db.prepare(`DELETE FROM chunk_metadata WHERE rowid = ?`).run(existing.rowid);
     
-    return { embeddedChunks: embeddedCount };
+    return 1;
   }
 
   // NEW: Generate textual representation for entity chunks
@@ -935,47 +3386,6 @@ class RAGKnowledgeGraphManager {
     return `${sourceName} ${relationText} ${targetName}`;
   }
 
-  // NEW: Clean up existing knowledge graph chunks
-  private async cleanupKnowledgeGraphChunks(): Promise<void> {
-    if (!this.db) return;
-    
-    console.error('🧹 Cleaning up existing knowledge graph chunks...');
-    
-    // Get existing knowledge graph chunks
-    const existingChunks = this.db.prepare(`
-      SELECT rowid FROM chunk_metadata WHERE chunk_type IN ('entity', 'relationship')
-    `).all() as { rowid: number }[];
-    
-    let deletedVectors = 0;
-    let deletedAssociations = 0;
-    
-    // Delete vectors and associations
-    for (const chunk of existingChunks) {
-      // Delete vector embeddings
-      const vectors = this.db.prepare(`
-        DELETE FROM chunks WHERE rowid = ?
-      `).run(chunk.rowid);
-      deletedVectors += vectors.changes;
-      
-      // Delete chunk-entity associations
-      const associations = this.db.prepare(`
-        DELETE FROM chunk_entities WHERE chunk_rowid = ?
-      `).run(chunk.rowid);
-      deletedAssociations += associations.changes;
-    }
-    
-    // Delete chunk metadata
-    const metadata = this.db.prepare(`
-      DELETE FROM chunk_metadata WHERE chunk_type IN ('entity', 'relationship')
-    `).run();
-    
-    if (existingChunks.length > 0) {
-      console.error(`  ├─ Deleted ${deletedVectors} vector embeddings`);
-      console.error(`  ├─ Deleted ${deletedAssociations} entity associations`);
-      console.error(`  └─ Deleted ${metadata.changes} chunk metadata records`);
-    }
-  }
-
   // Simple configurable term extraction (replacing hardcoded patterns)
   private extractTermsFromText(text: string, options: {
     minLength?: number;
@@ -1013,236 +3423,27 @@ class RAGKnowledgeGraphManager {
     return Array.from(terms);
   }
 
-  // Tokenize and chunk text
-  private chunkText(text: string, maxTokens = 200, overlap = 20): Chunk[] {
+  // Tokenize and chunk text (start_pos/end_pos are character offsets into the original text)
+  private chunkText(text: string, maxTokens = 200, overlap = 20, strategy: ChunkingStrategy = 'tokens'): Chunk[] {
     if (!this.encoding) throw new Error('Tokenizer not initialized');
     
-    const tokens = this.encoding.encode(text);
-    const chunks: Chunk[] = [];
-    
-    for (let i = 0; i < tokens.length; i += maxTokens - overlap) {
-      const chunkTokens = tokens.slice(i, i + maxTokens);
-      const decodedBytes = this.encoding.decode(chunkTokens);
-      const chunkText = new TextDecoder().decode(decodedBytes);
-      
-      chunks.push({
-        id: '',
-        document_id: '',
-        chunk_index: chunks.length,
-        text: chunkText,
-        start_pos: i,
-        end_pos: i + chunkTokens.length
-      });
-    }
-    
-    return chunks;
+    return chunkByStrategy(text, strategy, this.encoding, { maxTokens, overlap }).map((chunk, index) => ({
+      id: '',
+      document_id: '',
+      chunk_index: index,
+      text: chunk.text,
+      start_pos: chunk.start,
+      end_pos: chunk.end,
+      metadata: chunk.metadata
+    }));
   }
 
-  // Generate embeddings using sentence transformers
-  private async generateEmbedding(text: string, dimensions = 384): Promise<Float32Array> {
-    if (this.modelInitialized && this.embeddingModel) {
-      try {
-        // Use the real sentence transformer model
-        const result = await this.embeddingModel(text, { pooling: 'mean', normalize: true });
-        
-        // Extract the embedding array and convert to Float32Array
-        const embedding = result.data;
-        return new Float32Array(embedding.slice(0, dimensions));
-        
-      } catch (error) {
-        console.error('⚠️ Embedding model failed, falling back to enhanced general semantic embedding:', error);
-        // Fall through to enhanced general implementation
-      }
-    }
-    
-    // Enhanced general-purpose semantic embedding
-    const embedding = new Array(dimensions).fill(0);
-    
-    // Normalize and tokenize text
-    const normalizedText = text.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
-    const words = normalizedText.split(' ').filter(word => word.length > 1);
-    
-    if (words.length === 0) {
-      return new Float32Array(embedding);
-    }
-    
-    // Enhanced word importance calculation
-    const wordFreq = new Map<string, number>();
-    const wordPositions = new Map<string, number[]>();
-    
-    words.forEach((word, position) => {
-      wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
-      if (!wordPositions.has(word)) {
-        wordPositions.set(word, []);
-      }
-      wordPositions.get(word)!.push(position);
-    });
-    
-    const totalWords = words.length;
-    const uniqueWords = wordFreq.size;
-    const vocabulary = Array.from(wordFreq.keys());
-    
-    // Create enhanced semantic features for each unique word
-    vocabulary.forEach(word => {
-      const freq = wordFreq.get(word) || 1;
-      const positions = wordPositions.get(word) || [];
-      
-      // Enhanced TF-IDF calculation
-      const tf = freq / totalWords;
-      const idf = Math.log(totalWords / freq); // More aggressive IDF for rare words
-      const tfidf = tf * idf;
-      
-      // Multi-position importance (average of all positions)
-      const avgPosition = positions.reduce((sum, pos) => sum + pos, 0) / positions.length;
-      const positionWeight = this.calculatePositionWeight(avgPosition, totalWords);
-      
-      // Word characteristics for semantic diversity
-      const wordLength = word.length;
-      const vowelCount = (word.match(/[aeiou]/g) || []).length;
-      const consonantCount = wordLength - vowelCount;
-      const vowelRatio = vowelCount / wordLength;
-      const hasCapitals = /[A-Z]/.test(word);
-      const hasNumbers = /\d/.test(word);
-      
-      // Word complexity indicators
-      const isLongWord = wordLength > 6;
-      const isRareWord = freq === 1 && wordLength > 4;
-      const isCompoundWord = word.includes('_') || word.includes('-');
-      
-      // Multiple hash functions for better semantic distribution
-      const hash1 = this.semanticHash(word, 1);
-      const hash2 = this.semanticHash(word, 2);
-      const hash3 = this.semanticHash(word, 3);
-      const hash4 = this.semanticHash(word + '_semantic', 1);
-      
-      // Enhanced base weight with word importance
-      let baseWeight = tfidf * positionWeight;
-      
-      // Boost important words
-      if (isLongWord) baseWeight *= 1.3;
-      if (isRareWord) baseWeight *= 1.5;
-      if (isCompoundWord) baseWeight *= 1.2;
-      if (hasCapitals) baseWeight *= 1.1;
-      
-      // Primary word representation with enhanced distribution
-      embedding[hash1 % dimensions] += baseWeight * 1.2;
-      embedding[hash2 % dimensions] += baseWeight * 1.0;
-      embedding[hash3 % dimensions] += baseWeight * 0.8;
-      
-      // Character-level features
-      embedding[hash4 % dimensions] += vowelRatio * baseWeight * 0.5;
-      embedding[(hash1 + wordLength) % dimensions] += (wordLength / 15.0) * baseWeight * 0.4;
-      
-      // Structural and linguistic features
-      if (hasCapitals) {
-        embedding[(hash2 + 7) % dimensions] += baseWeight * 0.6;
-      }
-      if (hasNumbers) {
-        embedding[(hash3 + 11) % dimensions] += baseWeight * 0.6;
-      }
-      if (wordLength > 8) {  // Complex words get special treatment
-        embedding[(hash1 + 13) % dimensions] += baseWeight * 0.7;
-      }
-      
-      // Enhanced n-gram features with better context
-      positions.forEach(position => {
-        // Bigram features
-        if (position > 0) {
-          const bigram = words[position - 1] + '_' + word;
-          const bigramHash = this.semanticHash(bigram, 4);
-          embedding[bigramHash % dimensions] += baseWeight * 0.5;
-        }
-        
-        if (position < words.length - 1) {
-          const nextBigram = word + '_' + words[position + 1];
-          const nextBigramHash = this.semanticHash(nextBigram, 5);
-          embedding[nextBigramHash % dimensions] += baseWeight * 0.5;
-        }
-        
-        // Trigram features for important words
-        if (isLongWord || isRareWord) {
-          if (position > 0 && position < words.length - 1) {
-            const trigram = words[position - 1] + '_' + word + '_' + words[position + 1];
-            const trigramHash = this.semanticHash(trigram, 6);
-            embedding[trigramHash % dimensions] += baseWeight * 0.3;
-          }
-        }
-      });
-      
-      // Enhanced prefix/suffix features for morphological richness
-      if (wordLength >= 3) {
-        const prefix2 = word.substring(0, Math.min(2, wordLength));
-        const prefix3 = word.substring(0, Math.min(3, wordLength));
-        const suffix2 = word.substring(Math.max(0, wordLength - 2));
-        const suffix3 = word.substring(Math.max(0, wordLength - 3));
-        
-        const prefix2Hash = this.semanticHash(prefix2 + '_pre2', 7);
-        const prefix3Hash = this.semanticHash(prefix3 + '_pre3', 8);
-        const suffix2Hash = this.semanticHash(suffix2 + '_suf2', 9);
-        const suffix3Hash = this.semanticHash(suffix3 + '_suf3', 10);
-        
-        embedding[prefix2Hash % dimensions] += baseWeight * 0.3;
-        embedding[prefix3Hash % dimensions] += baseWeight * 0.4;
-        embedding[suffix2Hash % dimensions] += baseWeight * 0.3;
-        embedding[suffix3Hash % dimensions] += baseWeight * 0.4;
-      }
-    });
-    
-    // Enhanced global text features
-    const avgWordLength = words.reduce((sum, word) => sum + word.length, 0) / words.length;
-    const maxWordLength = Math.max(...words.map(w => w.length));
-    const textComplexity = uniqueWords / totalWords;
-    const textDensity = Math.log(1 + totalWords);
-    const lexicalDiversity = uniqueWords / Math.sqrt(totalWords); // Better diversity measure
-    
-    // Distribute enhanced global features
-    const globalHash1 = this.semanticHash('_global_complexity_', 11);
-    const globalHash2 = this.semanticHash('_global_density_', 12);
-    const globalHash3 = this.semanticHash('_global_length_', 13);
-    const globalHash4 = this.semanticHash('_global_diversity_', 14);
-    const globalHash5 = this.semanticHash('_global_max_word_', 15);
-    
-    embedding[globalHash1 % dimensions] += textComplexity * 0.6;
-    embedding[globalHash2 % dimensions] += textDensity / 8.0;
-    embedding[globalHash3 % dimensions] += avgWordLength / 12.0;
-    embedding[globalHash4 % dimensions] += lexicalDiversity * 0.5;
-    embedding[globalHash5 % dimensions] += maxWordLength / 15.0;
-    
-    // Enhanced document length normalization
-    const docLengthNorm = Math.log(1 + totalWords);
-    for (let i = 0; i < dimensions; i++) {
-      embedding[i] = embedding[i] / Math.max(docLengthNorm, 1.0);
-    }
-    
-    // L2 normalization for cosine similarity
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    const normalizedEmbedding = magnitude > 0 ? embedding.map(val => val / magnitude) : embedding;
-    
-    return new Float32Array(normalizedEmbedding);
-  }
-  
-  // Calculate position-based importance weight
-  private calculatePositionWeight(position: number, totalWords: number): number {
-    if (totalWords === 1) return 1.0;
-    
-    // Higher weight for beginning and end, lower for middle
-    const relativePos = position / (totalWords - 1);
-    
-    // U-shaped curve: higher at start (0) and end (1), lower in middle (0.5)
-    const positionWeight = 1.0 - 0.3 * Math.sin(relativePos * Math.PI);
-    
-    return positionWeight;
-  }
-  
-  // General-purpose semantic hash function
-  private semanticHash(str: string, seed: number): number {
-    let hash = seed;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  // Generate embeddings with the active embedding provider
+  private async generateEmbedding(text: string): Promise<Float32Array> {
+    if (this.vectorDimensions !== this.embeddingProvider.dimensions) {
+      throw new Error(`Vector tables are ${this.vectorDimensions}-dimensional but the active embedding model produces ${this.embeddingProvider.dimensions}-dimensional vectors - run migrateEmbeddingDimensions first`);
     }
-    return Math.abs(hash);
+    return this.embeddingProvider.embed(text);
   }
 
   // === NEW SEPARATE TOOLS ===
@@ -1265,7 +3466,7 @@ class RAGKnowledgeGraphManager {
     return { id, stored: true };
   }
 
-  async chunkDocument(documentId: string, options: { maxTokens?: number; overlap?: number } = {}): Promise<{ documentId: string; chunks: Array<{ id: string; text: string; startPos: number; endPos: number }> }> {
+  async chunkDocument(documentId: string, options: { maxTokens?: number; overlap?: number; strategy?: ChunkingStrategy } = {}): Promise<{ documentId: string; strategy: ChunkingStrategy; chunks: Array<{ id: string; text: string; startPos: number; endPos: number; metadata: Record<string, any> }> }> {
     if (!this.db) throw new Error('Database not initialized');
     
     // Get document
@@ -1277,40 +3478,42 @@ class RAGKnowledgeGraphManager {
       throw new Error(`Document with ID ${documentId} not found`);
     }
     
-    const { maxTokens = 200, overlap = 20 } = options;
+    const { maxTokens = 200, overlap = 20, strategy = 'tokens' } = options;
     
-    console.error(`🔪 Chunking document: ${documentId} (maxTokens: ${maxTokens}, overlap: ${overlap})`);
+    console.error(`🔪 Chunking document: ${documentId} (strategy: ${strategy}, maxTokens: ${maxTokens}, overlap: ${overlap})`);
     
     // Clean up existing chunks
     await this.cleanupDocument(documentId);
     
     // Create chunks
-    const chunks = this.chunkText(document.content, maxTokens, overlap);
+    const chunks = this.chunkText(document.content, maxTokens, overlap, strategy);
     const resultChunks = [];
     
     for (const chunk of chunks) {
       const chunkId = `${documentId}_chunk_${chunk.chunk_index}`;
+      const chunkMetadata = chunk.metadata || {};
       
       // Store chunk metadata (no embedding yet)
       this.db.prepare(`
         INSERT INTO chunk_metadata (
-          chunk_id, document_id, chunk_index, text, start_pos, end_pos
-        ) VALUES (?, ?, ?, ?, ?, ?)
-      `).run(chunkId, documentId, chunk.chunk_index, chunk.text, chunk.start_pos, chunk.end_pos);
+          chunk_id, document_id, chunk_index, text, start_pos, end_pos, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(chunkId, documentId, chunk.chunk_index, chunk.text, chunk.start_pos, chunk.end_pos, JSON.stringify(chunkMetadata));
       
       resultChunks.push({
         id: chunkId,
         text: chunk.text,
         startPos: chunk.start_pos,
-        endPos: chunk.end_pos
+        endPos: chunk.end_pos,
+        metadata: chunkMetadata
       });
     }
     
     console.error(`✅ Document chunked: ${chunks.length} chunks created`);
-    return { documentId, chunks: resultChunks };
+    return { documentId, strategy, chunks: resultChunks };
   }
 
-  async embedChunks(documentId: string): Promise<{ documentId: string; embeddedChunks: number }> {
+  async embedChunks(documentId: string, control: JobControl = {}): Promise<{ documentId: string; embeddedChunks: number }> {
     if (!this.db) throw new Error('Database not initialized');
     
     console.error(`🔮 Embedding chunks for document: ${documentId}`);
@@ -1326,34 +3529,46 @@ class RAGKnowledgeGraphManager {
     
     let embeddedCount = 0;
     
-    for (const chunk of chunks) {
-      // Generate embedding
-      const embedding = await this.generateEmbedding(chunk.text);
-      
-      // Store in vector table - the vec0 table should auto-handle rowid matching
-      try {
-        // First, delete any existing embedding for this rowid
-        this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(chunk.rowid);
-        
-        // Insert new embedding, letting vec0 handle the rowid
-        const result = this.db.prepare(`
-          INSERT INTO chunks (embedding) VALUES (?)
-        `).run(Buffer.from(embedding.buffer));
-        
-        if (result.changes > 0) {
-          embeddedCount++;
-          // console.log(`✅ Embedded chunk ${chunk.chunk_id} with rowid ${result.lastInsertRowid}`);
-        }
-      } catch (error) {
-        console.error(`Failed to embed chunk ${chunk.chunk_id}:`, error);
-        // Continue with other chunks instead of failing completely
+    for (const [index, chunk] of chunks.entries()) {
+      await this.throwIfCancelled(control, 'embedChunks', index, chunks.length);
+      if (await this.embedChunk(chunk)) {
+        embeddedCount++;
       }
+      await this.reportProgress(control, index + 1, chunks.length);
     }
     
     console.error(`✅ Chunks embedded: ${embeddedCount} embeddings created`);
     return { documentId, embeddedChunks: embeddedCount };
   }
 
+  // Generate and store the vector for a single chunk, tagging it with the model that produced it
+  private async embedChunk(chunk: { rowid: number; chunk_id: string; text: string }): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    // Generate embedding
+    const embedding = await this.generateEmbedding(chunk.text);
+    
+    // Store in vector table, keyed to the chunk_metadata rowid (vec0 only accepts BigInt rowids)
+    try {
+      // First, delete any existing embedding for this rowid
+      this.db.prepare(`DELETE FROM chunks WHERE rowid = ?`).run(chunk.rowid);
+      
+      const result = this.db.prepare(`
+        INSERT INTO chunks (rowid, embedding) VALUES (?, ?)
+      `).run(BigInt(chunk.rowid), Buffer.from(embedding.buffer));
+      
+      this.db.prepare(`
+        UPDATE chunk_metadata SET embedding_model = ?, embedding_dimensions = ? WHERE rowid = ?
+      `).run(this.embeddingProvider.modelId, embedding.length, chunk.rowid);
+      
+      return result.changes > 0;
+    } catch (error) {
+      console.error(`Failed to embed chunk ${chunk.chunk_id}:`, error);
+      // Continue with other chunks instead of failing completely
+      return false;
+    }
+  }
+
   async extractTerms(documentId: string, options: {
     minLength?: number;
     includeCapitalized?: boolean;
@@ -1378,7 +3593,12 @@ class RAGKnowledgeGraphManager {
     return { documentId, terms };
   }
 
-  async linkEntitiesToDocument(documentId: string, entityNames: string[]): Promise<{ documentId: string; linkedEntities: number }> {
+  async linkEntitiesToDocument(documentId: string, entityNames: string[], chunkIds?: string[]): Promise<{
+    documentId: string;
+    linkedEntities: number;
+    links: Array<{ entityName: string; chunkIds: string[] }>;
+    unmatchedEntities: string[];
+  }> {
     if (!this.db) throw new Error('Database not initialized');
     
     console.error(`🔗 Linking entities to document: ${documentId}`);
@@ -1394,37 +3614,203 @@ class RAGKnowledgeGraphManager {
     
     // Get chunks for this document
     const chunks = this.db.prepare(`
-      SELECT rowid FROM chunk_metadata WHERE document_id = ?
-    `).all(documentId) as Array<{ rowid: number }>;
+      SELECT rowid, chunk_id, text FROM chunk_metadata WHERE document_id = ?
+    `).all(documentId) as Array<{ rowid: number; chunk_id: string; text: string }>;
+    
+    // Explicit chunk IDs must belong to this document
+    let explicitChunks: typeof chunks | null = null;
+    if (chunkIds && chunkIds.length > 0) {
+      const unknownChunks = chunkIds.filter(chunkId => !chunks.some(c => c.chunk_id === chunkId));
+      if (unknownChunks.length > 0) {
+        throw new Error(`Chunks not found in document ${documentId}: ${unknownChunks.join(', ')}`);
+      }
+      explicitChunks = chunks.filter(c => chunkIds.includes(c.chunk_id));
+    }
+    
+    const insertLink = this.db.prepare(`
+      INSERT OR IGNORE INTO chunk_entities (chunk_rowid, entity_id)
+      VALUES (?, ?)
+    `);
     
-    let linkedCount = 0;
+    const links: Array<{ entityName: string; chunkIds: string[] }> = [];
+    const unmatchedEntities: string[] = [];
     
     for (const entityName of entityNames) {
-      const entityId = `entity_${entityName.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-      
       // Verify entity exists
-      const entity = this.db.prepare(`
-        SELECT id FROM entities WHERE id = ?
-      `).get(entityId);
+      const entity = this.resolveEntity(entityName);
       
       if (!entity) {
         console.warn(`Entity ${entityName} not found, skipping`);
+        unmatchedEntities.push(entityName);
         continue;
       }
+      const entityId = entity.id;
       
-      // Link entity to all chunks of the document
-      for (const chunk of chunks) {
-        this.db.prepare(`
-          INSERT OR IGNORE INTO chunk_entities (chunk_rowid, entity_id)
-          VALUES (?, ?)
-        `).run(chunk.rowid, entityId);
+      // Link entity only to the chunks that mention it (by name or alias), unless chunks were given explicitly
+      const mentions = [entity.name, ...this.aliasesOf(entity.id)];
+      const targetChunks = explicitChunks ?? chunks.filter(chunk => mentions.some(mention => this.textMentionsEntity(chunk.text, mention)));
+      
+      if (targetChunks.length === 0) {
+        unmatchedEntities.push(entityName);
+        continue;
+      }
+      
+      for (const chunk of targetChunks) {
+        insertLink.run(chunk.rowid, entityId);
       }
       
-      linkedCount++;
+      links.push({ entityName, chunkIds: targetChunks.map(c => c.chunk_id) });
+    }
+    
+    console.error(`✅ Entities linked: ${links.length} entities linked to document chunks, ${unmatchedEntities.length} unmatched`);
+    return { documentId, linkedEntities: links.length, links, unmatchedEntities };
+  }
+
+  // Report which chunks each entity is linked to
+  async getEntityChunkLinks(options: { entityNames?: string[]; documentId?: string } = {}): Promise<{
+    entities: Array<{ entityName: string; chunks: Array<{ chunkId: string; documentId: string; chunkIndex: number }> }>;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { entityNames, documentId } = options;
+    
+    const conditions: string[] = [];
+    const params: any[] = [];
+    
+    if (entityNames && entityNames.length > 0) {
+      const entityIds = this.resolveEntityIds(entityNames);
+      conditions.push(`e.id IN (${entityIds.map(() => '?').join(',') || 'NULL'})`);
+      params.push(...entityIds);
+    }
+    if (documentId) {
+      conditions.push('m.document_id = ?');
+      params.push(documentId);
+    }
+    
+    const rows = this.db.prepare(`
+      SELECT e.name, m.chunk_id, m.document_id, m.chunk_index
+      FROM chunk_entities ce
+      JOIN entities e ON e.id = ce.entity_id
+      JOIN chunk_metadata m ON m.rowid = ce.chunk_rowid
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY e.name, m.document_id, m.chunk_index
+    `).all(...params) as Array<{ name: string; chunk_id: string; document_id: string; chunk_index: number }>;
+    
+    const byEntity = new Map<string, Array<{ chunkId: string; documentId: string; chunkIndex: number }>>();
+    for (const row of rows) {
+      if (!byEntity.has(row.name)) {
+        byEntity.set(row.name, []);
+      }
+      byEntity.get(row.name)!.push({ chunkId: row.chunk_id, documentId: row.document_id, chunkIndex: row.chunk_index });
     }
     
-    console.error(`✅ Entities linked: ${linkedCount} entities linked to document`);
-    return { documentId, linkedEntities: linkedCount };
+    return {
+      entities: Array.from(byEntity.entries()).map(([entityName, chunks]) => ({ entityName, chunks }))
+    };
+  }
+
+  // Case-insensitive mention check that respects word boundaries (so "Java" does not match "JavaScript")
+  private textMentionsEntity(text: string, entityName: string): boolean {
+    const escaped = entityName.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (!escaped) return false;
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  }
+
+  // Run the full document pipeline (store → chunk → embed → extract → create → link) atomically
+  async ingestDocument(id: string, content: string, metadata: Record<string, any> = {}, options: {
+    strategy?: ChunkingStrategy;
+    maxTokens?: number;
+    overlap?: number;
+    extractTerms?: boolean;
+    createEntities?: boolean;
+    linkEntities?: boolean;
+    entityType?: string;
+    minLength?: number;
+    includeCapitalized?: boolean;
+    customPatterns?: string[];
+  } = {}): Promise<{
+    documentId: string;
+    stages: {
+      store: { stored: boolean };
+      chunk: { chunks: number };
+      embed: { embeddedChunks: number };
+      extractTerms: { skipped: boolean; terms: string[] };
+      createEntities: { skipped: boolean; created: string[] };
+      link: { skipped: boolean; linkedEntities: number };
+    };
+  }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      if (this.db.inTransaction) {
+        throw new Error('Another write transaction is in progress, retry ingestDocument later');
+      }
+
+      const {
+        strategy = 'tokens',
+        maxTokens = 200,
+        overlap = 20,
+        extractTerms = true,
+        createEntities = false,
+        linkEntities = true,
+        entityType = 'CONCEPT',
+        minLength,
+        includeCapitalized,
+        customPatterns
+      } = options;
+
+      console.error(`📥 Ingesting document: ${id}`);
+
+      // better-sqlite3 transactions cannot span awaits, so the transaction is managed manually
+      await this.beginAsyncTransaction();
+
+      try {
+        const stored = await this.storeDocument(id, content, metadata);
+        const chunked = await this.chunkDocument(id, { maxTokens, overlap, strategy });
+        const embedded = await this.embedChunks(id);
+
+        let terms: string[] = [];
+        if (extractTerms) {
+          terms = (await this.extractTerms(id, { minLength, includeCapitalized, customPatterns })).terms;
+        }
+
+        // Created entities are logged like a createEntities call, so undo and getHistory see them
+        let created: string[] = [];
+        if (extractTerms && createEntities && terms.length > 0) {
+          const entities = terms.map(term => ({ name: term, entityType, observations: [] }));
+          const newEntities = await this.withChangeLog('ingestDocument', { documentId: id, entities }, () => this.createEntities(entities));
+          created = newEntities.map(e => e.name);
+        }
+
+        let linkedEntities = 0;
+        if (extractTerms && linkEntities && terms.length > 0) {
+          linkedEntities = (await this.linkEntitiesToDocument(id, terms)).linkedEntities;
+        }
+
+        this.db.exec('COMMIT');
+
+        console.error(`✅ Document ingested: ${id} (${chunked.chunks.length} chunks, ${created.length} entities created, ${linkedEntities} linked)`);
+
+        return {
+          documentId: id,
+          stages: {
+            store: { stored: stored.stored },
+            chunk: { chunks: chunked.chunks.length },
+            embed: { embeddedChunks: embedded.embeddedChunks },
+            extractTerms: { skipped: !extractTerms, terms },
+            createEntities: { skipped: !(extractTerms && createEntities), created },
+            link: { skipped: !(extractTerms && linkEntities), linkedEntities }
+          }
+        };
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec('ROLLBACK');
+        }
+        console.error(`❌ Failed to ingest document '${id}', all changes rolled back:`, error);
+        throw error;
+      } finally {
+        this.endAsyncTransaction();
+      }
+    });
   }
 
   private async cleanupDocument(documentId: string): Promise<void> {
@@ -1604,15 +3990,46 @@ class RAGKnowledgeGraphManager {
     return { documents };
   }
 
-  async hybridSearch(query: string, limit = 5, useGraph = true): Promise<EnhancedSearchResult[]> {
+  async hybridSearch(query: string, limit = 5, useGraph = true, lexicalWeight = DEFAULT_LEXICAL_WEIGHT, filter?: SearchFilter, asOf?: string): Promise<EnhancedSearchResult[]> {
     if (!this.db) throw new Error('Database not initialized');
     if (!this.encoding) throw new Error('Tokenizer not initialized');
     
-    console.error(`🔍 Enhanced hybrid search: "${query}"`);
+    console.error(`🔍 Enhanced hybrid search: "${query}"${asOf ? ` as of ${asOf}` : ''}`);
+    
+    // Filters run inside the KNN and BM25 queries, so limit applies to the filtered results. Relationship chunks
+    // only match while their relationship is valid; with asOf, chunks recorded later are left out too
+    const at = asOf !== undefined ? this.parseTimestamp(asOf, 'asOf') : undefined;
+    const compiledFilter = compileChunkFilter(filter);
+    const validity = chunkValidAt(at);
+    const chunkFilter = {
+      sql: `${compiledFilter.sql} AND ${validity.sql}`,
+      params: [...compiledFilter.params, ...validity.params]
+    };
     
     // Generate query embedding
     const queryEmbedding = await this.generateEmbedding(query);
     
+    // Vectors from other models live in a different space; they are excluded inside the KNN query
+    const staleChunks = this.countStaleVectors().chunks;
+    if (staleChunks > 0) {
+      console.error(`⚠️ Ignoring ${staleChunks} chunk vectors not produced by ${this.embeddingProvider.modelId} (run reembedStale)`);
+    }
+    
+    type CandidateRow = {
+      rowid: number;
+      chunk_id: string;
+      chunk_type: string;
+      document_id: string | null;
+      entity_id: string | null;
+      relationship_id: string | null;
+      chunk_index: number;
+      text: string;
+      start_pos: number;
+      end_pos: number;
+      chunk_metadata: string;
+      doc_metadata: string;
+    };
+    
     // Enhanced vector search across ALL chunk types (documents, entities, relationships)
     const vectorResults = this.db.prepare(`
       SELECT 
@@ -1634,34 +4051,81 @@ class RAGKnowledgeGraphManager {
       LEFT JOIN documents d ON m.document_id = d.id
       WHERE c.embedding MATCH ?
         AND k = ?
+        AND c.rowid IN (
+          SELECT m.rowid FROM chunk_metadata m
+          LEFT JOIN documents d ON m.document_id = d.id
+          WHERE m.embedding_model = ? AND ${chunkFilter.sql}
+        )
       ORDER BY c.distance
-    `).all(Buffer.from(queryEmbedding.buffer), limit * 3) as Array<{
-      rowid: number;
-      chunk_id: string;
-      chunk_type: string;
-      document_id: string | null;
-      entity_id: string | null;
-      relationship_id: string | null;
-      chunk_index: number;
-      text: string;
-      start_pos: number;
-      end_pos: number;
-      chunk_metadata: string;
-      distance: number;
-      doc_metadata: string;
-    }>;
+    `).all(Buffer.from(queryEmbedding.buffer), limit * 3, this.embeddingProvider.modelId, ...chunkFilter.params) as Array<CandidateRow & { distance: number }>;
+    
+    // Lexical BM25 search catches exact identifiers, codes and rare names that embeddings miss
+    const ftsQuery = lexicalWeight > 0 ? this.buildFtsQuery(query) : null;
+    const lexicalResults = ftsQuery ? this.db.prepare(`
+      SELECT 
+        m.rowid,
+        m.chunk_id,
+        m.chunk_type,
+        m.document_id,
+        m.entity_id,
+        m.relationship_id,
+        m.chunk_index,
+        m.text,
+        m.start_pos,
+        m.end_pos,
+        m.metadata as chunk_metadata,
+        bm25(chunks_fts) as bm25,
+        COALESCE(d.metadata, '{}') as doc_metadata
+      FROM chunks_fts
+      JOIN chunk_metadata m ON m.rowid = chunks_fts.rowid
+      LEFT JOIN documents d ON m.document_id = d.id
+      WHERE chunks_fts MATCH ?
+        AND ${chunkFilter.sql}
+      ORDER BY bm25
+      LIMIT ?
+    `).all(ftsQuery, ...chunkFilter.params, limit * 3) as Array<CandidateRow & { bm25: number }> : [];
+    
+    // Merge both rankings into one candidate set (ranks are 1-based)
+    const candidates = new Map<number, { row: CandidateRow; distance?: number; vectorRank?: number; bm25?: number; lexicalRank?: number }>();
+    vectorResults.forEach((row, index) => {
+      candidates.set(row.rowid, { row, distance: row.distance, vectorRank: index + 1 });
+    });
+    lexicalResults.forEach((row, index) => {
+      const candidate = candidates.get(row.rowid) || { row };
+      candidate.bm25 = row.bm25;
+      candidate.lexicalRank = index + 1;
+      candidates.set(row.rowid, candidate);
+    });
     
-    if (vectorResults.length === 0) {
-      console.error(`ℹ️ No vector matches found for "${query}"`);
+    if (candidates.size === 0) {
+      console.error(`ℹ️ No vector or lexical matches found for "${query}"`);
       return [];
     }
     
+    // Lexical-only candidates still get a vector similarity when they have a vector in the active space
+    const distanceQuery = this.db.prepare(`
+      SELECT vec_distance_l2(c.embedding, ?) as distance
+      FROM chunks c
+      JOIN chunk_metadata m ON c.rowid = m.rowid
+      WHERE c.rowid = ? AND m.embedding_model = ?
+    `);
+    for (const [rowid, candidate] of candidates) {
+      if (candidate.distance === undefined) {
+        const row = distanceQuery.get(Buffer.from(queryEmbedding.buffer), rowid, this.embeddingProvider.modelId) as { distance: number } | undefined;
+        candidate.distance = row?.distance;
+      }
+    }
+    
     // Get entity information for graph enhancement
     let connectedEntities = new Set<string>();
+    const relationValidity = validAt('r', at);
     if (useGraph) {
       const queryEntities = this.extractTermsFromText(query);
       
       for (const entity of queryEntities) {
+        const entityId = this.resolveEntity(entity)?.id;
+        if (!entityId) continue;
+        
         const connected = this.db.prepare(`
           SELECT DISTINCT
             CASE 
@@ -1671,8 +4135,8 @@ class RAGKnowledgeGraphManager {
           FROM entities e1
           JOIN relationships r ON (r.source_entity = e1.id OR r.target_entity = e1.id)
           JOIN entities e2 ON (e2.id = r.source_entity OR e2.id = r.target_entity)
-          WHERE e1.name = ? AND e2.name != ?
-        `).all(entity, entity) as { connected_name: string }[];
+          WHERE e1.id = ? AND e2.id != ? AND ${relationValidity.sql}
+        `).all(entityId, entityId, ...relationValidity.params) as { connected_name: string }[];
         
         connected.forEach((row) => connectedEntities.add(row.connected_name));
       }
@@ -1681,7 +4145,9 @@ class RAGKnowledgeGraphManager {
     // Process results with semantic summaries
     const enhancedResults: EnhancedSearchResult[] = [];
     
-    for (const result of vectorResults) {
+    for (const candidate of candidates.values()) {
+      const result = candidate.row;
+      
       // Get entities associated with this chunk (for document chunks)
       let chunkEntities: string[] = [];
       if (result.chunk_type === 'document') {
@@ -1737,15 +4203,16 @@ class RAGKnowledgeGraphManager {
       }
       
       // Generate semantic summary
-      const { summary, keyHighlight, relevanceScore } = await this.generateContentSummary(
+      const { summary, keyHighlight } = await this.generateContentSummary(
         result.text,
         queryEmbedding,
         chunkEntities,
         result.chunk_type === 'relationship' ? 1 : 2 // Shorter summary for relationships
       );
       
-      const vectorSimilarity = 1 / (1 + result.distance);
-      const finalScore = Math.max(vectorSimilarity, relevanceScore) + graphBoost;
+      const vectorSimilarity = candidate.distance !== undefined ? 1 / (1 + candidate.distance) : 0;
+      const fusionScore = this.fuseRanks(candidate.vectorRank, candidate.lexicalRank, lexicalWeight);
+      const finalScore = fusionScore + graphBoost;
       
       // Determine document title and source ID
       let documentTitle: string;
@@ -1774,6 +4241,8 @@ class RAGKnowledgeGraphManager {
         document_title: documentTitle,
         entities: chunkEntities,
         vector_similarity: vectorSimilarity,
+        lexical_score: candidate.bm25 !== undefined ? -candidate.bm25 : undefined,
+        fusion_score: fusionScore,
         graph_boost: useGraph ? graphBoost : undefined,
         full_context_available: true,
         chunk_type: result.chunk_type as 'document' | 'entity' | 'relationship',
@@ -1796,6 +4265,19 @@ class RAGKnowledgeGraphManager {
     return finalResults;
   }
 
+  // Turn free text into an FTS5 query matching any of its terms (quoted, so FTS5 syntax in the input is inert)
+  private buildFtsQuery(text: string): string | null {
+    const terms = [...new Set(text.match(/[\p{L}\p{N}_]+/gu) || [])];
+    return terms.length > 0 ? terms.map(term => `"${term}"`).join(' OR ') : null;
+  }
+
+  // Weighted reciprocal rank fusion, scaled so a candidate ranked first in both lists scores 1
+  private fuseRanks(vectorRank: number | undefined, lexicalRank: number | undefined, lexicalWeight: number): number {
+    const vectorPart = vectorRank !== undefined ? (1 - lexicalWeight) / (RRF_K + vectorRank) : 0;
+    const lexicalPart = lexicalRank !== undefined ? lexicalWeight / (RRF_K + lexicalRank) : 0;
+    return (vectorPart + lexicalPart) * (RRF_K + 1);
+  }
+
   // NEW: Get detailed context for a specific chunk
   async getDetailedContext(chunkId: string, includeSurrounding = true): Promise<DetailedContext> {
     if (!this.db) throw new Error('Database not initialized');
@@ -1809,6 +4291,9 @@ class RAGKnowledgeGraphManager {
         m.document_id,
         m.chunk_index,
         m.text,
+        m.start_pos,
+        m.end_pos,
+        m.metadata as chunk_metadata,
         d.content as doc_content,
         d.metadata as doc_metadata
       FROM chunk_metadata m
@@ -1819,6 +4304,9 @@ class RAGKnowledgeGraphManager {
       document_id: string;
       chunk_index: number;
       text: string;
+      start_pos: number;
+      end_pos: number;
+      chunk_metadata: string | null;
       doc_content: string;
       doc_metadata: string;
     } | undefined;
@@ -1872,6 +4360,11 @@ class RAGKnowledgeGraphManager {
     const metadata = JSON.parse(chunk.doc_metadata);
     const documentTitle = metadata.title || metadata.name || chunk.document_id;
     
+    // Chunks created before character offsets were introduced store token offsets, so only
+    // report a span when it actually points at the chunk text
+    const spanMatches = chunk.doc_content.slice(chunk.start_pos, chunk.end_pos) === chunk.text;
+    const contextChars = 200;
+    
     console.error(`✅ Retrieved detailed context with ${surroundingChunks.length} surrounding chunks`);
     
     return {
@@ -1881,7 +4374,14 @@ class RAGKnowledgeGraphManager {
       document_title: documentTitle,
       surrounding_chunks: surroundingChunks.length > 0 ? surroundingChunks : undefined,
       entities: entities,
-      metadata: metadata
+      metadata: metadata,
+      chunk_metadata: JSON.parse(chunk.chunk_metadata || '{}'),
+      span: spanMatches ? {
+        start_pos: chunk.start_pos,
+        end_pos: chunk.end_pos,
+        context_before: chunk.doc_content.slice(Math.max(0, chunk.start_pos - contextChars), chunk.start_pos),
+        context_after: chunk.doc_content.slice(chunk.end_pos, chunk.end_pos + contextChars)
+      } : undefined
     };
   }
 
@@ -1908,18 +4408,561 @@ class RAGKnowledgeGraphManager {
       SELECT COUNT(*) as count FROM chunk_metadata
     `).get() as { count: number };
     
+    const observationCount = this.db.prepare(`
+      SELECT COUNT(*) as count FROM observations
+    `).get() as { count: number };
+    
+    // Vector counts per producing model
+    const vectorModels = this.db.prepare(`
+      SELECT model_id, SUM(chunks) as chunks, SUM(entities) as entities, SUM(observations) as observations
+      FROM (
+        SELECT embedding_model as model_id, COUNT(*) as chunks, 0 as entities, 0 as observations
+        FROM chunk_metadata WHERE embedding_model IS NOT NULL GROUP BY embedding_model
+        UNION ALL
+        SELECT embedding_model as model_id, 0 as chunks, COUNT(*) as entities, 0 as observations
+        FROM entity_embedding_metadata WHERE embedding_model IS NOT NULL GROUP BY embedding_model
+        UNION ALL
+        SELECT embedding_model as model_id, 0 as chunks, 0 as entities, COUNT(*) as observations
+        FROM observations WHERE embedding_model IS NOT NULL GROUP BY embedding_model
+      )
+      GROUP BY model_id
+      ORDER BY model_id
+    `).all() as Array<{ model_id: string; chunks: number; entities: number; observations: number }>;
+    
+    const staleVectors = this.countStaleVectors();
+    
     return {
       entities: {
         total: entityStats.reduce((sum, stat) => sum + stat.count, 0),
         by_type: Object.fromEntries(entityStats.map(s => [s.entityType, s.count]))
       },
+      observations: observationCount.count,
       relationships: {
         total: relationshipStats.reduce((sum, stat) => sum + stat.count, 0),
         by_type: Object.fromEntries(relationshipStats.map(s => [s.relationType, s.count]))
       },
       documents: documentCount.count,
-      chunks: chunkCount.count
+      chunks: chunkCount.count,
+      embeddings: {
+        active_model: {
+          model_id: this.embeddingProvider.modelId,
+          provider: this.embeddingProvider.name,
+          model: this.embeddingProvider.model,
+          dimensions: this.embeddingProvider.dimensions
+        },
+        vector_dimensions: this.vectorDimensions,
+        vector_models: vectorModels,
+        stale_vectors: staleVectors,
+        mixed_vector_spaces: staleVectors.chunks + staleVectors.entities + staleVectors.observations > 0
+      }
+    };
+  }
+
+  // === RESOURCES ===
+
+  // One page of memory:// resources: the graph statistics, then entities by name, then documents by ID
+  async listResources(cursor?: string, limit = DEFAULT_RESOURCE_PAGE_SIZE): Promise<{
+    resources: Array<{ uri: string; name: string; description?: string; mimeType: string }>;
+    nextCursor?: string;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const resources: Array<{ uri: string; name: string; description?: string; mimeType: string }> = [];
+    
+    // Keyset pagination per section; the cursor holds the section and the last key of the previous page
+    const position = cursor !== undefined ? this.decodeResourceCursor(cursor) : undefined;
+    if (!position) {
+      resources.push(graphStatsResource);
+    }
+    
+    if (!position || position.section === 'entities') {
+      const remaining = limit - resources.length;
+      const entities = this.db.prepare(`
+        SELECT name, entityType FROM entities WHERE name > ? ORDER BY name LIMIT ?
+      `).all(position?.after ?? '', remaining + 1) as Array<{ name: string; entityType: string }>;
+      
+      for (const entity of entities.slice(0, remaining)) {
+        resources.push({ uri: entityUri(entity.name), name: entity.name, description: entity.entityType, mimeType: 'application/json' });
+      }
+      if (entities.length > remaining) {
+        return { resources, nextCursor: this.encodeResourceCursor('entities', remaining > 0 ? entities[remaining - 1].name : position?.after ?? '') };
+      }
+    }
+    
+    const remaining = limit - resources.length;
+    const documents = this.db.prepare(`
+      SELECT id, metadata FROM documents WHERE id > ? ORDER BY id LIMIT ?
+    `).all(position?.section === 'documents' ? position.after : '', remaining + 1) as Array<{ id: string; metadata: string | null }>;
+    
+    for (const document of documents.slice(0, remaining)) {
+      const metadata = document.metadata ? JSON.parse(document.metadata) : {};
+      resources.push({
+        uri: documentUri(document.id),
+        name: typeof metadata.title === 'string' ? metadata.title : document.id,
+        ...(typeof metadata.title === 'string' && { description: document.id }),
+        mimeType: 'text/plain'
+      });
+    }
+    if (documents.length > remaining) {
+      const after = remaining > 0 ? documents[remaining - 1].id : position?.section === 'documents' ? position.after : '';
+      return { resources, nextCursor: this.encodeResourceCursor('documents', after) };
+    }
+    
+    return { resources };
+  }
+
+  // Contents of a memory:// resource
+  async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const resource = parseMemoryUri(uri);
+    switch (resource.kind) {
+      case 'entity': {
+        const { entities } = await this.openNodes([resource.name]);
+        if (entities.length === 0) {
+          throw new Error(`Entity with name ${resource.name} not found`);
+        }
+        // All of the entity's own current relationships, in both directions
+        const entityId = this.resolveEntity(resource.name)!.id;
+        const validity = validAt('r');
+        const relations = this.db.prepare(`
+          SELECT e1.name as from_name, e2.name as to_name, r.relationType, r.confidence, r.metadata, r.source, r.valid_from, r.valid_to
+          FROM relationships r
+          JOIN entities e1 ON r.source_entity = e1.id
+          JOIN entities e2 ON r.target_entity = e2.id
+          WHERE (r.source_entity = ? OR r.target_entity = ?) AND ${validity.sql}
+          ORDER BY r.id
+        `).all(entityId, entityId, ...validity.params).map((row: any) => this.toRelation(row));
+        return { uri, mimeType: 'application/json', text: JSON.stringify({ ...entities[0], relations }, null, 2) };
+      }
+      case 'document': {
+        const document = this.db.prepare(`
+          SELECT content FROM documents WHERE id = ?
+        `).get(resource.id) as { content: string } | undefined;
+        if (!document) {
+          throw new Error(`Document with ID ${resource.id} not found`);
+        }
+        return { uri, mimeType: 'text/plain', text: document.content };
+      }
+      case 'chunk':
+        return { uri, mimeType: 'application/json', text: JSON.stringify(await this.getDetailedContext(resource.chunkId), null, 2) };
+      case 'graphStats':
+        return { uri, mimeType: 'application/json', text: JSON.stringify(await this.getKnowledgeGraphStats(), null, 2) };
+    }
+  }
+
+  // Changes whenever resources/list would: entities or documents added or removed, documents replaced
+  // (a new rowid) or entities renamed (recorded in the change log)
+  resourceListSignature(): string {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const signature = this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM entities) AS entities,
+        (SELECT IFNULL(MAX(rowid), 0) FROM entities) AS last_entity,
+        (SELECT COUNT(*) FROM documents) AS documents,
+        (SELECT IFNULL(MAX(rowid), 0) FROM documents) AS last_document,
+        (SELECT IFNULL(MAX(id), 0) FROM change_log WHERE operation IN ('updateEntity', 'revert')) AS last_rename
+    `).get() as Record<string, number>;
+    return Object.values(signature).join(':');
+  }
+
+  // Incremented when another connection commits to the database file
+  dataVersion(): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  // Rows changed through this connection since it was opened; unchanged across a call that wrote nothing
+  changeCount(): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return (this.db.prepare(`SELECT total_changes() AS changes`).get() as { changes: number }).changes;
+  }
+
+  private encodeResourceCursor(section: 'entities' | 'documents', after: string): string {
+    return Buffer.from(JSON.stringify({ section, after }), 'utf8').toString('base64url');
+  }
+
+  private decodeResourceCursor(cursor: string): { section: 'entities' | 'documents'; after: string } {
+    try {
+      const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if ((position.section === 'entities' || position.section === 'documents') && typeof position.after === 'string') {
+        return position;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid resources/list cursor: ${cursor}`);
+  }
+
+  // === CHANGE HISTORY ===
+
+  // Run a knowledge graph mutation and append it to the change log with the state of the entities it touched. The
+  // snapshots, the mutation and the log entry share one hold of the write lock, so no other write lands between them
+  async withChangeLog<T>(operation: string, args: unknown, mutate: () => Promise<T>): Promise<T> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+    
+      const scope = this.changeScope(args);
+      const before = this.snapshotEntities(scope);
+    
+      const result = await mutate();
+    
+      // Entities created or renamed by the mutation are only found by their new names
+      const after = this.snapshotEntities([...new Set([...scope, ...this.changeScope(args)])]);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        const changeId = this.appendChange(operation, args, before, after);
+        console.error(`📜 Recorded change ${changeId}: ${operation}`);
+      }
+    
+      return result;
+    });
+  }
+
+  // Changes recorded in the change log, newest first: for one entity (by name, alias or former name) or the whole graph
+  async getHistory(options: { entityName?: string; limit?: number; beforeId?: number; includeState?: boolean } = {}): Promise<{
+    changes: ChangeLogEntry[];
+    nextBeforeId?: number;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { entityName, limit = DEFAULT_HISTORY_LIMIT, beforeId, includeState = false } = options;
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+    
+    if (entityName !== undefined) {
+      // A deleted entity is only known by the name it had
+      const entity = this.resolveEntity(entityName);
+      const names = entity ? [entity.name, ...this.aliasesOf(entity.id)] : [entityName.trim()];
+      clauses.push(`c.id IN (
+        SELECT change_id FROM change_log_entities
+        WHERE entity_id = ? OR entity_name IN (${names.map(() => '?').join(',')})
+      )`);
+      params.push(entity?.id ?? '', ...names);
+    }
+    if (beforeId !== undefined) {
+      clauses.push('c.id < ?');
+      params.push(beforeId);
+    }
+    
+    const rows = this.db.prepare(`
+      SELECT c.id, c.operation, c.arguments, c.before_state, c.after_state, c.reverts, c.created_at,
+        (SELECT r.id FROM change_log r WHERE r.reverts = c.id) AS reverted_by,
+        (SELECT json_group_array(DISTINCT entity_name) FROM change_log_entities WHERE change_id = c.id) AS entity_names
+      FROM change_log c
+      ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+      ORDER BY c.id DESC
+      LIMIT ?
+    `).all(...params, limit + 1) as Array<{
+      id: number;
+      operation: string;
+      arguments: string;
+      before_state: string;
+      after_state: string;
+      reverts: number | null;
+      created_at: string;
+      reverted_by: number | null;
+      entity_names: string;
+    }>;
+    
+    const changes = rows.slice(0, limit).map(row => ({
+      id: row.id,
+      operation: row.operation,
+      arguments: JSON.parse(row.arguments),
+      entities: JSON.parse(row.entity_names) as string[],
+      createdAt: row.created_at,
+      ...(row.reverts !== null && { reverts: row.reverts }),
+      ...(row.reverted_by !== null && { revertedBy: row.reverted_by }),
+      ...(includeState && {
+        before: JSON.parse(row.before_state) as GraphSnapshot,
+        after: JSON.parse(row.after_state) as GraphSnapshot
+      })
+    }));
+    
+    return {
+      changes,
+      ...(rows.length > limit && { nextBeforeId: changes[changes.length - 1].id })
+    };
+  }
+
+  // Revert the latest changes that are still in effect, newest first; they are picked under the write lock, so
+  // concurrent undos never pick the same change
+  async undo(steps: number = 1): Promise<{ reverted: Array<{ id: number; operation: string; createdAt: string; revertedBy: number }> }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+    
+      const changes = this.activeChanges(0, steps);
+      if (changes.length === 0) {
+        throw new Error('There is no change to undo');
+      }
+    
+      return this.revertChanges(changes);
+    });
+  }
+
+  // Revert every change after the given one that is still in effect, returning the graph to its state right after it
+  async revertTo(changeId: number): Promise<{ reverted: Array<{ id: number; operation: string; createdAt: string; revertedBy: number }> }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+    
+      if (changeId !== 0 && !this.db.prepare(`SELECT 1 FROM change_log WHERE id = ?`).get(changeId)) {
+        throw new Error(`Change ${changeId} not found`);
+      }
+    
+      const changes = this.activeChanges(changeId);
+      if (changes.length === 0) {
+        console.error(`📜 Nothing to revert after change ${changeId}`);
+        return { reverted: [] };
+      }
+    
+      return this.revertChanges(changes);
+    });
+  }
+
+  // Changes after the given ID that have not been reverted, newest first (reverts themselves are not undone)
+  private activeChanges(afterId: number, limit: number = -1): Array<{
+    id: number;
+    operation: string;
+    before_state: string;
+    after_state: string;
+    created_at: string;
+  }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return this.db.prepare(`
+      SELECT c.id, c.operation, c.before_state, c.after_state, c.created_at FROM change_log c
+      WHERE c.id > ? AND c.operation != 'revert'
+        AND NOT EXISTS (SELECT 1 FROM change_log r WHERE r.reverts = c.id)
+      ORDER BY c.id DESC
+      LIMIT ?
+    `).all(afterId, limit) as Array<{ id: number; operation: string; before_state: string; after_state: string; created_at: string }>;
+  }
+
+  // Restore the before state of each change, newest first, logging a 'revert' change for each
+  private async revertChanges(changes: Array<{ id: number; operation: string; before_state: string; after_state: string; created_at: string }>): Promise<{
+    reverted: Array<{ id: number; operation: string; createdAt: string; revertedBy: number }>;
+  }> {
+    return this.withWriteLock(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+      if (this.db.inTransaction) {
+        throw new Error('Another write transaction is in progress, retry the revert later');
+      }
+    
+      console.error(`⏪ Reverting ${changes.length} change(s): ${changes.map(change => change.id).join(', ')}`);
+    
+      // better-sqlite3 transactions cannot span awaits, so the transaction is managed manually
+      await this.beginAsyncTransaction();
+      try {
+        // Rows are restored one at a time, so references are only checked at commit
+        this.db.pragma('defer_foreign_keys = ON');
+      
+        const reverted: Array<{ id: number; operation: string; createdAt: string; revertedBy: number }> = [];
+        for (const change of changes) {
+          const before = JSON.parse(change.before_state) as GraphSnapshot;
+          const after = JSON.parse(change.after_state) as GraphSnapshot;
+          const scope = [...new Set([...before.entities, ...after.entities].map(entity => entity.id))];
+        
+          const current = this.snapshotEntities(scope);
+          await this.restoreSnapshot(before, after);
+          const revertedBy = this.appendChange('revert', { changeId: change.id }, current, this.snapshotEntities(scope), change.id);
+        
+          reverted.push({ id: change.id, operation: change.operation, createdAt: change.created_at, revertedBy });
+          console.error(`  ├─ Reverted change ${change.id} (${change.operation})`);
+        }
+      
+        this.db.exec('COMMIT');
+      
+        console.error(`✅ Reverted ${reverted.length} change(s)`);
+      
+        return { reverted };
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec('ROLLBACK');
+        }
+        console.error(`❌ Failed to revert changes, all changes rolled back:`, error);
+        throw error;
+      } finally {
+        this.endAsyncTransaction();
+      }
+    });
+  }
+
+  // Entity IDs named by the arguments of a logged tool, directly or through the observations they reference. Only the
+  // arguments themselves and the entity, relation and observation records listed in them are searched, so a name
+  // inside free-form properties or metadata is never taken for an entity
+  private changeScope(args: unknown): string[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const findObservation = this.db.prepare(`SELECT entity_id FROM observations WHERE id = ?`);
+    const ids = new Set<string>();
+    const visit = (value: unknown, key?: string): void => {
+      if (Array.isArray(value)) {
+        value.forEach(item => visit(item, key));
+      } else if (value !== null && typeof value === 'object') {
+        if (key === undefined || CHANGE_SCOPE_RECORD_KEYS.has(key)) {
+          Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+        }
+      } else if (typeof value === 'string' && key && CHANGE_SCOPE_NAME_KEYS.has(key)) {
+        const entity = this.resolveEntity(value);
+        if (entity) ids.add(entity.id);
+      } else if (typeof value === 'number' && key && CHANGE_SCOPE_OBSERVATION_KEYS.has(key)) {
+        const observation = findObservation.get(value) as { entity_id: string } | undefined;
+        if (observation) ids.add(observation.entity_id);
+      }
     };
+    
+    visit(args);
+    return [...ids];
+  }
+
+  // Current state of the given entities; vectors and KG chunks are derived from it, so they are left out
+  private snapshotEntities(entityIds: string[]): GraphSnapshot {
+    if (!this.db) throw new Error('Database not initialized');
+    if (entityIds.length === 0) return { entities: [], observations: [], relationships: [] };
+    
+    const placeholders = entityIds.map(() => '?').join(',');
+    const chunkLinks = this.db.prepare(`SELECT chunk_rowid FROM chunk_entities WHERE entity_id = ? ORDER BY chunk_rowid`);
+    const entities = (this.db.prepare(`
+      SELECT * FROM entities WHERE id IN (${placeholders}) ORDER BY id
+    `).all(...entityIds) as Array<Record<string, unknown> & { id: string; name: string }>).map(entity => ({
+      ...entity,
+      aliases: this.aliasesOf(entity.id),
+      chunkLinks: (chunkLinks.all(entity.id) as Array<{ chunk_rowid: number }>).map(row => row.chunk_rowid)
+    }));
+    
+    const observations = this.db.prepare(`
+      SELECT id, entity_id, text, source, confidence, created_at, valid_from, valid_to FROM observations
+      WHERE entity_id IN (${placeholders})
+      ORDER BY id
+    `).all(...entityIds) as GraphSnapshot['observations'];
+    
+    const relationships = this.db.prepare(`
+      SELECT * FROM relationships
+      WHERE source_entity IN (${placeholders}) OR target_entity IN (${placeholders})
+      ORDER BY id
+    `).all(...entityIds, ...entityIds) as GraphSnapshot['relationships'];
+    
+    return { entities, observations, relationships };
+  }
+
+  // Append a change and the entities it touched (by ID and by every name they had) to the change log
+  private appendChange(operation: string, args: unknown, before: GraphSnapshot, after: GraphSnapshot, reverts?: number): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { id } = this.db.prepare(`
+      INSERT INTO change_log (operation, arguments, before_state, after_state, reverts)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING id
+    `).get(operation, JSON.stringify(args ?? {}), JSON.stringify(before), JSON.stringify(after), reverts ?? null) as { id: number };
+    
+    const touched = this.db.prepare(`
+      INSERT OR IGNORE INTO change_log_entities (change_id, entity_id, entity_name) VALUES (?, ?, ?)
+    `);
+    for (const entity of [...after.entities, ...before.entities]) {
+      touched.run(id, entity.id, entity.name);
+    }
+    
+    return id;
+  }
+
+  // Put the entities of a change back into their before state. Document chunk links are restored as a difference,
+  // so links made since by document tools are kept
+  private async restoreSnapshot(before: GraphSnapshot, after: GraphSnapshot): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const beforeIds = new Set(before.entities.map(entity => entity.id));
+    const touched = [...new Set([...beforeIds, ...after.entities.map(entity => entity.id)])];
+    const placeholders = touched.map(() => '?').join(',');
+    const relationshipIds = [...new Set([...before.relationships, ...after.relationships].map(rel => rel.id))];
+    
+    // Observations to restore are written over their current row, so only those whose text differs need a new vector
+    const observationText = this.db.prepare(`SELECT text FROM observations WHERE id = ?`);
+    const reembedObservations = before.observations
+      .filter(observation => (observationText.get(observation.id) as { text: string } | undefined)?.text !== observation.text)
+      .map(observation => observation.id);
+    const restoredObservations = new Set(before.observations.map(observation => observation.id));
+    
+    // Clear the facts of the touched entities, and any row that has since taken an ID or alias to be restored
+    this.db.prepare(`
+      DELETE FROM relationships WHERE source_entity IN (${placeholders}) OR target_entity IN (${placeholders})
+    `).run(...touched, ...touched);
+    const deleteObservation = this.db.prepare(`DELETE FROM observations WHERE id = ?`);
+    (this.db.prepare(`SELECT id FROM observations WHERE entity_id IN (${placeholders})`).all(...touched) as Array<{ id: number }>)
+      .filter(observation => !restoredObservations.has(observation.id))
+      .forEach(observation => deleteObservation.run(observation.id));
+    this.db.prepare(`DELETE FROM entity_aliases WHERE entity_id IN (${placeholders})`).run(...touched);
+    
+    const deleteRelationship = this.db.prepare(`DELETE FROM relationships WHERE id = ?`);
+    const deleteAlias = this.db.prepare(`DELETE FROM entity_aliases WHERE alias = ?`);
+    before.relationships.forEach(rel => deleteRelationship.run(rel.id));
+    before.entities.forEach(entity => entity.aliases.forEach(alias => deleteAlias.run(alias)));
+    
+    // Entities the change created
+    for (const entityId of touched.filter(id => !beforeIds.has(id))) {
+      const embeddingMetadata = this.db.prepare(`
+        SELECT rowid FROM entity_embedding_metadata WHERE entity_id = ?
+      `).get(entityId) as { rowid: number } | undefined;
+      if (embeddingMetadata) {
+        this.db.prepare(`DELETE FROM entity_embeddings WHERE rowid = ?`).run(BigInt(embeddingMetadata.rowid));
+        this.db.prepare(`DELETE FROM entity_embedding_metadata WHERE entity_id = ?`).run(entityId);
+      }
+      this.db.prepare(`DELETE FROM entities WHERE id = ?`).run(entityId);
+    }
+    
+    for (const { aliases, chunkLinks, ...entity } of before.entities) {
+      this.restoreRow('entities', entity);
+      const addAlias = this.db.prepare(`INSERT OR REPLACE INTO entity_aliases (alias, entity_id) VALUES (?, ?)`);
+      aliases.forEach(alias => addAlias.run(alias, entity.id));
+    }
+    before.observations.forEach(observation => this.restoreRow('observations', observation));
+    
+    const entityExists = this.db.prepare(`SELECT 1 FROM entities WHERE id = ?`);
+    for (const rel of before.relationships) {
+      if (!entityExists.get(rel.source_entity) || !entityExists.get(rel.target_entity)) {
+        console.warn(`⚠️ Relationship ${rel.id} not restored, one of its entities no longer exists`);
+        continue;
+      }
+      this.restoreRow('relationships', rel);
+    }
+    
+    // Links the change added are removed, links it removed come back if their chunk still exists
+    const linksIn = (snapshot: GraphSnapshot, entityId: string) =>
+      new Set(snapshot.entities.find(entity => entity.id === entityId)?.chunkLinks ?? []);
+    const unlink = this.db.prepare(`DELETE FROM chunk_entities WHERE chunk_rowid = ? AND entity_id = ?`);
+    const link = this.db.prepare(`
+      INSERT OR IGNORE INTO chunk_entities (chunk_rowid, entity_id)
+      SELECT ?, ? WHERE EXISTS (SELECT 1 FROM chunk_metadata WHERE rowid = ?)
+    `);
+    for (const entity of after.entities) {
+      const restored = linksIn(before, entity.id);
+      entity.chunkLinks.filter(rowid => !restored.has(rowid)).forEach(rowid => unlink.run(rowid, entity.id));
+    }
+    for (const entity of before.entities) {
+      const current = linksIn(after, entity.id);
+      entity.chunkLinks.filter(rowid => !current.has(rowid)).forEach(rowid => link.run(rowid, entity.id, rowid));
+    }
+    
+    // Vectors and KG chunks follow the restored rows
+    for (const entity of before.entities) {
+      await this.embedEntity(entity.id);
+    }
+    for (const observationId of reembedObservations) {
+      await this.embedObservation(observationId);
+    }
+    await this.refreshKnowledgeGraphChunks(touched, relationshipIds);
+  }
+
+  // Write a row recorded in a snapshot back, replacing the current row with the same ID
+  private restoreRow(table: 'entities' | 'observations' | 'relationships', row: Record<string, unknown>): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const columns = Object.keys(row);
+    this.db.prepare(`
+      INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+      ON CONFLICT(id) DO UPDATE SET ${columns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`).join(', ')}
+    `).run(...columns.map(column => row[column]));
   }
 
   // === MIGRATION TOOLS ===
@@ -1984,124 +5027,348 @@ class RAGKnowledgeGraphManager {
   }
 }
 
-// Initialize the manager
-const ragKgManager = new RAGKnowledgeGraphManager();
-
-// MCP Server setup
-const server = new Server({
-  name: "rag-memory-server",
-  version: "1.0.0",
-}, {
-    capabilities: {
-      tools: {},
-    },
+// Initialize the manager with the embedding provider selected through environment variables
+const embeddingConfig = loadEmbeddingConfig();
+const ragKgManager = new RAGKnowledgeGraphManager(createEmbeddingProvider(embeddingConfig), {
+  // Only the default local model falls back, explicitly configured providers fail loudly
+  fallbackEmbeddingProvider: embeddingConfig.fallback && embeddingConfig.provider === 'transformers'
+    ? new DeterministicEmbeddingProvider(embeddingConfig.dimensions)
+    : undefined
 });
 
-// Use our new structured tool system for listing tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  const tools = getAllMCPTools();
-  console.error(`📋 Serving ${tools.length} tools with comprehensive documentation`);
-  return { tools };
-});
+// Subscriptions of every connected session; a change made through any session is notified to all of them
+const resourceSubscriptions = new Set<ResourceSubscriptions>();
+
+function notifyResourceChanges(): void {
+  for (const subscriptions of resourceSubscriptions) {
+    void subscriptions.check();
+  }
+}
+
+// MCP server for one client session. Sessions share the manager, so one process serves them all from one database
+function createServer(): Server {
+  const server = new Server({
+    name: "rag-memory-server",
+    version: "1.0.0",
+  }, {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
+  });
+
+  const subscriptions = new ResourceSubscriptions(ragKgManager, {
+    resourceUpdated: uri => server.sendResourceUpdated({ uri }),
+    resourceListChanged: () => server.sendResourceListChanged()
+  });
+  resourceSubscriptions.add(subscriptions);
+  server.onclose = () => {
+    resourceSubscriptions.delete(subscriptions);
+  };
+
+  // Use our new structured tool system for listing tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const tools = getAllMCPTools();
+    console.error(`📋 Serving ${tools.length} tools with comprehensive documentation`);
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => handleToolCall(request, jobControl(server, request, extra)));
+
+  // Memory browsable as memory:// resources: entities, documents, chunks and the graph statistics
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await ragKgManager.withReadLock(() => ragKgManager.listResources(request.params?.cursor));
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: memoryResourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await ragKgManager.withReadLock(() => ragKgManager.readResource(request.params.uri))] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Built-in prompts for memory workflows, pre-filled from the database
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listMemoryPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await ragKgManager.withReadLock(() => getMemoryPrompt(request.params.name, request.params.arguments ?? {}, ragKgManager));
+  });
+
+  return server;
+}
+
+// Long-running tools stop when the client cancels the request, and report progress when it asked for it with a progress token
+function jobControl(server: Server, request: CallToolRequest, extra: RequestHandlerExtra): JobControl {
+  const progressToken = request.params._meta?.progressToken;
+  return {
+    signal: extra.signal,
+    onProgress: progressToken === undefined ? undefined : (progress, total) => server.notification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total }
+    })
+  };
+}
 
 // Enhanced tool call handler with validation
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function handleToolCall(request: CallToolRequest, control: JobControl = {}): Promise<CallToolResult> {
   const { name, arguments: args } = request.params;
 
   if (!args) {
     throw new Error(`No arguments provided for tool: ${name}`);
   }
 
+  const changesBefore = ragKgManager.changeCount();
   try {
     // Validate arguments using our structured schema
     const validatedArgs = validateToolArgs(name, args);
     
-    switch (name) {
-      // Original MCP tools
-      case "createEntities":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.createEntities((validatedArgs as any).entities as Entity[]), null, 2) }] };
-      case "createRelations":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.createRelations((validatedArgs as any).relations as Relation[]), null, 2) }] };
-      case "addObservations":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.addObservations((validatedArgs as any).observations as { entityName: string; contents: string[] }[]), null, 2) }] };
-      case "deleteEntities":
-        await ragKgManager.deleteEntities((validatedArgs as any).entityNames as string[]);
-        return { content: [{ type: "text", text: "Entities deleted successfully" }] };
-      case "deleteObservations":
-        await ragKgManager.deleteObservations((validatedArgs as any).deletions as { entityName: string; observations: string[] }[]);
-        return { content: [{ type: "text", text: "Observations deleted successfully" }] };
-      case "deleteRelations":
-        await ragKgManager.deleteRelations((validatedArgs as any).relations as Relation[]);
-        return { content: [{ type: "text", text: "Relations deleted successfully" }] };
-      case "readGraph":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.readGraph(), null, 2) }] };
-      case "searchNodes":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.searchNodes((validatedArgs as any).query as string, (validatedArgs as any).limit || 10), null, 2) }] };
-      case "openNodes":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.openNodes((validatedArgs as any).names as string[]), null, 2) }] };
-      
-      // New RAG tools
-      case "storeDocument":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.storeDocument((validatedArgs as any).id as string, (validatedArgs as any).content as string, (validatedArgs as any).metadata || {}), null, 2) }] };
-      case "chunkDocument":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.chunkDocument((validatedArgs as any).documentId as string, { maxTokens: (validatedArgs as any).maxTokens, overlap: (validatedArgs as any).overlap }), null, 2) }] };
-      case "embedChunks":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.embedChunks((validatedArgs as any).documentId as string), null, 2) }] };
-      case "extractTerms":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.extractTerms((validatedArgs as any).documentId as string, { minLength: (validatedArgs as any).minLength, includeCapitalized: (validatedArgs as any).includeCapitalized, customPatterns: (validatedArgs as any).customPatterns }), null, 2) }] };
-      case "linkEntitiesToDocument":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.linkEntitiesToDocument((validatedArgs as any).documentId as string, (validatedArgs as any).entityNames as string[]), null, 2) }] };
-      case "hybridSearch":
-        const limit = typeof (validatedArgs as any).limit === 'number' ? (validatedArgs as any).limit : 5;
-        const useGraph = (validatedArgs as any).useGraph !== false;
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.hybridSearch((validatedArgs as any).query as string, limit, useGraph), null, 2) }] };
-      case "getDetailedContext":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getDetailedContext((validatedArgs as any).chunkId as string, (validatedArgs as any).includeSurrounding !== false), null, 2) }] };
-      case "getKnowledgeGraphStats":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getKnowledgeGraphStats(), null, 2) }] };
-      case "deleteDocuments":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.deleteDocuments((validatedArgs as any).documentIds as string | string[]), null, 2) }] };
-      case "listDocuments":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.listDocuments((validatedArgs as any).includeMetadata !== false), null, 2) }] };
-      
-      // NEW: Entity embedding tools
-      case "embedAllEntities":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.embedAllEntities(), null, 2) }] };
-      
-      // NEW: Migration tools
-      case "getMigrationStatus":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getMigrationStatus(), null, 2) }] };
-      case "runMigrations":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.runMigrations(), null, 2) }] };
-      case "rollbackMigration":
-        return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.rollbackMigration((validatedArgs as any).targetVersion as number), null, 2) }] };
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    // Tools that may write run one at a time, whichever session called them; the others never see their uncommitted changes
+    if (READ_ONLY_TOOLS.has(name)) {
+      return await ragKgManager.withReadLock(() => callTool(name, validatedArgs, control));
     }
+    return await ragKgManager.withWriteLock(() => callTool(name, validatedArgs, control));
   } catch (error) {
     if (error instanceof Error) {
       console.error(`❌ Tool execution error for ${name}:`, error.message);
       return { content: [{ type: "text", text: `Error: ${error.message}` }] };
     }
     throw error;
+  } finally {
+    // Notify subscribers of whatever the tool changed; calls that wrote nothing cannot have changed a resource
+    if (!READ_ONLY_TOOLS.has(name) && ragKgManager.changeCount() !== changesBefore) {
+      notifyResourceChanges();
+    }
   }
-});
+}
+
+// Run a tool with validated arguments
+async function callTool(name: string, validatedArgs: unknown, control: JobControl): Promise<CallToolResult> {
+  switch (name) {
+    // Original MCP tools; the ones that change the graph are recorded in the change log
+    case "createEntities":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.createEntities((validatedArgs as any).entities as Entity[])), null, 2) }] };
+    case "createRelations":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.createRelations((validatedArgs as any).relations as Relation[])), null, 2) }] };
+    case "addObservations":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.addObservations((validatedArgs as any).observations as { entityName: string; contents: string[]; source?: string; confidence?: number; validFrom?: string }[])), null, 2) }] };
+    case "updateObservation":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.updateObservation((validatedArgs as any).id as number, {
+        text: (validatedArgs as any).text,
+        source: (validatedArgs as any).source,
+        confidence: (validatedArgs as any).confidence
+      })), null, 2) }] };
+    case "invalidate":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.invalidate({
+        relations: (validatedArgs as any).relations,
+        observationIds: (validatedArgs as any).observationIds
+      }, (validatedArgs as any).validTo)), null, 2) }] };
+    case "listObservations":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.listObservations((validatedArgs as any).entityNames as string[]), null, 2) }] };
+    case "updateEntity":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.updateEntity((validatedArgs as any).name as string, {
+        newName: (validatedArgs as any).newName,
+        entityType: (validatedArgs as any).entityType
+      })), null, 2) }] };
+    case "updateRelation":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.updateRelation((validatedArgs as any) as Relation)), null, 2) }] };
+    case "deleteEntities":
+      await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.deleteEntities((validatedArgs as any).entityNames as string[]));
+      return { content: [{ type: "text", text: "Entities deleted successfully" }] };
+    case "deleteObservations":
+      await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.deleteObservations(
+        (validatedArgs as any).deletions as { entityName: string; observations: string[] }[] | undefined,
+        (validatedArgs as any).observationIds as number[] | undefined
+      ));
+      return { content: [{ type: "text", text: "Observations deleted successfully" }] };
+    case "deleteRelations":
+      await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.deleteRelations((validatedArgs as any).relations as Relation[]));
+      return { content: [{ type: "text", text: "Relations deleted successfully" }] };
+    case "readGraph":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.readGraph({
+        cursor: (validatedArgs as any).cursor,
+        limit: (validatedArgs as any).limit,
+        entityTypes: (validatedArgs as any).entityTypes,
+        relationTypes: (validatedArgs as any).relationTypes,
+        namePrefix: (validatedArgs as any).namePrefix,
+        createdAfter: (validatedArgs as any).createdAfter,
+        createdBefore: (validatedArgs as any).createdBefore,
+        includeObservations: (validatedArgs as any).includeObservations,
+        summary: (validatedArgs as any).summary,
+        asOf: (validatedArgs as any).asOf
+      }), null, 2) }] };
+    case "searchNodes":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.searchNodes((validatedArgs as any).query as string, (validatedArgs as any).limit || 10, (validatedArgs as any).filter, (validatedArgs as any).asOf), null, 2) }] };
+    case "traverseGraph":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.traverseGraph((validatedArgs as any).startEntities as string[], {
+        maxDepth: (validatedArgs as any).maxDepth,
+        direction: (validatedArgs as any).direction,
+        relationTypes: (validatedArgs as any).relationTypes,
+        entityTypes: (validatedArgs as any).entityTypes,
+        maxNodes: (validatedArgs as any).maxNodes,
+        asOf: (validatedArgs as any).asOf
+      }), null, 2) }] };
+    case "findPaths":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.findPaths((validatedArgs as any).from as string, (validatedArgs as any).to as string, {
+        maxDepth: (validatedArgs as any).maxDepth,
+        direction: (validatedArgs as any).direction,
+        relationTypes: (validatedArgs as any).relationTypes,
+        k: (validatedArgs as any).k,
+        weighted: (validatedArgs as any).weighted,
+        asOf: (validatedArgs as any).asOf
+      }), null, 2) }] };
+    case "addAliases":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.addAliases((validatedArgs as any).aliases as { entityName: string; aliases: string[] }[])), null, 2) }] };
+    case "removeAliases":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.removeAliases((validatedArgs as any).aliases as { entityName: string; aliases: string[] }[])), null, 2) }] };
+    case "findDuplicateEntities":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.findDuplicateEntities({
+        threshold: (validatedArgs as any).threshold,
+        limit: (validatedArgs as any).limit,
+        entityTypes: (validatedArgs as any).entityTypes,
+        entityNames: (validatedArgs as any).entityNames
+      }), null, 2) }] };
+    case "mergeEntities":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.withChangeLog(name, validatedArgs, () => ragKgManager.mergeEntities((validatedArgs as any).target as string, (validatedArgs as any).sources as string[])), null, 2) }] };
+    case "openNodes":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.openNodes((validatedArgs as any).names as string[], (validatedArgs as any).asOf), null, 2) }] };
+    case "getHistory":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getHistory({
+        entityName: (validatedArgs as any).entityName,
+        limit: (validatedArgs as any).limit,
+        beforeId: (validatedArgs as any).beforeId,
+        includeState: (validatedArgs as any).includeState
+      }), null, 2) }] };
+    case "undo":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.undo((validatedArgs as any).steps), null, 2) }] };
+    case "revertTo":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.revertTo((validatedArgs as any).changeId as number), null, 2) }] };
+    
+    // New RAG tools
+    case "storeDocument":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.storeDocument((validatedArgs as any).id as string, (validatedArgs as any).content as string, (validatedArgs as any).metadata || {}), null, 2) }] };
+    case "chunkDocument":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.chunkDocument((validatedArgs as any).documentId as string, { maxTokens: (validatedArgs as any).maxTokens, overlap: (validatedArgs as any).overlap, strategy: (validatedArgs as any).strategy }), null, 2) }] };
+    case "embedChunks":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.embedChunks((validatedArgs as any).documentId as string, control), null, 2) }] };
+    case "extractTerms":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.extractTerms((validatedArgs as any).documentId as string, { minLength: (validatedArgs as any).minLength, includeCapitalized: (validatedArgs as any).includeCapitalized, customPatterns: (validatedArgs as any).customPatterns }), null, 2) }] };
+    case "linkEntitiesToDocument":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.linkEntitiesToDocument((validatedArgs as any).documentId as string, (validatedArgs as any).entityNames as string[], (validatedArgs as any).chunkIds as string[] | undefined), null, 2) }] };
+    case "getEntityChunkLinks":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getEntityChunkLinks({ entityNames: (validatedArgs as any).entityNames, documentId: (validatedArgs as any).documentId }), null, 2) }] };
+    case "ingestDocument":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.ingestDocument((validatedArgs as any).id as string, (validatedArgs as any).content as string, (validatedArgs as any).metadata || {}, {
+        strategy: (validatedArgs as any).strategy,
+        maxTokens: (validatedArgs as any).maxTokens,
+        overlap: (validatedArgs as any).overlap,
+        extractTerms: (validatedArgs as any).extractTerms,
+        createEntities: (validatedArgs as any).createEntities,
+        linkEntities: (validatedArgs as any).linkEntities,
+        entityType: (validatedArgs as any).entityType,
+        minLength: (validatedArgs as any).minLength,
+        includeCapitalized: (validatedArgs as any).includeCapitalized,
+        customPatterns: (validatedArgs as any).customPatterns
+      }), null, 2) }] };
+    case "hybridSearch":
+      const limit = typeof (validatedArgs as any).limit === 'number' ? (validatedArgs as any).limit : 5;
+      const useGraph = (validatedArgs as any).useGraph !== false;
+      const lexicalWeight = typeof (validatedArgs as any).lexicalWeight === 'number' ? (validatedArgs as any).lexicalWeight : undefined;
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.hybridSearch((validatedArgs as any).query as string, limit, useGraph, lexicalWeight, (validatedArgs as any).filter, (validatedArgs as any).asOf), null, 2) }] };
+    case "getDetailedContext":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getDetailedContext((validatedArgs as any).chunkId as string, (validatedArgs as any).includeSurrounding !== false), null, 2) }] };
+    case "getKnowledgeGraphStats":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getKnowledgeGraphStats(), null, 2) }] };
+    case "deleteDocuments":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.deleteDocuments((validatedArgs as any).documentIds as string | string[]), null, 2) }] };
+    case "listDocuments":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.listDocuments((validatedArgs as any).includeMetadata !== false), null, 2) }] };
+    
+    // NEW: Entity embedding tools
+    case "embedAllEntities":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.embedAllEntities(control), null, 2) }] };
+    case "reembedStale":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.reembedStale((validatedArgs as any).dryRun === true, control), null, 2) }] };
+    
+    // NEW: Migration tools
+    case "verifyIndexIntegrity":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.verifyIndexIntegrity({
+        repair: (validatedArgs as any).repair === true,
+        checkAlignment: (validatedArgs as any).checkAlignment === true
+      }, control), null, 2) }] };
+    case "generateKnowledgeGraphChunks":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.generateKnowledgeGraphChunks(), null, 2) }] };
+    case "embedKnowledgeGraphChunks":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.embedKnowledgeGraphChunks(control), null, 2) }] };
+    case "getMigrationStatus":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.getMigrationStatus(), null, 2) }] };
+    case "runMigrations":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.runMigrations(), null, 2) }] };
+    case "migrateEmbeddingDimensions":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.migrateEmbeddingDimensions((validatedArgs as any).dryRun === true, control), null, 2) }] };
+    case "rollbackMigration":
+      return { content: [{ type: "text", text: JSON.stringify(await ragKgManager.rollbackMigration((validatedArgs as any).targetVersion as number), null, 2) }] };
+    
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
 
 async function main() {
   try {
+    const transportConfig = loadTransportConfig();
+    
     await ragKgManager.initialize();
     
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("🚀 Enhanced RAG Knowledge Graph MCP Server running on stdio");
+    // Commits by other processes sharing the database file only show up in its data_version
+    let dataVersion = ragKgManager.dataVersion();
+    setInterval(() => {
+      const current = ragKgManager.dataVersion();
+      if (current !== dataVersion) {
+        dataVersion = current;
+        notifyResourceChanges();
+      }
+    }, RESOURCE_POLL_INTERVAL_MS).unref();
+    
+    let httpServer: HttpMcpServer | undefined;
+    if (transportConfig.transport === 'http') {
+      httpServer = await startHttpServer(createServer, transportConfig);
+      console.error(`🚀 Enhanced RAG Knowledge Graph MCP Server running on http://${transportConfig.host}:${transportConfig.port} (SSE at /sse, health at /health)`);
+    } else {
+      const transport = new StdioServerTransport();
+      await createServer().connect(transport);
+      console.error("🚀 Enhanced RAG Knowledge Graph MCP Server running on stdio");
+    }
     
-    // Cleanup on exit
-    process.on('SIGINT', () => {
+    // Cleanup on exit: open HTTP sessions are ended before the database is closed
+    let shuttingDown = false;
+    const shutdown = async () => {
+      if (shuttingDown) return;
+      shuttingDown = true;
       console.error('\n🧹 Cleaning up...');
+      try {
+        await httpServer?.close();
+      } catch (error) {
+        console.error('❌ Failed to close HTTP sessions:', error);
+      }
       ragKgManager.cleanup();
       process.exit(0);
-    });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
     
   } catch (error) {
     console.error("Failed to initialize server:", error);
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { get_encoding } from 'tiktoken';
+import { chunkByStrategy, CHUNKING_STRATEGIES, TextChunk } from './chunking-strategies.js';
+
+const tokenizer = get_encoding('cl100k_base');
+
+const SAMPLES: Record<string, string> = {
+  prose: [
+    'The quick brown fox jumps over the lazy dog. "Is it quick?" she asked! It was.',
+    '',
+    'A second paragraph follows the first one.   It has trailing spaces.\t',
+    '',
+    '',
+    'Third paragraph, with Windows line endings.\r\nStill the third paragraph.'
+  ].join('\n'),
+  unicode: 'Café déjà vu. 日本語のテキストも分割できる。 Emoji 🚀🚀🚀 and flags 🇯🇵🇬🇧 survive!\n\nЗдравствуйте, мир. 👩‍👩‍👧‍👦 family.',
+  markdown: [
+    '# Title',
+    '',
+    'Intro paragraph under the title.',
+    '',
+    '## Section A',
+    '',
+    'Text in section A.',
+    '',
+    '```ts',
+    '# not a heading inside a fence',
+    'const x = 1;',
+    '```',
+    '',
+    '### Sub A.1',
+    'Nested text with ünïcödé.',
+    '',
+    '## Section B ##',
+    'Closing text.'
+  ].join('\n'),
+  code: [
+    'import { x } from "y";',
+    '',
+    '// Adds numbers',
+    'export function add(a: number, b: number): number {',
+    '  return a + b;',
+    '}',
+    '',
+    '/**',
+    ' * A class with a decorator.',
+    ' */',
+    '@sealed',
+    'export class Counter {',
+    '  private count = 0;',
+    '  increment() { this.count++; }',
+    '}',
+    '',
+    'def helper():',
+    '    return "snake 🐍"'
+  ].join('\n')
+};
+
+function assertOffsets(text: string, chunks: TextChunk[]) {
+  for (const chunk of chunks) {
+    assert.equal(text.slice(chunk.start, chunk.end), chunk.text);
+    assert.ok(chunk.start >= 0 && chunk.end <= text.length, `chunk [${chunk.start}, ${chunk.end}) is out of bounds`);
+    assert.ok(chunk.end > chunk.start, 'chunk is empty');
+  }
+  for (let i = 1; i < chunks.length; i++) {
+    assert.ok(chunks[i].start >= chunks[i - 1].start, 'chunks are out of order');
+  }
+}
+
+describe('chunkByStrategy', () => {
+  for (const strategy of CHUNKING_STRATEGIES) {
+    for (const [name, text] of Object.entries(SAMPLES)) {
+      for (const options of [{ maxTokens: 512, overlap: 50 }, { maxTokens: 8, overlap: 2 }, { maxTokens: 3, overlap: 0 }]) {
+        it(`${strategy}: ${name} text with maxTokens ${options.maxTokens} keeps text === doc.slice(start, end)`, () => {
+          const chunks = chunkByStrategy(text, strategy, tokenizer, options);
+          assert.ok(chunks.length > 0);
+          assertOffsets(text, chunks);
+        });
+      }
+    }
+  }
+
+  for (const strategy of CHUNKING_STRATEGIES.filter(s => s !== 'tokens')) {
+    it(`${strategy}: returns no chunks for whitespace-only text`, () => {
+      assert.deepEqual(chunkByStrategy(' \n\n \t', strategy, tokenizer, { maxTokens: 10, overlap: 0 }), []);
+    });
+  }
+
+  it('tokens: windows without overlap cover the text contiguously', () => {
+    const text = SAMPLES.unicode;
+    const chunks = chunkByStrategy(text, 'tokens', tokenizer, { maxTokens: 5, overlap: 0 });
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, text.length);
+    for (let i = 1; i < chunks.length; i++) {
+      assert.equal(chunks[i].start, chunks[i - 1].end);
+    }
+  });
+
+  it('tokens: windows with overlap overlap their predecessor', () => {
+    const chunks = chunkByStrategy(SAMPLES.prose, 'tokens', tokenizer, { maxTokens: 10, overlap: 4 });
+    for (let i = 1; i < chunks.length; i++) {
+      assert.ok(chunks[i].start < chunks[i - 1].end);
+    }
+  });
+
+  it('markdown: chunks never cross a heading and record their heading path', () => {
+    const text = SAMPLES.markdown;
+    const chunks = chunkByStrategy(text, 'markdown', tokenizer, { maxTokens: 512, overlap: 0 });
+    assert.deepEqual(chunks.map(c => c.metadata.headingPath), [
+      ['Title'],
+      ['Title', 'Section A'],
+      ['Title', 'Section A', 'Sub A.1'],
+      ['Title', 'Section B']
+    ]);
+    assert.ok(chunks[1].text.includes('# not a heading inside a fence'));
+  });
+
+  it('code: keeps leading comments and decorators with their declaration', () => {
+    const text = SAMPLES.code;
+    const chunks = chunkByStrategy(text, 'code', tokenizer, { maxTokens: 30, overlap: 0 });
+    const counter = chunks.find(c => c.metadata.symbols.includes('Counter'));
+    assert.ok(counter);
+    assert.ok(counter.text.startsWith('/**'));
+    assert.ok(counter.text.includes('@sealed'));
+    assert.deepEqual([...new Set(chunks.flatMap(c => c.metadata.symbols))], ['add', 'Counter', 'helper']);
+  });
+});
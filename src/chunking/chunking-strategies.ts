@@ -0,0 +1,321 @@
+export type ChunkingStrategy = 'tokens' | 'sentences' | 'paragraphs' | 'markdown' | 'code';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['tokens', 'sentences', 'paragraphs', 'markdown', 'code'];
+
+// Minimal tokenizer surface (satisfied by tiktoken's Tiktoken)
+export interface Tokenizer {
+  encode(text: string): Uint32Array;
+  decode_single_token_bytes(token: number): Uint8Array;
+}
+
+export interface ChunkingOptions {
+  maxTokens: number;
+  overlap: number;
+}
+
+// A chunk with character offsets into the original text (text === original.slice(start, end))
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+  metadata: Record<string, any>;
+}
+
+interface TextUnit {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into chunks using the given strategy.
+ * Structure-aware strategies pack whole units (sentences, paragraphs, sections, declarations)
+ * up to maxTokens and only fall back to token windows for units that are too large on their own.
+ */
+export function chunkByStrategy(
+  text: string,
+  strategy: ChunkingStrategy,
+  tokenizer: Tokenizer,
+  options: ChunkingOptions
+): TextChunk[] {
+  const maxTokens = Math.max(1, Math.floor(options.maxTokens));
+  const overlap = Math.max(0, Math.min(Math.floor(options.overlap), maxTokens - 1));
+  const normalized = { maxTokens, overlap };
+
+  switch (strategy) {
+    case 'tokens':
+      return tokenWindows(text, 0, text.length, tokenizer, normalized)
+        .map(unit => toChunk(text, unit, { strategy }));
+    case 'sentences':
+      return packUnits(text, splitAtBoundaries(text, 0, text.length, /[.!?]+["'”’)\]]*\s+|\n[ \t]*\n\s*/g), tokenizer, normalized, { strategy });
+    case 'paragraphs':
+      return packUnits(text, splitAtBoundaries(text, 0, text.length, /\n[ \t]*\n\s*/g), tokenizer, normalized, { strategy });
+    case 'markdown':
+      return chunkMarkdown(text, tokenizer, normalized);
+    case 'code':
+      return chunkCode(text, tokenizer, normalized);
+    default:
+      throw new Error(`Unknown chunking strategy: ${strategy}`);
+  }
+}
+
+function toChunk(text: string, unit: TextUnit, metadata: Record<string, any>): TextChunk {
+  return {
+    text: text.slice(unit.start, unit.end),
+    start: unit.start,
+    end: unit.end,
+    metadata
+  };
+}
+
+// Sliding token windows over text[start, end), mapped back to character offsets
+function tokenWindows(text: string, start: number, end: number, tokenizer: Tokenizer, options: ChunkingOptions): TextUnit[] {
+  const segment = text.slice(start, end);
+  const tokens = tokenizer.encode(segment);
+  if (tokens.length === 0) return [];
+
+  // Cumulative byte offset of every token boundary
+  const byteOffsets = [0];
+  for (let i = 0; i < tokens.length; i++) {
+    byteOffsets.push(byteOffsets[i] + tokenizer.decode_single_token_bytes(tokens[i]).length);
+  }
+
+  const bytes = Buffer.from(segment, 'utf8');
+  const toCharOffset = (byteOffset: number): number => {
+    // Token boundaries can fall inside a multi-byte character; snap back to its first byte
+    let b = Math.min(byteOffset, bytes.length);
+    while (b > 0 && b < bytes.length && (bytes[b] & 0xc0) === 0x80) b--;
+    return bytes.subarray(0, b).toString('utf8').length;
+  };
+
+  const windows: TextUnit[] = [];
+  const step = options.maxTokens - options.overlap;
+
+  for (let i = 0; i < tokens.length; i += step) {
+    const windowStart = start + toCharOffset(byteOffsets[i]);
+    const windowEnd = start + toCharOffset(byteOffsets[Math.min(i + options.maxTokens, tokens.length)]);
+    if (windowEnd > windowStart) {
+      windows.push({ start: windowStart, end: windowEnd });
+    }
+  }
+
+  return windows;
+}
+
+// Units between boundary matches, trimmed of surrounding whitespace
+function splitAtBoundaries(text: string, start: number, end: number, boundary: RegExp): TextUnit[] {
+  const units: TextUnit[] = [];
+  const segment = text.slice(start, end);
+  let unitStart = 0;
+
+  const pushUnit = (from: number, to: number) => {
+    const unit = trimUnit(text, start + from, start + to);
+    if (unit) {
+      units.push(unit);
+    }
+  };
+
+  for (const match of segment.matchAll(boundary)) {
+    const matchEnd = match.index! + match[0].length;
+    pushUnit(unitStart, matchEnd);
+    unitStart = matchEnd;
+  }
+  pushUnit(unitStart, segment.length);
+
+  return units;
+}
+
+function trimUnit(text: string, start: number, end: number): TextUnit | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+// Greedily pack consecutive units into chunks of at most maxTokens, carrying trailing units as overlap
+function packUnits(
+  text: string,
+  units: TextUnit[],
+  tokenizer: Tokenizer,
+  options: ChunkingOptions,
+  metadata: Record<string, any>
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: Array<TextUnit & { tokens: number }> = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push(toChunk(text, { start: current[0].start, end: current[current.length - 1].end }, metadata));
+  };
+
+  for (const unit of units) {
+    const tokens = tokenizer.encode(text.slice(unit.start, unit.end)).length;
+
+    if (tokens > options.maxTokens) {
+      flush();
+      current = [];
+      currentTokens = 0;
+      for (const window of tokenWindows(text, unit.start, unit.end, tokenizer, options)) {
+        chunks.push(toChunk(text, window, metadata));
+      }
+      continue;
+    }
+
+    if (current.length > 0 && currentTokens + tokens > options.maxTokens) {
+      flush();
+
+      // Carry the trailing units that fit into the overlap budget
+      const carried: typeof current = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        if (carriedTokens + current[i].tokens > options.overlap) break;
+        carried.unshift(current[i]);
+        carriedTokens += current[i].tokens;
+      }
+      if (carriedTokens + tokens > options.maxTokens) {
+        carried.length = 0;
+        carriedTokens = 0;
+      }
+
+      current = carried;
+      currentTokens = carriedTokens;
+    }
+
+    current.push({ ...unit, tokens });
+    currentTokens += tokens;
+  }
+
+  flush();
+  return chunks;
+}
+
+// Heading-aware chunking: chunks never cross a heading and record the heading path they belong to
+function chunkMarkdown(text: string, tokenizer: Tokenizer, options: ChunkingOptions): TextChunk[] {
+  const sections: Array<{ headingPath: string[]; blocks: TextUnit[] }> = [{ headingPath: [], blocks: [] }];
+  const headingStack: Array<{ level: number; title: string }> = [];
+
+  let fence: string | null = null;
+  let blockStart: number | null = null;
+  let blockEnd = 0;
+
+  const closeBlock = () => {
+    if (blockStart !== null) {
+      sections[sections.length - 1].blocks.push({ start: blockStart, end: blockEnd });
+      blockStart = null;
+    }
+  };
+
+  for (const line of lines(text)) {
+    const content = text.slice(line.start, line.end);
+
+    if (fence) {
+      blockEnd = line.end;
+      if (content.trim().startsWith(fence)) {
+        fence = null;
+        closeBlock();
+      }
+      continue;
+    }
+
+    const fenceMatch = content.match(/^\s*(```+|~~~+)/);
+    if (fenceMatch) {
+      closeBlock();
+      fence = fenceMatch[1];
+      blockStart = line.start;
+      blockEnd = line.end;
+      continue;
+    }
+
+    const headingMatch = content.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (headingMatch) {
+      closeBlock();
+      const level = headingMatch[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title: headingMatch[2] });
+      sections.push({ headingPath: headingStack.map(h => h.title), blocks: [{ start: line.start, end: line.end }] });
+      continue;
+    }
+
+    if (content.trim().length === 0) {
+      closeBlock();
+      continue;
+    }
+
+    if (blockStart === null) {
+      blockStart = line.start;
+    }
+    blockEnd = line.end;
+  }
+  closeBlock();
+
+  return sections
+    .filter(section => section.blocks.length > 0)
+    .flatMap(section => packUnits(text, section.blocks, tokenizer, options, {
+      strategy: 'markdown',
+      headingPath: section.headingPath
+    }));
+}
+
+const CODE_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub(?:\([^)]*\))?\s+)?(?:function\*?|class|interface|type|enum|const|let|var|def|fn|func|struct|impl|trait|module|namespace)\b\s*([A-Za-z_$][\w$]*)?/;
+const CODE_PREAMBLE = /^(?:\s*(?:\/\/|#|\/\*|\*)|@)/;
+
+// Declaration-aware chunking: top-level functions/classes (with their leading comments) stay together
+function chunkCode(text: string, tokenizer: Tokenizer, options: ChunkingOptions): TextChunk[] {
+  const allLines = lines(text);
+  const boundaries: number[] = [];
+
+  allLines.forEach((line, index) => {
+    if (!CODE_DECLARATION.test(text.slice(line.start, line.end))) return;
+
+    // Attach directly preceding comments and decorators to the declaration
+    let first = index;
+    while (first > 0 && CODE_PREAMBLE.test(text.slice(allLines[first - 1].start, allLines[first - 1].end))) {
+      first--;
+    }
+    if (boundaries.length === 0 || first > boundaries[boundaries.length - 1]) {
+      boundaries.push(first);
+    }
+  });
+
+  if (boundaries[0] !== 0) {
+    boundaries.unshift(0);
+  }
+
+  const units: Array<TextUnit & { symbol?: string }> = [];
+  boundaries.forEach((firstLine, i) => {
+    const lastLine = i + 1 < boundaries.length ? boundaries[i + 1] - 1 : allLines.length - 1;
+    const unit = trimUnit(text, allLines[firstLine].start, allLines[lastLine].end);
+    if (!unit) return;
+
+    const declaration = allLines
+      .slice(firstLine, lastLine + 1)
+      .map(line => text.slice(line.start, line.end).match(CODE_DECLARATION))
+      .find(match => match);
+    units.push({ ...unit, symbol: declaration?.[1] });
+  });
+
+  // Pack declarations, recording the symbols each chunk contains
+  const chunks = packUnits(text, units, tokenizer, options, { strategy: 'code' });
+  return chunks.map(chunk => ({
+    ...chunk,
+    metadata: {
+      ...chunk.metadata,
+      symbols: units
+        .filter(unit => unit.symbol && unit.start < chunk.end && unit.end > chunk.start)
+        .map(unit => unit.symbol)
+    }
+  }));
+}
+
+// Line offsets, excluding the line terminator
+function lines(text: string): TextUnit[] {
+  const result: TextUnit[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/\r?\n/g)) {
+    result.push({ start, end: match.index! });
+    start = match.index! + match[0].length;
+  }
+  result.push({ start, end: text.length });
+  return result;
+}
@@ -0,0 +1,75 @@
+import { EmbeddingProvider } from './types.js';
+
+export const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+export const DEFAULT_OPENAI_API_URL = 'https://api.openai.com/v1';
+
+/**
+ * Embeddings from any server implementing the OpenAI `POST /embeddings` API
+ * (OpenAI, Azure-compatible proxies, Ollama, LM Studio, vLLM, ...).
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  private apiUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+
+  constructor(options: { model: string; dimensions: number; apiUrl: string; apiKey?: string; timeoutMs: number }) {
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  get modelId(): string {
+    return `${this.name}:${this.model}`;
+  }
+
+  async initialize(): Promise<void> {
+    console.error(`🌐 Using OpenAI-compatible embeddings: ${this.model} at ${this.apiUrl}`);
+    
+    // Probe the endpoint so misconfiguration surfaces at startup rather than on first write
+    await this.embed('initialization probe');
+    
+    console.error('✅ Embedding endpoint reachable');
+  }
+
+  async dispose(): Promise<void> {
+    // Stateless HTTP client
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    const response = await fetch(`${this.apiUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: text,
+        dimensions: this.dimensions
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed with status ${response.status}: ${body.substring(0, 200)}`);
+    }
+    
+    const payload = await response.json() as { data?: Array<{ embedding?: number[] }> };
+    const embedding = payload.data?.[0]?.embedding;
+    
+    if (!Array.isArray(embedding)) {
+      throw new Error('Embedding response did not contain data[0].embedding');
+    }
+    if (embedding.length !== this.dimensions) {
+      throw new Error(`Embedding endpoint returned ${embedding.length}-dimensional vectors, ${this.dimensions} configured`);
+    }
+    
+    return new Float32Array(embedding);
+  }
+}
@@ -0,0 +1,57 @@
+import { EmbeddingConfig, EmbeddingProvider, EmbeddingProviderName } from './types.js';
+import { TransformersEmbeddingProvider, DEFAULT_TRANSFORMERS_MODEL } from './transformers-provider.js';
+import { OpenAICompatibleEmbeddingProvider, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_API_URL } from './openai-compatible-provider.js';
+import { DeterministicEmbeddingProvider } from './deterministic-provider.js';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['transformers', 'openai', 'deterministic'];
+
+// Vector size used when EMBEDDING_DIMENSIONS is not set (the size created by the initial schema migration)
+export const DEFAULT_EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Read embedding configuration from environment variables:
+ * EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS, EMBEDDING_API_URL,
+ * EMBEDDING_API_KEY (or OPENAI_API_KEY), EMBEDDING_TIMEOUT_MS, EMBEDDING_FALLBACK.
+ */
+export function loadEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const provider = (env.EMBEDDING_PROVIDER || 'transformers').toLowerCase() as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER '${env.EMBEDDING_PROVIDER}', expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+  
+  const dimensions = env.EMBEDDING_DIMENSIONS ? Number(env.EMBEDDING_DIMENSIONS) : DEFAULT_EMBEDDING_DIMENSIONS;
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS '${env.EMBEDDING_DIMENSIONS}', expected a positive integer`);
+  }
+  
+  const timeoutMs = env.EMBEDDING_TIMEOUT_MS ? parseInt(env.EMBEDDING_TIMEOUT_MS, 10) : 30000;
+  
+  return {
+    provider,
+    model: env.EMBEDDING_MODEL || undefined,
+    dimensions,
+    apiUrl: env.EMBEDDING_API_URL || undefined,
+    apiKey: env.EMBEDDING_API_KEY || env.OPENAI_API_KEY || undefined,
+    timeoutMs: Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : 30000,
+    fallback: env.EMBEDDING_FALLBACK !== 'false'
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'transformers':
+      return new TransformersEmbeddingProvider(config.model || DEFAULT_TRANSFORMERS_MODEL, config.dimensions);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        dimensions: config.dimensions,
+        apiUrl: config.apiUrl || DEFAULT_OPENAI_API_URL,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs
+      });
+    case 'deterministic':
+      return new DeterministicEmbeddingProvider(config.dimensions);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { pipeline, env } from '@huggingface/transformers';
+import { EmbeddingProvider } from './types.js';
+
+// Configure Hugging Face transformers for better compatibility
+if (env.backends?.onnx?.wasm) {
+  env.backends.onnx.wasm.wasmPaths = './node_modules/@huggingface/transformers/dist/';
+}
+
+export const DEFAULT_TRANSFORMERS_MODEL = 'sentence-transformers/all-MiniLM-L12-v2';
+
+/**
+ * Local sentence-transformer embeddings via @huggingface/transformers.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'transformers' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  private extractor: any = null;
+
+  constructor(model: string, dimensions: number) {
+    this.model = model;
+    this.dimensions = dimensions;
+  }
+
+  get modelId(): string {
+    return `${this.name}:${this.model}`;
+  }
+
+  async initialize(): Promise<void> {
+    console.error(`🤖 Loading sentence transformer model: ${this.model}...`);
+    
+    // Configure environment to allow remote model downloads
+    env.allowRemoteModels = true;
+    env.allowLocalModels = true;
+    
+    this.extractor = await pipeline(
+      'feature-extraction',
+      this.model,
+      { 
+        revision: 'main',
+      }
+    );
+    
+    console.error('✅ Sentence transformer model loaded successfully');
+  }
+
+  async dispose(): Promise<void> {
+    this.extractor = null;
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    if (!this.extractor) throw new Error('Embedding model not initialized');
+    
+    const result = await this.extractor(text, { pooling: 'mean', normalize: true });
+    
+    // Extract the embedding array and convert to Float32Array
+    const embedding = result.data as Float32Array;
+    if (embedding.length < this.dimensions) {
+      throw new Error(`Model ${this.model} produces ${embedding.length}-dimensional vectors, ${this.dimensions} configured`);
+    }
+    return new Float32Array(embedding.slice(0, this.dimensions));
+  }
+}
@@ -0,0 +1,29 @@
+// Embedding provider abstraction used by RAGKnowledgeGraphManager
+
+export type EmbeddingProviderName = 'transformers' | 'openai' | 'deterministic';
+
+export interface EmbeddingProvider {
+  /** Provider implementation name */
+  readonly name: EmbeddingProviderName;
+  /** Model used by the provider */
+  readonly model: string;
+  /** Length of the vectors produced by embed() */
+  readonly dimensions: number;
+  /** Stable identifier of the vector space, recorded alongside stored vectors */
+  readonly modelId: string;
+
+  initialize(): Promise<void>;
+  embed(text: string): Promise<Float32Array>;
+  dispose(): Promise<void>;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  dimensions: number;
+  apiUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+  // Fall back to the deterministic provider when the default transformers model cannot be loaded
+  fallback: boolean;
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { allocateEntityId, findEntityIdCollisions, slugEntityId } from './entity-ids.js';
+
+const hashOf = (name: string) => createHash('sha256').update(name).digest('hex').slice(0, 8);
+
+describe('slugEntityId', () => {
+  it('lowercases the name and replaces every other character', () => {
+    assert.equal(slugEntityId('Ada Lovelace'), 'entity_ada_lovelace');
+    assert.equal(slugEntityId('C++'), 'entity_c__');
+    assert.equal(slugEntityId('C--'), 'entity_c__');
+    assert.equal(slugEntityId('C#'), 'entity_c_');
+  });
+});
+
+describe('allocateEntityId', () => {
+  it('keeps the slug when it is free', () => {
+    assert.equal(allocateEntityId('C++', () => false), 'entity_c__');
+  });
+
+  it('disambiguates a taken slug with a hash of the exact name', () => {
+    const taken = new Set(['entity_c__']);
+    const id = allocateEntityId('C--', id => taken.has(id));
+    assert.equal(id, `entity_c___${hashOf('C--')}`);
+    assert.notEqual(id, allocateEntityId('c++', id => taken.has(id)));
+  });
+
+  it('appends a counter when the hashed ID is taken as well', () => {
+    const hashed = `entity_c___${hashOf('C--')}`;
+    const taken = new Set(['entity_c__', hashed, `${hashed}_2`]);
+    assert.equal(allocateEntityId('C--', id => taken.has(id)), `${hashed}_3`);
+  });
+
+  it('gives every colliding name its own ID', () => {
+    const taken = new Set<string>();
+    for (const name of ['C++', 'C--', 'c++', 'C//', 'C__']) {
+      const id = allocateEntityId(name, id => taken.has(id));
+      assert.ok(!taken.has(id), `${name} reused ${id}`);
+      taken.add(id);
+    }
+    assert.equal(taken.size, 5);
+  });
+});
+
+describe('findEntityIdCollisions', () => {
+  it('groups entities whose names share a slug', () => {
+    const entities = [
+      { id: 'entity_c__', name: 'C++' },
+      { id: `entity_c___${hashOf('C--')}`, name: 'C--' },
+      { id: 'entity_rust', name: 'Rust' }
+    ];
+    assert.deepEqual(findEntityIdCollisions(entities), [
+      { slug: 'entity_c__', entities: entities.slice(0, 2) }
+    ]);
+  });
+
+  it('reports nothing when every slug is unique', () => {
+    assert.deepEqual(findEntityIdCollisions([{ id: 'entity_a', name: 'A' }, { id: 'entity_b', name: 'B' }]), []);
+  });
+});
@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+
+/**
+ * The original ID scheme: lowercase the name and replace every other character with '_'.
+ * It is lossy ("C++" and "C--" both become entity_c__), so it is only the preferred ID, not a unique one.
+ */
+export function slugEntityId(name: string): string {
+  return `entity_${name.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+}
+
+/**
+ * Allocate an ID for a new entity. The slug is kept when it is free so existing IDs stay stable;
+ * otherwise a hash of the exact name disambiguates it.
+ */
+export function allocateEntityId(name: string, isTaken: (id: string) => boolean): string {
+  const slug = slugEntityId(name);
+  if (!isTaken(slug)) return slug;
+
+  const hashed = `${slug}_${createHash('sha256').update(name).digest('hex').slice(0, 8)}`;
+  let candidate = hashed;
+  for (let suffix = 2; isTaken(candidate); suffix++) {
+    candidate = `${hashed}_${suffix}`;
+  }
+  return candidate;
+}
+
+export interface EntityIdCollision {
+  slug: string;
+  entities: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Group entities whose names map to the same slug. Such names collided under the original scheme,
+ * where the second entity was silently merged into the first.
+ */
+export function findEntityIdCollisions(entities: Array<{ id: string; name: string }>): EntityIdCollision[] {
+  const bySlug = new Map<string, Array<{ id: string; name: string }>>();
+  for (const entity of entities) {
+    const slug = slugEntityId(entity.name);
+    bySlug.set(slug, [...(bySlug.get(slug) || []), entity]);
+  }
+  return [...bySlug.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([slug, group]) => ({ slug, entities: group }));
+}
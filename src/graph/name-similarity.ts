@@ -0,0 +1,44 @@
+/**
+ * Reduce a name to its lowercase letters and digits, so "React.js", "ReactJS" and "react js" compare equal.
+ */
+export function normalizeEntityName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (1 for equal names, 0 for nothing in common).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeEntityName(a);
+  const right = normalizeEntityName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = bigrams(left);
+  let shared = 0;
+  for (const bigram of bigramList(right)) {
+    const count = leftBigrams.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      leftBigrams.set(bigram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+function bigramList(text: string): string[] {
+  const list: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    list.push(text.slice(i, i + 2));
+  }
+  return list;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const bigram of bigramList(text)) {
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,7 @@
+/**
+ * Key used to deduplicate observations of one entity: case, surrounding and repeated whitespace,
+ * and a trailing full stop are ignored, so "Uses  TypeScript." and "uses typescript" are the same observation.
+ */
+export function observationKey(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').replace(/\.+$/, '').toLowerCase();
+}
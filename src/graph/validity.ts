@@ -0,0 +1,51 @@
+import { CompiledFilter } from '../search/search-filter.js';
+
+/**
+ * Condition selecting the relationships or observations (under the given alias) that held at asOf.
+ * Without asOf, the facts that have not been invalidated are the current ones.
+ */
+export function validAt(alias: string, asOf?: string): CompiledFilter {
+  if (!asOf) return { sql: `${alias}.valid_to IS NULL`, params: [] };
+  return {
+    sql: `datetime(${alias}.valid_from) <= datetime(?) AND (${alias}.valid_to IS NULL OR datetime(${alias}.valid_to) > datetime(?))`,
+    params: [asOf, asOf]
+  };
+}
+
+/**
+ * Condition selecting the entities (under the given alias) known at asOf: recorded by then, or the subject of
+ * an observation or relationship that was already valid (facts can be recorded after they became true).
+ */
+export function existedAt(alias: string, asOf?: string): CompiledFilter {
+  if (!asOf) return { sql: '1 = 1', params: [] };
+  return {
+    sql: `(datetime(${alias}.created_at) <= datetime(?)
+      OR EXISTS (SELECT 1 FROM observations xo WHERE xo.entity_id = ${alias}.id AND datetime(xo.valid_from) <= datetime(?))
+      OR EXISTS (SELECT 1 FROM relationships xr
+        WHERE (xr.source_entity = ${alias}.id OR xr.target_entity = ${alias}.id) AND datetime(xr.valid_from) <= datetime(?)))`,
+    params: [asOf, asOf, asOf]
+  };
+}
+
+/**
+ * Condition over chunk_metadata (alias m) LEFT JOIN documents (alias d): relationship chunks follow their
+ * relationship's validity; with asOf, documents and entities must also have been recorded by then.
+ */
+export function chunkValidAt(asOf?: string): CompiledFilter {
+  const relationship = validAt('vr', asOf);
+  const clauses = [
+    `(m.relationship_id IS NULL OR EXISTS (SELECT 1 FROM relationships vr WHERE vr.id = m.relationship_id AND ${relationship.sql}))`
+  ];
+  const params = [...relationship.params];
+
+  if (asOf) {
+    const entity = existedAt('ve', asOf);
+    clauses.push(
+      `(m.document_id IS NULL OR datetime(d.created_at) <= datetime(?))`,
+      `(m.entity_id IS NULL OR EXISTS (SELECT 1 FROM entities ve WHERE ve.id = m.entity_id AND ${entity.sql}))`
+    );
+    params.push(asOf, ...entity.params);
+  }
+
+  return { sql: clauses.join(' AND '), params };
+}
@@ -7,15 +7,32 @@ export interface Migration {
   down?: (db: Database.Database) => void;
 }
 
+// Oldest SQLite with ALTER TABLE ... DROP COLUMN, which rollbacks use to remove the columns their migration added
+export const MIN_SQLITE_VERSION = '3.35.0';
+
 export class MigrationManager {
   private db: Database.Database;
   private migrations: Migration[] = [];
 
   constructor(db: Database.Database) {
     this.db = db;
+    this.checkSqliteVersion();
     this.initializeMigrationTable();
   }
 
+  private checkSqliteVersion(): void {
+    const { version } = this.db.prepare(`SELECT sqlite_version() AS version`).get() as { version: string };
+    const current = version.split('.').map(Number);
+    const minimum = MIN_SQLITE_VERSION.split('.').map(Number);
+    
+    for (let i = 0; i < minimum.length; i++) {
+      if ((current[i] ?? 0) > minimum[i]) return;
+      if ((current[i] ?? 0) < minimum[i]) {
+        throw new Error(`SQLite ${version} is not supported, migrations need SQLite ${MIN_SQLITE_VERSION} or later`);
+      }
+    }
+  }
+
   private initializeMigrationTable(): void {
     // Create migrations table if it doesn't exist
     this.db.exec(`
@@ -1,4 +1,14 @@
 import { Migration } from './migration-manager.js';
+import { findEntityIdCollisions } from '../graph/entity-ids.js';
+import { DeterministicEmbeddingProvider } from '../embeddings/deterministic-provider.js';
+
+// The model that produced the vectors stored before embedding providers became configurable, apart from
+// the semantic hash vectors it fell back to when the model failed to load
+const BASELINE_EMBEDDING_MODEL = {
+  provider: 'transformers',
+  model: 'sentence-transformers/all-MiniLM-L12-v2',
+  dimensions: 384
+};
 
 export const migrations: Migration[] = [
   {
@@ -150,9 +160,484 @@ export const migrations: Migration[] = [
       `);
     },
     down: (db) => {
-      // SQLite doesn't support dropping columns, so we'd need to recreate the table
-      // For now, we'll just mark this as not reversible
-      throw new Error('This migration cannot be reversed due to SQLite limitations');
+      db.exec(`
+        DROP INDEX IF EXISTS idx_chunk_metadata_type;
+        DROP INDEX IF EXISTS idx_chunk_metadata_entity;
+        DROP INDEX IF EXISTS idx_chunk_metadata_relationship;
+      `);
+      db.exec(`ALTER TABLE chunk_metadata DROP COLUMN relationship_id`);
+      db.exec(`ALTER TABLE chunk_metadata DROP COLUMN entity_id`);
+      db.exec(`ALTER TABLE chunk_metadata DROP COLUMN chunk_type`);
+    }
+  },
+
+  {
+    version: 3,
+    description: 'Embedding provider tracking - record which models produced stored vectors',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS embedding_models (
+          model_id TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          first_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    },
+    down: (db) => {
+      db.exec(`DROP TABLE IF EXISTS embedding_models`);
+    }
+  },
+
+  {
+    version: 4,
+    description: 'Embedding provenance - tag every stored vector with the model and dimension that produced it',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chunk_metadata ADD COLUMN embedding_model TEXT
+      `);
+      db.exec(`
+        ALTER TABLE chunk_metadata ADD COLUMN embedding_dimensions INTEGER
+      `);
+      db.exec(`
+        ALTER TABLE entity_embedding_metadata ADD COLUMN embedding_model TEXT
+      `);
+      db.exec(`
+        ALTER TABLE entity_embedding_metadata ADD COLUMN embedding_dimensions INTEGER
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_chunk_metadata_embedding_model ON chunk_metadata(embedding_model);
+        CREATE INDEX IF NOT EXISTS idx_entity_embedding_metadata_model ON entity_embedding_metadata(embedding_model);
+      `);
+
+      // Migration 3 runs in the same upgrade, so no model is recorded yet: existing vectors come from the
+      // baseline model, unless the database was already written by a single recorded model. The baseline
+      // fell back to semantic hash vectors when its model failed to load; those are recognised by recomputing
+      // the hash for the stored text, and are tagged with the deterministic provider so reembedStale replaces them
+      const recorded = db.prepare(`SELECT model_id FROM embedding_models`).all() as Array<{ model_id: string }>;
+      const { provider, model, dimensions } = BASELINE_EMBEDDING_MODEL;
+      const legacyModel = recorded.length === 1 ? recorded[0].model_id : `${provider}:${model}`;
+      const hashProvider = new DeterministicEmbeddingProvider(dimensions);
+
+      const isHashVector = (text: string | null, embedding: Buffer): boolean => {
+        const stored = new Float32Array(embedding.buffer, embedding.byteOffset, embedding.byteLength / 4);
+        const hash = hashProvider.embedSync(text || '');
+        return stored.length === hash.length && stored.every((value, i) => Math.abs(value - hash[i]) < 1e-6);
+      };
+
+      const chunkVectors = db.prepare(`
+        SELECT m.rowid, m.text, c.embedding FROM chunk_metadata m JOIN chunks c ON c.rowid = m.rowid
+      `).all() as Array<{ rowid: number; text: string | null; embedding: Buffer }>;
+      const entityVectors = db.prepare(`
+        SELECT em.rowid, em.embedding_text as text, ee.embedding
+        FROM entity_embedding_metadata em JOIN entity_embeddings ee ON ee.rowid = em.rowid
+      `).all() as Array<{ rowid: number; text: string | null; embedding: Buffer }>;
+
+      const tagChunk = db.prepare(`UPDATE chunk_metadata SET embedding_model = ?, embedding_dimensions = ? WHERE rowid = ?`);
+      const tagEntity = db.prepare(`UPDATE entity_embedding_metadata SET embedding_model = ?, embedding_dimensions = ? WHERE rowid = ?`);
+      const tagged = new Set<string>();
+      const tag = (statement: typeof tagChunk, rowid: number, isHash: boolean) => {
+        const modelId = isHash ? hashProvider.modelId : legacyModel;
+        statement.run(modelId, dimensions, rowid);
+        tagged.add(modelId);
+      };
+
+      for (const row of chunkVectors) {
+        tag(tagChunk, row.rowid, isHashVector(row.text, row.embedding));
+      }
+      for (const row of entityVectors) {
+        tag(tagEntity, row.rowid, isHashVector(row.text, row.embedding));
+      }
+
+      const recordModel = db.prepare(`
+        INSERT OR IGNORE INTO embedding_models (model_id, provider, model, dimensions) VALUES (?, ?, ?, ?)
+      `);
+      if (recorded.length === 0 && tagged.has(legacyModel)) {
+        recordModel.run(legacyModel, provider, model, dimensions);
+      }
+      if (tagged.has(hashProvider.modelId)) {
+        recordModel.run(hashProvider.modelId, hashProvider.name, hashProvider.model, dimensions);
+      }
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_chunk_metadata_embedding_model;
+        DROP INDEX IF EXISTS idx_entity_embedding_metadata_model;
+      `);
+      for (const table of ['chunk_metadata', 'entity_embedding_metadata']) {
+        db.exec(`ALTER TABLE ${table} DROP COLUMN embedding_dimensions`);
+        db.exec(`ALTER TABLE ${table} DROP COLUMN embedding_model`);
+      }
+    }
+  },
+  {
+    version: 5,
+    description: 'Full-text search - FTS5 indexes over chunk text and entity names/observations, kept in sync by triggers',
+    up: (db) => {
+      // External-content index over chunk_metadata.text (rowids match chunk_metadata)
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+          text,
+          content='chunk_metadata',
+          content_rowid='rowid'
+        )
+      `);
+
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS chunk_metadata_fts_insert AFTER INSERT ON chunk_metadata BEGIN
+          INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS chunk_metadata_fts_delete AFTER DELETE ON chunk_metadata BEGIN
+          INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS chunk_metadata_fts_update AFTER UPDATE OF text ON chunk_metadata BEGIN
+          INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+          INSERT INTO chunks_fts(rowid, text) VALUES (new.rowid, new.text);
+        END;
+      `);
+
+      db.exec(`INSERT INTO chunks_fts(chunks_fts) VALUES ('rebuild')`);
+
+      // Entities have TEXT primary keys, so their index stores the id instead of relying on rowids
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS entities_fts USING fts5(
+          entity_id UNINDEXED,
+          name,
+          observations
+        )
+      `);
+
+      // Observations are stored as a JSON array; index the plain text of its items
+      const observationsText = (row: string) => `
+        CASE WHEN json_valid(${row}.observations)
+          THEN (SELECT group_concat(value, ' ') FROM json_each(${row}.observations))
+          ELSE ${row}.observations
+        END`;
+
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entities_fts_insert AFTER INSERT ON entities BEGIN
+          INSERT INTO entities_fts(entity_id, name, observations) VALUES (new.id, new.name, ${observationsText('new')});
+        END;
+        CREATE TRIGGER IF NOT EXISTS entities_fts_delete AFTER DELETE ON entities BEGIN
+          DELETE FROM entities_fts WHERE entity_id = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS entities_fts_update AFTER UPDATE ON entities BEGIN
+          DELETE FROM entities_fts WHERE entity_id = old.id;
+          INSERT INTO entities_fts(entity_id, name, observations) VALUES (new.id, new.name, ${observationsText('new')});
+        END;
+      `);
+
+      db.exec(`
+        INSERT INTO entities_fts(entity_id, name, observations)
+        SELECT e.id, e.name, ${observationsText('e')} FROM entities e
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS chunk_metadata_fts_insert;
+        DROP TRIGGER IF EXISTS chunk_metadata_fts_delete;
+        DROP TRIGGER IF EXISTS chunk_metadata_fts_update;
+        DROP TRIGGER IF EXISTS entities_fts_insert;
+        DROP TRIGGER IF EXISTS entities_fts_delete;
+        DROP TRIGGER IF EXISTS entities_fts_update;
+        DROP TABLE IF EXISTS chunks_fts;
+        DROP TABLE IF EXISTS entities_fts;
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Vector keying - drop the vec0 row whenever its chunk or entity embedding metadata row is deleted',
+    up: (db) => {
+      // Vectors share the rowid of their metadata row; deleting the metadata must not leave an orphaned vector behind
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS chunk_metadata_vector_delete AFTER DELETE ON chunk_metadata BEGIN
+          DELETE FROM chunks WHERE rowid = old.rowid;
+        END;
+        CREATE TRIGGER IF NOT EXISTS entity_embedding_metadata_vector_delete AFTER DELETE ON entity_embedding_metadata BEGIN
+          DELETE FROM entity_embeddings WHERE rowid = old.rowid;
+        END;
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS chunk_metadata_vector_delete;
+        DROP TRIGGER IF EXISTS entity_embedding_metadata_vector_delete;
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Entity aliases - alternative names resolved to their canonical entity, plus a report of entity ID collisions',
+    up: (db) => {
+      // Aliases match case-insensitively, like entity names do when they are resolved
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS entity_aliases (
+          alias TEXT PRIMARY KEY COLLATE NOCASE,
+          entity_id TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
+        )
+      `);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_id)`);
+
+      // Connections that do not enforce foreign keys still drop aliases with their entity
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entities_alias_delete AFTER DELETE ON entities BEGIN
+          DELETE FROM entity_aliases WHERE entity_id = old.id;
+        END;
+      `);
+
+      // IDs used to be derived from names alone, so differently spelled names could share one. Report them; they
+      // need a manual decision (rename, merge or alias), so nothing is changed here
+      const entities = db.prepare(`SELECT id, name FROM entities ORDER BY name`).all() as Array<{ id: string; name: string }>;
+      const collisions = findEntityIdCollisions(entities);
+      if (collisions.length > 0) {
+        console.error(`  ├─ ⚠️ ${collisions.length} entity ID collision(s) found:`);
+        for (const collision of collisions) {
+          console.error(`  │    ${collision.slug}: ${collision.entities.map(entity => `'${entity.name}' (${entity.id})`).join(', ')}`);
+        }
+      } else {
+        console.error(`  ├─ No entity ID collisions found among ${entities.length} entities`);
+      }
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS entities_alias_delete;
+        DROP TABLE IF EXISTS entity_aliases;
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Relationship provenance - record the document, chunk or conversation a relationship came from',
+    up: (db) => {
+      db.exec(`ALTER TABLE relationships ADD COLUMN source TEXT`);
+    },
+    down: (db) => {
+      db.exec(`ALTER TABLE relationships DROP COLUMN source`);
+    }
+  },
+  {
+    version: 9,
+    description: 'Structured observations - one row per observation with its own ID, source, confidence, timestamp and vector',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS observations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          source TEXT,
+          confidence REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          embedding_model TEXT,
+          embedding_dimensions INTEGER,
+          FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE
+        )
+      `);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_id)`);
+
+      // Existing observations keep their order; they have no known source or creation time beyond their entity's
+      const backfilled = db.prepare(`
+        INSERT INTO observations (entity_id, text, created_at)
+        SELECT e.id, obs.value, e.created_at
+        FROM entities e, json_each(e.observations) obs
+        WHERE json_valid(e.observations) AND obs.type = 'text'
+        ORDER BY e.id, obs.key
+      `).run();
+      console.error(`  ├─ Moved ${backfilled.changes} observations into the observations table`);
+
+      // entities.observations stays as a JSON cache of the rows, in ID order, so entity embeddings, the FTS index
+      // and every reader of the column keep working unchanged
+      const refreshCache = (entityId: string) => `
+        UPDATE entities SET observations = (
+          SELECT json_group_array(text) FROM (SELECT text FROM observations WHERE entity_id = ${entityId} ORDER BY id)
+        ) WHERE id = ${entityId};
+      `;
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS observations_cache_insert AFTER INSERT ON observations BEGIN
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS observations_cache_update AFTER UPDATE OF entity_id, text ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS observations_cache_delete AFTER DELETE ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+        END;
+      `);
+
+      // Observation vectors are keyed by observation ID, at the dimension the other vector tables currently have
+      const chunksTable = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'chunks'`).get() as { sql: string } | undefined;
+      const dimensions = chunksTable?.sql.match(/FLOAT\[(\d+)\]/i)?.[1] || '384';
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS observation_embeddings USING vec0(
+          embedding FLOAT[${dimensions}]
+        )
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS observations_vector_delete AFTER DELETE ON observations BEGIN
+          DELETE FROM observation_embeddings WHERE rowid = old.id;
+        END;
+      `);
+
+      // Connections that do not enforce foreign keys still drop observations with their entity
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entities_observation_delete AFTER DELETE ON entities BEGIN
+          DELETE FROM observations WHERE entity_id = old.id;
+        END;
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS entities_observation_delete;
+        DROP TRIGGER IF EXISTS observations_vector_delete;
+        DROP TRIGGER IF EXISTS observations_cache_delete;
+        DROP TRIGGER IF EXISTS observations_cache_update;
+        DROP TRIGGER IF EXISTS observations_cache_insert;
+        DROP TABLE IF EXISTS observation_embeddings;
+        DROP TABLE IF EXISTS observations;
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'Valid time - relationships and observations hold from valid_from until they are invalidated at valid_to',
+    up: (db) => {
+      // Facts recorded so far have been valid since they were recorded
+      for (const table of ['relationships', 'observations']) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN valid_from DATETIME`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN valid_to DATETIME`);
+        db.exec(`UPDATE ${table} SET valid_from = created_at`);
+        db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_valid_to ON ${table}(valid_to)`);
+      }
+
+      // The entities.observations cache only holds observations that have not been invalidated
+      const refreshCache = (entityId: string) => `
+        UPDATE entities SET observations = (
+          SELECT json_group_array(text) FROM (
+            SELECT text FROM observations WHERE entity_id = ${entityId} AND valid_to IS NULL ORDER BY id
+          )
+        ) WHERE id = ${entityId};
+      `;
+      db.exec(`
+        DROP TRIGGER IF EXISTS observations_cache_insert;
+        DROP TRIGGER IF EXISTS observations_cache_update;
+        DROP TRIGGER IF EXISTS observations_cache_delete;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_insert AFTER INSERT ON observations BEGIN
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_update AFTER UPDATE OF entity_id, text, valid_to ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_delete AFTER DELETE ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+        END;
+      `);
+    },
+    down: (db) => {
+      // Invalidated observations would reappear in the cache, so they are removed with the columns
+      db.exec(`DELETE FROM observations WHERE valid_to IS NOT NULL`);
+      db.exec(`DELETE FROM relationships WHERE valid_to IS NOT NULL`);
+
+      const refreshCache = (entityId: string) => `
+        UPDATE entities SET observations = (
+          SELECT json_group_array(text) FROM (SELECT text FROM observations WHERE entity_id = ${entityId} ORDER BY id)
+        ) WHERE id = ${entityId};
+      `;
+      db.exec(`
+        DROP TRIGGER IF EXISTS observations_cache_insert;
+        DROP TRIGGER IF EXISTS observations_cache_update;
+        DROP TRIGGER IF EXISTS observations_cache_delete;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_insert AFTER INSERT ON observations BEGIN
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_update AFTER UPDATE OF entity_id, text ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+          ${refreshCache('new.entity_id')}
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER observations_cache_delete AFTER DELETE ON observations BEGIN
+          ${refreshCache('old.entity_id')}
+        END;
+      `);
+
+      for (const table of ['relationships', 'observations']) {
+        db.exec(`DROP INDEX IF EXISTS idx_${table}_valid_to`);
+        db.exec(`ALTER TABLE ${table} DROP COLUMN valid_to`);
+        db.exec(`ALTER TABLE ${table} DROP COLUMN valid_from`);
+      }
+    }
+  },
+  {
+    version: 11,
+    description: 'Change log - append-only record of knowledge graph mutations with the state before and after',
+    up: (db) => {
+      // before_state and after_state hold snapshots of the touched entities; a change is reverted once a
+      // later 'revert' row points at it
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS change_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operation TEXT NOT NULL,
+          arguments TEXT NOT NULL DEFAULT '{}',
+          before_state TEXT NOT NULL,
+          after_state TEXT NOT NULL,
+          reverts INTEGER REFERENCES change_log(id),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_change_log_reverts ON change_log(reverts)`);
+
+      // Entities a change touched, by ID and by the name they had, so history survives renames and deletions
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS change_log_entities (
+          change_id INTEGER NOT NULL,
+          entity_id TEXT NOT NULL,
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          PRIMARY KEY (change_id, entity_id, entity_name),
+          FOREIGN KEY (change_id) REFERENCES change_log(id)
+        )
+      `);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_change_log_entities_entity ON change_log_entities(entity_id)`);
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_change_log_entities_name ON change_log_entities(entity_name)`);
+
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS change_log_no_update BEFORE UPDATE ON change_log BEGIN
+          SELECT RAISE(ABORT, 'change_log is append-only');
+        END;
+      `);
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS change_log_no_delete BEFORE DELETE ON change_log BEGIN
+          SELECT RAISE(ABORT, 'change_log is append-only');
+        END;
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TRIGGER IF EXISTS change_log_no_update;
+        DROP TRIGGER IF EXISTS change_log_no_delete;
+        DROP TABLE IF EXISTS change_log_entities;
+        DROP TABLE IF EXISTS change_log;
+      `);
     }
   }
-]; 
\ No newline at end of file
+];
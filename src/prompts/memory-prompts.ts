@@ -0,0 +1,224 @@
+import { allTools } from '../tools/tool-registry.js';
+import { PromptArgument, PromptDefinition, PromptMemory, PromptMessage } from './types.js';
+
+// Characters of a conversation or document used as the query for related entities
+const RELATED_ENTITY_QUERY_LENGTH = 2000;
+const RELATED_ENTITY_LIMIT = 15;
+
+/**
+ * A section (e.g. bestPractices) of a tool's registration description, so prompts repeat the guidance the
+ * tools already give instead of keeping their own copy
+ */
+function toolGuidance(toolName: keyof typeof allTools, section = 'bestPractices'): string {
+  const description = allTools[toolName].description();
+  const match = new RegExp(`<${section}>([\\s\\S]*?)</${section}>`).exec(description);
+  return match ? match[1].trim() : '';
+}
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function numberArgument(args: Record<string, string>, name: string, fallback: number): number {
+  if (args[name] === undefined || args[name].trim() === '') return fallback;
+  const value = Number(args[name]);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Argument ${name} must be a number, got ${args[name]}`);
+  }
+  return value;
+}
+
+function listArgument(args: Record<string, string>, name: string): string[] | undefined {
+  const values = args[name]?.split(',').map(value => value.trim()).filter(value => value.length > 0);
+  return values && values.length > 0 ? values : undefined;
+}
+
+async function entityTypesInUse(memory: PromptMemory): Promise<string> {
+  const stats = await memory.getKnowledgeGraphStats();
+  const byType = Object.entries(stats.entities?.by_type ?? {}) as Array<[string, number]>;
+  return byType.length > 0
+    ? byType.map(([type, count]) => `${type} (${count})`).join(', ')
+    : 'none yet';
+}
+
+async function relatedEntities(memory: PromptMemory, text: string): Promise<string> {
+  const { entities } = await memory.searchNodes(text.slice(0, RELATED_ENTITY_QUERY_LENGTH), RELATED_ENTITY_LIMIT);
+  return entities.length > 0
+    ? entities.map(entity => `- ${entity.name} (${entity.entityType})${entity.observations.length > 0 ? `: ${entity.observations.join('; ')}` : ''}`).join('\n')
+    : 'None found.';
+}
+
+// === REMEMBER CONVERSATION ===
+
+const rememberConversationPrompt: PromptDefinition = {
+  description: 'Extract entities, relations and observations from a conversation and store them, reusing the entities memory already has',
+  arguments: [
+    { name: 'conversation', description: 'The conversation or notes to remember', required: true },
+    { name: 'focus', description: 'What to concentrate on, e.g. "decisions" or "people and their roles"' }
+  ],
+  build: async (args, memory) => [userMessage(`Store the durable knowledge in the conversation below in the knowledge graph.
+
+1. Identify the entities worth remembering (people, projects, technologies, decisions, ...)${args.focus ? `, concentrating on ${args.focus}` : ''}.
+2. Reuse the existing entities listed below: add new facts to them with add_observations instead of creating near-duplicates.
+3. Create the remaining entities with create_entities, using the entity types already in use where they fit.
+4. Connect them with create_relations, in active voice.
+5. When the conversation says a stored fact changed, invalidate the old fact before recording the new one.
+6. Skip small talk and anything only relevant to this conversation.
+
+## Entity types in use
+${await entityTypesInUse(memory)}
+
+## Existing entities that may be mentioned
+${await relatedEntities(memory, args.conversation)}
+
+## Guidance for create_entities
+${toolGuidance('createEntities')}
+
+## Guidance for create_relations
+${toolGuidance('createRelations')}
+
+## Conversation
+${args.conversation}`)]
+};
+
+// === INGEST DOCUMENT ===
+
+const ingestDocumentPrompt: PromptDefinition = {
+  description: 'Store a document, chunk and embed it, and connect its key terms to the knowledge graph',
+  arguments: [
+    { name: 'content', description: 'Text of the document', required: true },
+    { name: 'documentId', description: 'ID to store the document under (default: derived from the title)' },
+    { name: 'title', description: 'Title of the document, stored as metadata' }
+  ],
+  build: async (args, memory) => {
+    const documentId = args.documentId
+      ?? (args.title ? args.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') : undefined);
+    const { documents } = await memory.listDocuments(false);
+    const existing = documentId !== undefined ? documents.find(document => document.id === documentId) : undefined;
+
+    return [userMessage(`Ingest the document below into memory.
+
+1. Call ingest_document with ${documentId ? `id "${documentId}"` : 'a short, descriptive snake_case id'}, the content${args.title ? ` and metadata {"title": ${JSON.stringify(args.title)}}` : ''}. Leave createEntities off.
+2. Review the returned terms and keep the ones that name real concepts, people, systems or organisations.
+3. For each kept term, reuse an existing entity (listed below) when it means the same thing; otherwise create it with create_entities, using the entity types already in use where they fit.
+4. Link the entities to the document with link_entities_to_document, and record the relationships the document states with create_relations.
+${existing ? `\nNote: a document with id "${existing.id}" was already stored on ${existing.created_at}; storing it again replaces its content and chunks.\n` : ''}
+## Entity types in use
+${await entityTypesInUse(memory)}
+
+## Existing entities that may be mentioned
+${await relatedEntities(memory, args.content)}
+
+## Guidance for ingest_document
+${toolGuidance('ingestDocument')}
+
+## Document
+${args.content}`)];
+  }
+};
+
+// === ANSWER FROM MEMORY ===
+
+const answerFromMemoryPrompt: PromptDefinition = {
+  description: 'Answer a question from the stored documents and knowledge graph, citing the chunks used',
+  arguments: [
+    { name: 'question', description: 'The question to answer', required: true },
+    { name: 'limit', description: 'Number of chunks to retrieve (default: 8)' }
+  ],
+  build: async (args, memory) => {
+    const results = await memory.hybridSearch(args.question, numberArgument(args, 'limit', 8));
+    const { entities } = await memory.searchNodes(args.question, 5);
+
+    const context = results.length > 0
+      ? results.map(result => `[${result.chunk_id}] (${result.chunk_type}, ${result.document_title}${result.entities.length > 0 ? `; entities: ${result.entities.join(', ')}` : ''})\n${result.content_summary}`).join('\n\n')
+      : 'No matching chunks.';
+    const entityContext = entities.length > 0
+      ? entities.map(entity => `- ${entity.name} (${entity.entityType})${entity.observations.length > 0 ? `: ${entity.observations.join('; ')}` : ''}`).join('\n')
+      : 'No matching entities.';
+
+    return [userMessage(`Answer the question using only the memory retrieved below.
+
+- Cite the chunk each statement relies on by its ID in square brackets, e.g. [${results[0]?.chunk_id ?? 'doc_chunk_0'}].
+- Use get_detailed_context on a chunk ID when a summary is too short to be sure.
+- If memory does not contain the answer, say so instead of guessing.
+
+## Question
+${args.question}
+
+## Retrieved chunks
+${context}
+
+## Related entities
+${entityContext}`)];
+  }
+};
+
+// === REVIEW DUPLICATES ===
+
+const reviewDuplicatesPrompt: PromptDefinition = {
+  description: 'Review near-duplicate entities proposed by find_duplicate_entities and merge or keep them',
+  arguments: [
+    { name: 'entityTypes', description: 'Comma-separated entity types to restrict the review to' },
+    { name: 'threshold', description: 'Minimum duplicate score between 0 and 1 (default: 0.8)' }
+  ],
+  build: async (args, memory) => {
+    const { candidates, comparedEntities, unembeddedEntities } = await memory.findDuplicateEntities({
+      threshold: numberArgument(args, 'threshold', 0.8),
+      entityTypes: listArgument(args, 'entityTypes'),
+      limit: 20
+    });
+
+    const pairs = candidates.length > 0
+      ? candidates.map(candidate => `- ${candidate.entities[0]} (${candidate.entityTypes[0]}) / ${candidate.entities[1]} (${candidate.entityTypes[1]}), score ${candidate.score}`).join('\n')
+      : 'No candidates above the threshold.';
+
+    return [userMessage(`Review the duplicate candidates below, compared across ${comparedEntities} entities${unembeddedEntities > 0 ? ` (${unembeddedEntities} without an embedding, compared by name only)` : ''}.
+
+For each pair:
+1. Open both entities with open_nodes and compare their observations and relationships.
+2. If they describe the same thing, merge them with merge_entities, keeping the canonical spelling as the target.
+3. If they are distinct but related (e.g. a product and its company), connect them with create_relations instead.
+4. Otherwise leave them as they are.
+
+Summarise what you merged and why. A mistaken merge can be reverted with undo.
+
+## Candidates
+${pairs}
+
+## Guidance for merge_entities
+${toolGuidance('mergeEntities')}`)];
+  }
+};
+
+// Built-in prompts, by name
+export const memoryPrompts: Record<string, PromptDefinition> = {
+  rememberConversation: rememberConversationPrompt,
+  ingestDocument: ingestDocumentPrompt,
+  answerFromMemory: answerFromMemoryPrompt,
+  reviewDuplicates: reviewDuplicatesPrompt,
+};
+
+export function listMemoryPrompts(): Array<{ name: string; description: string; arguments: PromptArgument[] }> {
+  return Object.entries(memoryPrompts).map(([name, prompt]) => ({
+    name,
+    description: prompt.description,
+    arguments: prompt.arguments
+  }));
+}
+
+export async function getMemoryPrompt(name: string, args: Record<string, string>, memory: PromptMemory): Promise<{
+  description: string;
+  messages: PromptMessage[];
+}> {
+  const prompt = memoryPrompts[name];
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+
+  return { description: prompt.description, messages: await prompt.build(args, memory) };
+}
@@ -0,0 +1,44 @@
+// Argument of a prompt (MCP prompt arguments are always strings)
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+// Message returned by prompts/get
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * The memory reads a prompt may use to pre-fill its context. RAGKnowledgeGraphManager provides them;
+ * the narrow shapes keep prompts independent of the manager.
+ */
+export interface PromptMemory {
+  searchNodes(query: string, limit?: number): Promise<{
+    entities: Array<{ name: string; entityType: string; observations: string[] }>;
+  }>;
+  hybridSearch(query: string, limit?: number): Promise<Array<{
+    chunk_id: string;
+    document_title: string;
+    content_summary: string;
+    chunk_type: string;
+    entities: string[];
+    relevance_score: number;
+  }>>;
+  findDuplicateEntities(options: { threshold?: number; limit?: number; entityTypes?: string[] }): Promise<{
+    candidates: Array<{ entities: [string, string]; entityTypes: [string, string]; score: number }>;
+    comparedEntities: number;
+    unembeddedEntities: number;
+  }>;
+  listDocuments(includeMetadata?: boolean): Promise<{ documents: Array<{ id: string; created_at: string }> }>;
+  getKnowledgeGraphStats(): Promise<any>;
+}
+
+// Built-in prompt: its listing plus a builder that fills the messages from the arguments and memory
+export interface PromptDefinition {
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>, memory: PromptMemory) => Promise<PromptMessage[]>;
+}
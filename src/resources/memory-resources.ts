@@ -0,0 +1,87 @@
+/**
+ * MCP resources exposing memory under memory:// URIs: entities by name, documents and chunks by ID,
+ * and the knowledge graph statistics.
+ */
+
+export const GRAPH_STATS_URI = 'memory://graph/stats';
+
+export type MemoryResourceRef =
+  | { kind: 'entity'; name: string }
+  | { kind: 'document'; id: string }
+  | { kind: 'chunk'; chunkId: string }
+  | { kind: 'graphStats' };
+
+// Listed first by resources/list; it has no parameters, so it is not a template
+export const graphStatsResource = {
+  uri: GRAPH_STATS_URI,
+  name: 'Knowledge graph statistics',
+  description: 'Entity, relationship, document and chunk counts, plus the state of the embeddings',
+  mimeType: 'application/json'
+};
+
+export interface MemoryResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const memoryResourceTemplates: MemoryResourceTemplate[] = [
+  {
+    uriTemplate: 'memory://entity/{name}',
+    name: 'Entity',
+    description: 'An entity with its observations, aliases and relationships (name or alias, URL-encoded)',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'memory://document/{id}',
+    name: 'Document',
+    description: 'The full text of a stored document',
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: 'memory://chunk/{chunkId}',
+    name: 'Chunk',
+    description: 'A document chunk with its surrounding chunks, document metadata and linked entities',
+    mimeType: 'application/json'
+  }
+];
+
+const RESOURCE_PATH_KINDS = {
+  entity: (value: string): MemoryResourceRef => ({ kind: 'entity', name: value }),
+  document: (value: string): MemoryResourceRef => ({ kind: 'document', id: value }),
+  chunk: (value: string): MemoryResourceRef => ({ kind: 'chunk', chunkId: value })
+};
+
+export function entityUri(name: string): string {
+  return `memory://entity/${encodeURIComponent(name)}`;
+}
+
+export function documentUri(id: string): string {
+  return `memory://document/${encodeURIComponent(id)}`;
+}
+
+export function chunkUri(chunkId: string): string {
+  return `memory://chunk/${encodeURIComponent(chunkId)}`;
+}
+
+/**
+ * Parse a memory:// URI into the resource it names. The path segment after the kind is URL-decoded,
+ * so names containing slashes or spaces must be encoded.
+ */
+export function parseMemoryUri(uri: string): MemoryResourceRef {
+  if (uri === GRAPH_STATS_URI) return { kind: 'graphStats' };
+
+  const match = /^memory:\/\/(entity|document|chunk)\/(.+)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]);
+  } catch {
+    throw new Error(`Invalid resource URI encoding: ${uri}`);
+  }
+  return RESOURCE_PATH_KINDS[match[1] as keyof typeof RESOURCE_PATH_KINDS](value);
+}
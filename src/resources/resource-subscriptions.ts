@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { parseMemoryUri } from './memory-resources.js';
+
+// Where the watched state comes from: resource contents, and a cheap signature of what resources/list returns.
+// Reads go through withReadLock so fingerprints never include uncommitted writes
+export interface ResourceSource {
+  readResource(uri: string): Promise<{ text: string }>;
+  resourceListSignature(): string;
+  withReadLock<T>(read: () => Promise<T>): Promise<T>;
+}
+
+// Where change notifications go, normally the MCP server of one client session
+export interface ResourceNotifier {
+  resourceUpdated(uri: string): Promise<void>;
+  resourceListChanged(): Promise<void>;
+}
+
+/**
+ * Subscriptions of one client session. Each check compares the subscribed resources against their last
+ * fingerprint, so changes are found whatever made them: a tool call in this session, another session,
+ * or another process writing the same database file.
+ */
+export class ResourceSubscriptions {
+  private fingerprints = new Map<string, string>();
+  private listSignature = '';
+  private checking: Promise<void>;
+
+  constructor(private readonly source: ResourceSource, private readonly notifier: ResourceNotifier) {
+    // Checks queue behind the initial signature
+    this.checking = source.withReadLock(async () => {
+      this.listSignature = source.resourceListSignature();
+    }).catch(error => {
+      console.error('❌ Failed to read the resource list:', error);
+    });
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    // Reject URIs that can never resolve; a resource that does not exist yet can still be watched
+    parseMemoryUri(uri);
+    this.fingerprints.set(uri, await this.source.withReadLock(() => this.fingerprint(uri)));
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+  }
+
+  // Notify the changes since the previous check. Checks run one at a time, in the order they were requested
+  check(): Promise<void> {
+    this.checking = this.checking.then(() => this.source.withReadLock(() => this.compare())).catch(error => {
+      console.error('❌ Failed to check subscribed resources:', error);
+    });
+    return this.checking;
+  }
+
+  private async compare(): Promise<void> {
+    const listSignature = this.source.resourceListSignature();
+    if (listSignature !== this.listSignature) {
+      this.listSignature = listSignature;
+      await this.notifier.resourceListChanged();
+    }
+
+    for (const [uri, previous] of this.fingerprints) {
+      const current = await this.fingerprint(uri);
+      // Unsubscribed while the check was running
+      if (!this.fingerprints.has(uri)) continue;
+      if (current !== previous) {
+        this.fingerprints.set(uri, current);
+        await this.notifier.resourceUpdated(uri);
+      }
+    }
+  }
+
+  // Hash of the resource contents; a resource that cannot be read (e.g. deleted) has a fixed fingerprint
+  private async fingerprint(uri: string): Promise<string> {
+    try {
+      const { text } = await this.source.readResource(uri);
+      return createHash('sha256').update(text).digest('hex');
+    } catch {
+      return 'unavailable';
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { compileChunkFilter, compileEntityFilter, SearchFilter } from './search-filter.js';
+
+describe('compileChunkFilter', () => {
+  it('matches everything without conditions', () => {
+    assert.deepEqual(compileChunkFilter(undefined), { sql: '1 = 1', params: [] });
+    assert.deepEqual(compileChunkFilter({}), { sql: '1 = 1', params: [] });
+  });
+
+  it('treats a bare value as equality and joins fields with AND', () => {
+    assert.deepEqual(compileChunkFilter({ chunk_type: 'document', document_id: { in: ['a', 'b'] } }), {
+      sql: '(m.chunk_type = ?) AND (m.document_id IN (?, ?))',
+      params: ['document', 'a', 'b']
+    });
+  });
+
+  it('compiles an empty in list to a condition that matches nothing', () => {
+    assert.deepEqual(compileChunkFilter({ document_id: { in: [] } }), { sql: '(0)', params: [] });
+    assert.deepEqual(compileChunkFilter({ created_at: { in: [] } }), { sql: '(0)', params: [] });
+  });
+
+  it('compiles exists to a NULL check', () => {
+    assert.deepEqual(compileChunkFilter({ document_id: { exists: false } }), {
+      sql: '(m.document_id IS NULL)',
+      params: []
+    });
+  });
+
+  it('normalises both sides of date comparisons with datetime()', () => {
+    assert.deepEqual(compileChunkFilter({ created_at: { gte: '2024-01-01', lt: '2024-02-01T00:00:00Z' } }), {
+      sql: '(datetime(COALESCE(d.created_at, m.created_at)) >= datetime(?) AND datetime(COALESCE(d.created_at, m.created_at)) < datetime(?))',
+      params: ['2024-01-01', '2024-02-01T00:00:00Z']
+    });
+  });
+
+  it('matches metadata through json_each with a quoted JSON path', () => {
+    assert.deepEqual(compileChunkFilter({ metadata: { 'author.name': { in: ['Ada', 'Grace'] }, reviewed: true } }), {
+      sql: '(EXISTS (SELECT 1 FROM json_each(d.metadata, ?) meta WHERE meta.value IN (?, ?))) AND '
+        + '(EXISTS (SELECT 1 FROM json_each(d.metadata, ?) meta WHERE meta.value = ?))',
+      params: ['$."author"."name"', 'Ada', 'Grace', '$."reviewed"', 1]
+    });
+  });
+
+  it('compiles metadata exists to a json_type check', () => {
+    assert.deepEqual(compileChunkFilter({ metadata: { draft: { exists: false } } }), {
+      sql: '(json_type(d.metadata, ?) IS NULL)',
+      params: ['$."draft"']
+    });
+  });
+
+  it('rejects invalid conditions', () => {
+    assert.throws(() => compileChunkFilter({ metadata: { 'a..b': 'x' } }), /Invalid metadata filter path/);
+    assert.throws(() => compileChunkFilter({ chunk_type: {} }), /at least one operator/);
+    assert.throws(() => compileChunkFilter({ bogus: 1 } as SearchFilter), /Unknown filter field: bogus/);
+  });
+});
+
+describe('compileEntityFilter', () => {
+  it('compiles entity columns directly', () => {
+    assert.deepEqual(compileEntityFilter({ entityType: 'Person', created_at: { gt: '2024-01-01' } }), {
+      sql: '(e.entityType = ?) AND (datetime(e.created_at) > datetime(?))',
+      params: ['Person', '2024-01-01']
+    });
+  });
+
+  it('rejects chunk_type', () => {
+    assert.throws(() => compileEntityFilter({ chunk_type: 'document' }), /only applies to chunk searches/);
+  });
+});
+
+describe('compiled filters', () => {
+  const db = new Database(':memory:');
+
+  before(() => {
+    db.exec(`
+      CREATE TABLE documents (id TEXT PRIMARY KEY, metadata TEXT, created_at TEXT);
+      CREATE TABLE entities (id TEXT PRIMARY KEY, entityType TEXT, created_at TEXT);
+      CREATE TABLE relationships (id TEXT PRIMARY KEY, source_entity TEXT, target_entity TEXT);
+      CREATE TABLE chunk_metadata (
+        chunk_id TEXT PRIMARY KEY, chunk_type TEXT, document_id TEXT, entity_id TEXT, relationship_id TEXT, created_at TEXT
+      );
+      CREATE TABLE chunk_entities (chunk_rowid INTEGER, entity_id TEXT);
+
+      INSERT INTO documents VALUES
+        ('paper', '{"tags": ["ml", "nlp"], "author": {"name": "Ada"}, "reviewed": true}', '2024-01-15T10:00:00.000Z'),
+        ('notes', '{"tags": "ml", "author": {"name": "Grace"}, "reviewed": false, "draft": 1}', '2024-03-01 09:00:00');
+      INSERT INTO entities VALUES
+        ('entity_ada', 'Person', '2024-01-10T00:00:00.000Z'),
+        ('entity_grace', 'Person', '2024-03-02T00:00:00.000Z'),
+        ('entity_ml', 'Topic', '2024-02-01T00:00:00.000Z');
+      INSERT INTO relationships VALUES ('rel_1', 'entity_ada', 'entity_ml');
+      INSERT INTO chunk_metadata VALUES
+        ('paper_0', 'document', 'paper', NULL, NULL, '2024-01-15T10:00:00.000Z'),
+        ('notes_0', 'document', 'notes', NULL, NULL, '2024-03-01T09:00:00.000Z'),
+        ('ada_0', 'entity', NULL, 'entity_ada', NULL, '2024-01-10T00:00:00.000Z'),
+        ('rel_1_0', 'relationship', NULL, NULL, 'rel_1', '2024-02-05T00:00:00.000Z');
+      INSERT INTO chunk_entities VALUES
+        ((SELECT rowid FROM chunk_metadata WHERE chunk_id = 'paper_0'), 'entity_ada'),
+        ((SELECT rowid FROM chunk_metadata WHERE chunk_id = 'notes_0'), 'entity_grace');
+    `);
+  });
+
+  const chunks = (filter: SearchFilter) => {
+    const compiled = compileChunkFilter(filter);
+    return db.prepare(`
+      SELECT m.chunk_id FROM chunk_metadata m LEFT JOIN documents d ON d.id = m.document_id
+      WHERE ${compiled.sql} ORDER BY m.chunk_id
+    `).all(...compiled.params).map((row: any) => row.chunk_id);
+  };
+
+  const entities = (filter: SearchFilter) => {
+    const compiled = compileEntityFilter(filter);
+    return db.prepare(`SELECT e.id FROM entities e WHERE ${compiled.sql} ORDER BY e.id`)
+      .all(...compiled.params).map((row: any) => row.id);
+  };
+
+  it('matches nothing for an empty in list', () => {
+    assert.deepEqual(chunks({ document_id: { in: [] } }), []);
+    assert.deepEqual(entities({ document_id: { in: [] } }), []);
+    assert.deepEqual(entities({ metadata: { tags: { in: [] } } }), []);
+  });
+
+  it('compares dates stored in different formats', () => {
+    assert.deepEqual(chunks({ created_at: { gte: '2024-02-01', lt: '2024-03-01T12:00:00Z' } }), ['notes_0', 'rel_1_0']);
+    assert.deepEqual(entities({ created_at: { lt: '2024-03-01' } }), ['entity_ada', 'entity_ml']);
+  });
+
+  it('matches any element of a metadata array and scalars alike', () => {
+    assert.deepEqual(chunks({ metadata: { tags: 'nlp' } }), ['paper_0']);
+    assert.deepEqual(chunks({ metadata: { tags: 'ml' } }), ['notes_0', 'paper_0']);
+    assert.deepEqual(chunks({ metadata: { tags: { in: ['nlp', 'cv'] } } }), ['paper_0']);
+  });
+
+  it('follows dotted paths, booleans and exists in metadata', () => {
+    assert.deepEqual(chunks({ metadata: { 'author.name': 'Grace' } }), ['notes_0']);
+    assert.deepEqual(chunks({ metadata: { reviewed: true } }), ['paper_0']);
+    assert.deepEqual(chunks({ metadata: { draft: { exists: true } } }), ['notes_0']);
+  });
+
+  it('matches the entityType of a chunk\'s own, related and linked entities', () => {
+    assert.deepEqual(chunks({ entityType: 'Topic' }), ['rel_1_0']);
+    assert.deepEqual(chunks({ entityType: 'Person' }), ['ada_0', 'notes_0', 'paper_0', 'rel_1_0']);
+    assert.deepEqual(chunks({ entityType: { exists: false } }), []);
+  });
+
+  it('matches entities through the documents they are linked to', () => {
+    assert.deepEqual(entities({ document_id: 'paper' }), ['entity_ada']);
+    assert.deepEqual(entities({ metadata: { tags: 'ml' } }), ['entity_ada', 'entity_grace']);
+    assert.deepEqual(entities({ entityType: 'Person', metadata: { 'author.name': 'Grace' } }), ['entity_grace']);
+  });
+});
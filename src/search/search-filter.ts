@@ -0,0 +1,244 @@
+import { z } from 'zod';
+
+export type FilterValue = string | number | boolean;
+
+export interface FilterOperators {
+  eq?: FilterValue;
+  in?: FilterValue[];
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+  exists?: boolean;
+}
+
+// A bare value means equality
+export type FilterCondition = FilterValue | FilterOperators;
+
+export interface SearchFilter {
+  chunk_type?: FilterCondition;
+  document_id?: FilterCondition;
+  entityType?: FilterCondition;
+  created_at?: FilterCondition;
+  // Keys are field names or dotted paths into document metadata; array values match if any element matches
+  metadata?: Record<string, FilterCondition>;
+}
+
+export interface CompiledFilter {
+  sql: string;
+  params: Array<string | number>;
+}
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const filterConditionSchema = z.union([
+  filterValueSchema,
+  z.object({
+    eq: filterValueSchema.optional(),
+    in: z.array(filterValueSchema).optional(),
+    gt: filterValueSchema.optional(),
+    gte: filterValueSchema.optional(),
+    lt: filterValueSchema.optional(),
+    lte: filterValueSchema.optional(),
+    exists: z.boolean().optional(),
+  }).strict(),
+]);
+
+export const searchFilterSchema = z.object({
+  chunk_type: filterConditionSchema.describe('Chunk type: document, entity or relationship').optional(),
+  document_id: filterConditionSchema.describe('Source document ID').optional(),
+  entityType: filterConditionSchema.describe('Type of the entity the result is about or linked to').optional(),
+  created_at: filterConditionSchema.describe('Creation time (ISO 8601 date or datetime)').optional(),
+  metadata: z.record(filterConditionSchema).describe('Conditions on document metadata fields (dotted paths allowed)').optional(),
+}).strict();
+
+const OPERATORS: Record<string, string> = { eq: '=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * Compile a filter into a SQL condition over chunk_metadata (alias m) LEFT JOIN documents (alias d).
+ */
+export function compileChunkFilter(filter: SearchFilter | undefined): CompiledFilter {
+  const clauses: CompiledFilter[] = [];
+  if (!filter) return joinClauses(clauses);
+
+  for (const key of Object.keys(filter) as Array<keyof SearchFilter>) {
+    switch (key) {
+      case 'chunk_type':
+        clauses.push(compileCondition('m.chunk_type', filter.chunk_type!));
+        break;
+      case 'document_id':
+        clauses.push(compileCondition('m.document_id', filter.document_id!));
+        break;
+      case 'created_at':
+        // Document chunks are dated by their document, knowledge graph chunks by themselves
+        clauses.push(compileCondition('COALESCE(d.created_at, m.created_at)', filter.created_at!, true));
+        break;
+      case 'entityType':
+        // The chunk's own entity, the endpoints of its relationship, or entities linked to it
+        clauses.push(compileLinkedCondition(`
+          SELECT fe.entityType as value FROM entities fe
+          WHERE fe.id = m.entity_id
+            OR fe.id IN (SELECT fr.source_entity FROM relationships fr WHERE fr.id = m.relationship_id)
+            OR fe.id IN (SELECT fr.target_entity FROM relationships fr WHERE fr.id = m.relationship_id)
+            OR fe.id IN (SELECT fce.entity_id FROM chunk_entities fce WHERE fce.chunk_rowid = m.rowid)
+        `, filter.entityType!));
+        break;
+      case 'metadata':
+        for (const [path, condition] of Object.entries(filter.metadata!)) {
+          clauses.push(compileMetadataCondition('d.metadata', path, condition));
+        }
+        break;
+      default:
+        throw new Error(`Unknown filter field: ${key}`);
+    }
+  }
+
+  return joinClauses(clauses);
+}
+
+/**
+ * Compile a filter into a SQL condition over entities (alias e).
+ * Document fields match entities linked to a matching document chunk.
+ */
+export function compileEntityFilter(filter: SearchFilter | undefined): CompiledFilter {
+  const clauses: CompiledFilter[] = [];
+  if (!filter) return joinClauses(clauses);
+
+  const linkedDocuments = (condition: string) => `
+    SELECT ${condition} FROM chunk_entities fce
+    JOIN chunk_metadata fm ON fm.rowid = fce.chunk_rowid
+    JOIN documents fd ON fd.id = fm.document_id
+    WHERE fce.entity_id = e.id
+  `;
+
+  for (const key of Object.keys(filter) as Array<keyof SearchFilter>) {
+    switch (key) {
+      case 'entityType':
+        clauses.push(compileCondition('e.entityType', filter.entityType!));
+        break;
+      case 'created_at':
+        clauses.push(compileCondition('e.created_at', filter.created_at!, true));
+        break;
+      case 'document_id':
+        clauses.push(compileLinkedCondition(linkedDocuments('fd.id as value'), filter.document_id!));
+        break;
+      case 'metadata': {
+        for (const [path, condition] of Object.entries(filter.metadata!)) {
+          const inner = compileMetadataCondition('fd.metadata', path, condition);
+          clauses.push({
+            sql: `EXISTS (${linkedDocuments('1')} AND ${inner.sql})`,
+            params: inner.params
+          });
+        }
+        break;
+      }
+      case 'chunk_type':
+        throw new Error('The chunk_type filter only applies to chunk searches');
+      default:
+        throw new Error(`Unknown filter field: ${key}`);
+    }
+  }
+
+  return joinClauses(clauses);
+}
+
+function joinClauses(clauses: CompiledFilter[]): CompiledFilter {
+  if (clauses.length === 0) return { sql: '1 = 1', params: [] };
+  return {
+    sql: clauses.map(clause => `(${clause.sql})`).join(' AND '),
+    params: clauses.flatMap(clause => clause.params)
+  };
+}
+
+function normalizeCondition(condition: FilterCondition): FilterOperators {
+  if (typeof condition !== 'object' || condition === null) {
+    return { eq: condition };
+  }
+  if (Object.keys(condition).length === 0) {
+    throw new Error('Filter condition must specify at least one operator');
+  }
+  return condition;
+}
+
+// SQLite has no boolean type; JSON true/false read back as 1/0
+function toParam(value: FilterValue): string | number {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+// Condition on a single-valued column; dates are compared after normalising both sides with datetime()
+function compileCondition(column: string, condition: FilterCondition, isDate = false): CompiledFilter {
+  const operators = normalizeCondition(condition);
+  const parts: string[] = [];
+  const params: Array<string | number> = [];
+  const lhs = isDate ? `datetime(${column})` : column;
+  const placeholder = isDate ? 'datetime(?)' : '?';
+
+  for (const [operator, value] of Object.entries(operators)) {
+    if (value === undefined) continue;
+
+    if (operator === 'exists') {
+      parts.push(`${column} IS ${value ? 'NOT NULL' : 'NULL'}`);
+    } else if (operator === 'in') {
+      const values = value as FilterValue[];
+      if (values.length === 0) {
+        parts.push('0');
+      } else {
+        parts.push(`${lhs} IN (${values.map(() => placeholder).join(', ')})`);
+        params.push(...values.map(toParam));
+      }
+    } else if (OPERATORS[operator]) {
+      parts.push(`${lhs} ${OPERATORS[operator]} ${placeholder}`);
+      params.push(toParam(value as FilterValue));
+    } else {
+      throw new Error(`Unknown filter operator: ${operator}`);
+    }
+  }
+
+  return { sql: parts.join(' AND '), params };
+}
+
+// Condition on a multi-valued field given as a subquery selecting `value`: matches if any value matches
+function compileLinkedCondition(valuesQuery: string, condition: FilterCondition): CompiledFilter {
+  const { exists, ...operators } = normalizeCondition(condition);
+  const parts: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (exists !== undefined) {
+    parts.push(`${exists ? '' : 'NOT '}EXISTS (${valuesQuery})`);
+  }
+  if (Object.values(operators).some(value => value !== undefined)) {
+    const inner = compileCondition('linked.value', operators);
+    parts.push(`EXISTS (SELECT 1 FROM (${valuesQuery}) linked WHERE ${inner.sql})`);
+    params.push(...inner.params);
+  }
+
+  return { sql: parts.join(' AND '), params };
+}
+
+// Condition on a document metadata field; json_each yields the value itself for scalars and each element for arrays
+function compileMetadataCondition(column: string, path: string, condition: FilterCondition): CompiledFilter {
+  const jsonPath = toJsonPath(path);
+  const { exists, ...operators } = normalizeCondition(condition);
+  const parts: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (exists !== undefined) {
+    parts.push(`json_type(${column}, ?) IS ${exists ? 'NOT NULL' : 'NULL'}`);
+    params.push(jsonPath);
+  }
+  if (Object.values(operators).some(value => value !== undefined)) {
+    const inner = compileCondition('meta.value', operators);
+    parts.push(`EXISTS (SELECT 1 FROM json_each(${column}, ?) meta WHERE ${inner.sql})`);
+    params.push(jsonPath, ...inner.params);
+  }
+
+  return { sql: parts.join(' AND '), params };
+}
+
+function toJsonPath(path: string): string {
+  const segments = path.split('.');
+  if (segments.some(segment => segment.length === 0 || segment.includes('"'))) {
+    throw new Error(`Invalid metadata filter path: ${path}`);
+  }
+  return '$' + segments.map(segment => `."${segment}"`).join('');
+}
@@ -1,68 +1,143 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolCapabilityInfo, ToolRegistrationDescription } from './types.js';
+import { searchFilterSchema } from '../search/search-filter.js';
 
 // === READ GRAPH TOOL ===
 
 const readGraphCapability: ToolCapabilityInfo = {
-  description: 'Read and retrieve the entire knowledge graph structure',
+  description: 'Read the knowledge graph page by page, with filters, or as a summary of counts and top-degree entities',
   parameters: {
     type: 'object',
-    properties: {},
+    properties: {
+      cursor: {
+        type: 'string',
+        description: 'nextCursor from the previous page; omit for the first page',
+        optional: true
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of entities per page (default: 100, max: 1000)',
+        optional: true
+      },
+      entityTypes: {
+        type: 'array',
+        description: 'Only include entities of these types',
+        optional: true
+      },
+      relationTypes: {
+        type: 'array',
+        description: 'Only include relationships of these types',
+        optional: true
+      },
+      namePrefix: {
+        type: 'string',
+        description: 'Only include entities whose name starts with this prefix (case-insensitive)',
+        optional: true
+      },
+      createdAfter: {
+        type: 'string',
+        description: 'Only include entities created at or after this ISO 8601 date or datetime',
+        optional: true
+      },
+      createdBefore: {
+        type: 'string',
+        description: 'Only include entities created before this ISO 8601 date or datetime',
+        optional: true
+      },
+      includeObservations: {
+        type: 'boolean',
+        description: 'Include entity observations (default: true)',
+        optional: true
+      },
+      summary: {
+        type: 'boolean',
+        description: 'Return only counts and the top-degree entities instead of a page (default: false)',
+        optional: true
+      },
+      asOf: {
+        type: 'string',
+        description: 'Read the graph as it was at this ISO 8601 date or datetime',
+        optional: true
+      }
+    },
     required: [],
   },
 };
 
 const readGraphDescription: ToolRegistrationDescription = () => `<description>
-Read and retrieve the complete knowledge graph structure including all entities and relationships.
-**Provides comprehensive view of your entire knowledge base structure.**
+Read the knowledge graph structure page by page, optionally filtered, or get a compact summary of it.
+**Pages are ordered by entity name and continue with the returned nextCursor.**
 Essential for understanding graph composition, debugging, and exporting knowledge.
 </description>
 
 <importantNotes>
-- (!important!) **Returns complete graph** - may be large for extensive knowledge bases
-- (!important!) Includes all entities with their observations and metadata
-- (!important!) Shows all relationships with their types and directions
-- (!important!) **Use with caution** on very large graphs - consider search_nodes for targeted queries
+- (!important!) **Returns at most limit entities per call** - keep calling with nextCursor until it is null to read everything
+- (!important!) Each relationship is listed once, on the page of its source entity, and only if its target also passes the entity filters
+- (!important!) **Use summary mode first** on unknown or large graphs - it returns counts per type and the best-connected entities
+- (!important!) Set includeObservations to false for a lightweight structural view
+- (!important!) **Invalidated relationships and observations are hidden** - pass asOf to see what was believed at an earlier time
 </importantNotes>
 
 <whenToUseThisTool>
-- When you need a complete overview of your knowledge graph
+- When you need an overview of your knowledge graph (summary mode)
 - For debugging relationship structures and entity compositions
 - **Before major restructuring** - to understand current state
-- When exporting knowledge graph data to other systems
-- For generating comprehensive reports or visualizations
-- When validating graph integrity and completeness
+- When exporting knowledge graph data to other systems, page by page
+- For listing all entities of a type or with a common name prefix
+- For reviewing what was added since a given date
 </whenToUseThisTool>
 
 <features>
-- Complete entity enumeration with full details
-- Comprehensive relationship mapping with types
+- Cursor-based pagination that stays stable while the graph changes
+- Filters by entity type, relationship type, name prefix and creation date
+- Projection without observations
+- Summary mode with entity and relationship counts per type and top-degree entities
+- Point-in-time reads with asOf
 - Structured output suitable for processing or visualization
-- Includes entity observations and metadata
-- Shows relationship directionality and semantics
-- Real-time reflection of current graph state
 </features>
 
 <bestPractices>
-- Use search_nodes or open_nodes for large graphs to avoid overwhelming output
-- Consider filtering results post-retrieval for specific analysis needs
-- Cache results if doing multiple operations on static graph state
-- Use for periodic backup or version control of knowledge structure
-- Combine with statistics tools for comprehensive analysis
-- Consider performance impact on very large graphs
+- Start with {"summary": true} to gauge the size and shape of the graph
+- Use search_nodes or open_nodes when looking for specific entities
+- Combine entityTypes and includeObservations: false for quick inventories
+- Pass the same filters with every cursor when paging through filtered results
+- Use createdAfter to review recent additions
 </bestPractices>
 
 <parameters>
-- None required - returns complete knowledge graph structure
+- cursor: nextCursor from the previous page (string, optional)
+- limit: Entities per page (number, optional, default: 100, max: 1000)
+- entityTypes: Only these entity types (string[], optional)
+- relationTypes: Only these relationship types (string[], optional)
+- namePrefix: Entity name prefix, case-insensitive (string, optional)
+- createdAfter / createdBefore: Entity creation date bounds, ISO 8601 (string, optional)
+- includeObservations: Include observations (boolean, optional, default: true)
+- summary: Return counts and top-degree entities only (boolean, optional, default: false)
+- asOf: Point in time to read the graph at, ISO 8601 (string, optional)
 </parameters>
 
 <examples>
-- Complete export: {} (no parameters needed)
-- Pre-analysis snapshot: {} (capture current state before modifications)
-- Debug investigation: {} (understand full graph structure for troubleshooting)
+- Overview: {"summary": true}
+- First page: {}
+- Next page: {"cursor": "TWFjaGluZSBMZWFybmluZw"}
+- People without observations: {"entityTypes": ["PERSON"], "includeObservations": false}
+- Recent additions: {"createdAfter": "2024-06-01"}
+- Dependency edges only: {"relationTypes": ["DEPENDS_ON"], "namePrefix": "service"}
+- Past state: {"asOf": "2024-01-01", "summary": true}
 </examples>`;
 
-const readGraphSchema: z.ZodRawShape = {};
+const readGraphSchema: z.ZodRawShape = {
+  cursor: z.string().optional().describe('nextCursor from the previous page'),
+  limit: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum number of entities per page'),
+  entityTypes: z.array(z.string()).optional().describe('Only include entities of these types'),
+  relationTypes: z.array(z.string()).optional().describe('Only include relationships of these types'),
+  namePrefix: z.string().optional().describe('Only include entities whose name starts with this prefix'),
+  createdAfter: z.string().optional().describe('Only include entities created at or after this date'),
+  createdBefore: z.string().optional().describe('Only include entities created before this date'),
+  includeObservations: z.boolean().optional().default(true).describe('Include entity observations'),
+  summary: z.boolean().optional().default(false).describe('Return only counts and the top-degree entities'),
+  asOf: z.string().optional().describe('Read the graph as it was at this ISO 8601 date or datetime'),
+};
 
 export const readGraphTool: ToolDefinition = {
   capability: readGraphCapability,
@@ -85,6 +160,16 @@ const searchNodesCapability: ToolCapabilityInfo = {
         type: 'number',
         description: 'Maximum number of results to return',
         default: 10
+      },
+      filter: {
+        type: 'object',
+        description: 'Restrict results by entityType, created_at, or the document_id/metadata of documents the entity is linked to',
+        optional: true
+      },
+      asOf: {
+        type: 'string',
+        description: 'Search the graph as it was at this ISO 8601 date or datetime',
+        optional: true
       }
     },
     required: ['query'],
@@ -101,7 +186,9 @@ Uses semantic embeddings to find conceptually similar entities, even without exa
 - (!important!) **Semantic vector search** - finds conceptually similar entities, not just keyword matches
 - (!important!) **Requires entity embeddings** - run embedAllEntities first for existing entities
 - (!important!) **Returns similarity scores** with matching entities and their relationships
+- (!important!) **Exact name and observation matches are found too** - a BM25 full-text ranking is fused with the vector ranking (lexical_score, fusion_score)
 - (!important!) More intelligent than traditional pattern matching - understands context and meaning
+- (!important!) With asOf, only entities recorded by then are returned, with the observations and relationships valid at that time; ranking still uses the current embeddings
 </importantNotes>
 
 <whenToUseThisTool>
@@ -115,9 +202,11 @@ Uses semantic embeddings to find conceptually similar entities, even without exa
 
 <features>
 - Semantic similarity search using sentence transformers
+- BM25 full-text matching over entity names and observations, fused by reciprocal rank
 - Natural language query processing for entity discovery
 - Similarity scoring for result ranking and relevance
 - Returns complete entity information including observations
+- matchedObservation: the observation of each entity closest to the query, with its ID and similarity
 - Includes relationships between semantically similar entities
 - Configurable result limits for focused or broad exploration
 </features>
@@ -134,6 +223,9 @@ Uses semantic embeddings to find conceptually similar entities, even without exa
 <parameters>
 - query: Natural language search query for semantic entity discovery (string, required)
 - limit: Maximum number of similar entities to return, default 10 (number, optional)
+- filter: Structured filter applied before ranking (object, optional). Fields: entityType, created_at, and document_id / metadata of documents the entity is linked to.
+  Each condition is a value (equality) or an object of operators: eq, in (array), gt, gte, lt, lte, exists (boolean).
+- asOf: Point in time to search the graph at, ISO 8601 (string, optional)
 </parameters>
 
 <examples>
@@ -142,11 +234,15 @@ Uses semantic embeddings to find conceptually similar entities, even without exa
 - Domain exploration: {"query": "quantum physics concepts", "limit": 15}
 - Semantic similarity: {"query": "data visualization libraries"}
 - Research queries: {"query": "renewable energy technologies"}
+- Filtered: {"query": "founders", "filter": {"entityType": {"in": ["PERSON", "ORGANIZATION"]}, "metadata": {"source": "press"}}}
+- Past beliefs: {"query": "where does Alice work", "asOf": "2023-06-01"}
 </examples>`;
 
 const searchNodesSchema: z.ZodRawShape = {
   query: z.string().describe('Natural language search query for semantic entity discovery'),
   limit: z.number().optional().default(10).describe('Maximum number of similar entities to return'),
+  filter: searchFilterSchema.describe('Restrict results by entityType, created_at, or the document_id/metadata of linked documents').optional(),
+  asOf: z.string().optional().describe('Search the graph as it was at this ISO 8601 date or datetime'),
 };
 
 export const searchNodesTool: ToolDefinition = {
@@ -165,6 +261,11 @@ const openNodesCapability: ToolCapabilityInfo = {
       names: {
         type: 'array',
         description: 'Array of exact entity names to retrieve'
+      },
+      asOf: {
+        type: 'string',
+        description: 'Return the entities as they were at this ISO 8601 date or datetime',
+        optional: true
       }
     },
     required: ['names'],
@@ -182,6 +283,7 @@ Returns detailed subgraph showing how specified entities relate to each other.
 - (!important!) Returns entities with full details and observations
 - (!important!) **Shows relationships between specified entities** - perfect for connection analysis
 - (!important!) More precise than search - use when you know exactly what you want
+- (!important!) **Pass asOf to answer "what did we believe on date X"** - observations and relationships valid at that time, including since invalidated ones
 </importantNotes>
 
 <whenToUseThisTool>
@@ -213,6 +315,7 @@ Returns detailed subgraph showing how specified entities relate to each other.
 
 <parameters>
 - names: Array of exact entity names to retrieve with relationships (string[], required)
+- asOf: Point in time to read the entities at, ISO 8601 (string, optional)
 </parameters>
 
 <examples>
@@ -220,10 +323,12 @@ Returns detailed subgraph showing how specified entities relate to each other.
 - Related entities: {"names": ["React", "JavaScript", "Facebook"]}
 - Research analysis: {"names": ["Machine Learning", "Neural Networks", "Deep Learning"]}
 - Validation check: {"names": ["Entity1", "Entity2", "Entity3"]}
+- Past state: {"names": ["Alice", "Acme"], "asOf": "2023-06-01T12:00:00Z"}
 </examples>`;
 
 const openNodesSchema: z.ZodRawShape = {
   names: z.array(z.string()).describe('Array of exact entity names to retrieve with their relationships'),
+  asOf: z.string().optional().describe('Return the entities as they were at this ISO 8601 date or datetime'),
 };
 
 export const openNodesTool: ToolDefinition = {
@@ -232,6 +337,316 @@ export const openNodesTool: ToolDefinition = {
   schema: openNodesSchema,
 };
 
+// === TRAVERSE GRAPH TOOL ===
+
+const traverseGraphCapability: ToolCapabilityInfo = {
+  description: 'Walk relationships several hops out from one or more entities and return the reached subgraph with paths',
+  parameters: {
+    type: 'object',
+    properties: {
+      startEntities: {
+        type: 'array',
+        description: 'Exact names of the entities to start from'
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Maximum number of hops from a start entity (default: 2, max: 10)',
+        optional: true
+      },
+      direction: {
+        type: 'string',
+        description: 'Follow outgoing, incoming or both directions of relationships (default: both)',
+        optional: true
+      },
+      relationTypes: {
+        type: 'array',
+        description: 'Only follow relationships of these types',
+        optional: true
+      },
+      entityTypes: {
+        type: 'array',
+        description: 'Only step onto entities of these types (start entities are always included)',
+        optional: true
+      },
+      maxNodes: {
+        type: 'number',
+        description: 'Maximum number of entities to return, nearest first (default: 50)',
+        optional: true
+      },
+      asOf: {
+        type: 'string',
+        description: 'Walk the graph as it was at this ISO 8601 date or datetime',
+        optional: true
+      }
+    },
+    required: ['startEntities'],
+  },
+};
+
+const traverseGraphDescription: ToolRegistrationDescription = () => `<description>
+Walk the knowledge graph breadth-first from one or more start entities, following relationships up to a maximum number of hops.
+**Returns the reached subgraph together with the shortest path to every entity.**
+Unlike open_nodes and search_nodes, which only show relationships inside the result set, this tool discovers entities several hops away.
+</description>
+
+<importantNotes>
+- (!important!) **Start entities need exact names** - use search_nodes first if uncertain
+- (!important!) Every entity carries its depth and the relationships on the shortest path that reached it
+- (!important!) **maxNodes is a budget** - the nearest entities are kept and truncated is set when more were reachable, or when a dense graph hit the walk's size limit before every entity was explored
+- (!important!) Filters apply while walking: entities of other types and relationships of other types are never crossed
+- (!important!) Only current relationships are followed; with asOf, the relationships valid at that time, so the walk matches what open_nodes returns for the same asOf
+</importantNotes>
+
+<whenToUseThisTool>
+- When exploring the neighbourhood of an entity beyond its direct relationships
+- **For answering "how is X connected to Y"** style questions within a few hops
+- When collecting context around entities found by hybrid_search or search_nodes
+- For following a single kind of relationship (e.g. DEPENDS_ON) transitively
+- For finding everything that points at an entity (direction: incoming)
+</whenToUseThisTool>
+
+<features>
+- Multi-hop traversal with configurable depth
+- Outgoing, incoming or undirected walks
+- Relation type and entity type filters
+- Node budget with nearest-first truncation
+- Cycle-safe shortest path for every reached entity
+- Induced subgraph of all relationships between the returned entities
+</features>
+
+<bestPractices>
+- Start with the default depth of 2 and increase only if needed
+- Use relationTypes to keep walks focused on dense graphs
+- Lower maxNodes when only the closest context matters
+- Check missingEntities to spot misspelled start names
+- Use direction outgoing for dependency chains and incoming for dependents
+</bestPractices>
+
+<parameters>
+- startEntities: Exact names of the entities to start from (string[], required)
+- maxDepth: Maximum number of hops (number, optional, default: 2, max: 10)
+- direction: "outgoing", "incoming" or "both" (string, optional, default: "both")
+- relationTypes: Only follow these relationship types (string[], optional)
+- entityTypes: Only step onto entities of these types (string[], optional)
+- maxNodes: Maximum number of entities to return (number, optional, default: 50)
+- asOf: Point in time to walk the graph at, ISO 8601 (string, optional)
+</parameters>
+
+<examples>
+- Neighbourhood: {"startEntities": ["React"]}
+- Dependency chain: {"startEntities": ["MyService"], "direction": "outgoing", "relationTypes": ["DEPENDS_ON"], "maxDepth": 5}
+- People around a project: {"startEntities": ["Apollo Program"], "entityTypes": ["PERSON"], "maxDepth": 3}
+- Several seeds: {"startEntities": ["Machine Learning", "Statistics"], "maxNodes": 20}
+- Past neighbourhood: {"startEntities": ["Alice"], "asOf": "2023-06-01"}
+</examples>`;
+
+const traverseGraphSchema: z.ZodRawShape = {
+  startEntities: z.array(z.string()).describe('Exact names of the entities to start from'),
+  maxDepth: z.number().int().min(1).max(10).optional().default(2).describe('Maximum number of hops from a start entity'),
+  direction: z.enum(['outgoing', 'incoming', 'both']).optional().default('both').describe('Direction in which relationships are followed'),
+  relationTypes: z.array(z.string()).optional().describe('Only follow relationships of these types'),
+  entityTypes: z.array(z.string()).optional().describe('Only step onto entities of these types'),
+  maxNodes: z.number().int().min(1).max(1000).optional().default(50).describe('Maximum number of entities to return, nearest first'),
+  asOf: z.string().optional().describe('Walk the graph as it was at this ISO 8601 date or datetime'),
+};
+
+export const traverseGraphTool: ToolDefinition = {
+  capability: traverseGraphCapability,
+  description: traverseGraphDescription,
+  schema: traverseGraphSchema,
+};
+
+// === FIND PATHS TOOL ===
+
+const findPathsCapability: ToolCapabilityInfo = {
+  description: 'Find the shortest paths between two entities and explain how they are connected',
+  parameters: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Exact name of the entity to start from'
+      },
+      to: {
+        type: 'string',
+        description: 'Exact name of the entity to reach'
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Maximum number of hops in a path (default: 4, max: 10)',
+        optional: true
+      },
+      direction: {
+        type: 'string',
+        description: 'Follow outgoing, incoming or both directions of relationships (default: both)',
+        optional: true
+      },
+      relationTypes: {
+        type: 'array',
+        description: 'Only follow relationships of these types',
+        optional: true
+      },
+      k: {
+        type: 'number',
+        description: 'Number of shortest paths to return (default: 3, max: 20)',
+        optional: true
+      },
+      weighted: {
+        type: 'boolean',
+        description: 'Weight each hop by 1/confidence so paths over confident relationships are preferred (default: false)',
+        optional: true
+      },
+      asOf: {
+        type: 'string',
+        description: 'Find the paths that existed at this ISO 8601 date or datetime',
+        optional: true
+      }
+    },
+    required: ['from', 'to'],
+  },
+};
+
+const findPathsDescription: ToolRegistrationDescription = () => `<description>
+Find the k shortest paths between two entities and describe each one in natural language.
+**Answers "how is X related to Y" without reading the whole graph.**
+Each path lists its entities and relationships in order, with its length, cost and combined confidence.
+</description>
+
+<importantNotes>
+- (!important!) **Both entities need exact names** - use search_nodes first if uncertain
+- (!important!) By default relationships are followed in both directions; each relationship is still reported in its stored direction
+- (!important!) **Paths never revisit an entity** and stop at the target
+- (!important!) With weighted enabled a hop costs 1/confidence, so one hop at confidence 0.5 costs as much as two certain hops
+- (!important!) An empty result means no path within maxDepth; truncated means the search hit its size limit and a path may still exist
+- (!important!) Paths use current relationships only; pass asOf to find the connections that held at an earlier time
+</importantNotes>
+
+<whenToUseThisTool>
+- When asked how two entities are connected
+- **For explaining a relationship chain** in plain language
+- When comparing alternative connections between two concepts
+- For checking whether two entities are connected at all within a few hops
+- When preferring well-established connections over uncertain ones (weighted)
+</whenToUseThisTool>
+
+<features>
+- Shortest path and k shortest simple paths
+- Maximum depth and relation type filters
+- Directed or undirected search
+- Optional confidence weighting using relationship confidence
+- Natural-language rendering of every path
+- Combined confidence (product of hop confidences) per path
+</features>
+
+<bestPractices>
+- Keep maxDepth small (3-5) on dense graphs
+- Use relationTypes to ask about one kind of connection
+- Use direction outgoing for causal or dependency chains
+- Enable weighted when relationships carry meaningful confidence values
+- Use traverse_graph instead when there is no specific target entity
+</bestPractices>
+
+<parameters>
+- from: Exact name of the start entity (string, required)
+- to: Exact name of the target entity (string, required)
+- maxDepth: Maximum number of hops (number, optional, default: 4, max: 10)
+- direction: "outgoing", "incoming" or "both" (string, optional, default: "both")
+- relationTypes: Only follow these relationship types (string[], optional)
+- k: Number of paths to return, cheapest first (number, optional, default: 3, max: 20)
+- weighted: Weight hops by 1/confidence (boolean, optional, default: false)
+- asOf: Point in time to find paths at, ISO 8601 (string, optional)
+</parameters>
+
+<examples>
+- Basic connection: {"from": "Albert Einstein", "to": "Quantum Mechanics"}
+- Single shortest path: {"from": "React", "to": "Meta", "k": 1}
+- Dependency chain: {"from": "MyService", "to": "PostgreSQL", "direction": "outgoing", "relationTypes": ["DEPENDS_ON"]}
+- Confident connections: {"from": "Drug A", "to": "Disease B", "weighted": true, "maxDepth": 3}
+- Past connection: {"from": "Alice", "to": "Acme", "asOf": "2023-06-01"}
+</examples>`;
+
+const findPathsSchema: z.ZodRawShape = {
+  from: z.string().describe('Exact name of the entity to start from'),
+  to: z.string().describe('Exact name of the entity to reach'),
+  maxDepth: z.number().int().min(1).max(10).optional().default(4).describe('Maximum number of hops in a path'),
+  direction: z.enum(['outgoing', 'incoming', 'both']).optional().default('both').describe('Direction in which relationships are followed'),
+  relationTypes: z.array(z.string()).optional().describe('Only follow relationships of these types'),
+  k: z.number().int().min(1).max(20).optional().default(3).describe('Number of shortest paths to return'),
+  weighted: z.boolean().optional().default(false).describe('Weight each hop by 1/confidence'),
+  asOf: z.string().optional().describe('Find the paths that existed at this ISO 8601 date or datetime'),
+};
+
+export const findPathsTool: ToolDefinition = {
+  capability: findPathsCapability,
+  description: findPathsDescription,
+  schema: findPathsSchema,
+};
+
+// === LIST OBSERVATIONS TOOL ===
+
+const listObservationsCapability: ToolCapabilityInfo = {
+  description: 'List the observations of entities with their IDs, sources, confidence and creation times',
+  parameters: {
+    type: 'object',
+    properties: {
+      entityNames: {
+        type: 'array',
+        description: 'Names of the entities whose observations to list'
+      }
+    },
+    required: ['entityNames'],
+  },
+};
+
+const listObservationsDescription: ToolRegistrationDescription = () => `<description>
+List every observation of the given entities together with its ID and provenance.
+**The way to get observation IDs** for update_observation and delete_observations.
+Observations are returned in the order they were added.
+</description>
+
+<importantNotes>
+- (!important!) **Entities must exist** - an unknown name is an error
+- (!important!) Names are resolved case-insensitively and through aliases
+- (!important!) source and confidence are only present when they were recorded
+</importantNotes>
+
+<whenToUseThisTool>
+- Before editing or deleting individual observations
+- When checking where a piece of knowledge came from and when it was added
+- When auditing low-confidence observations of an entity
+</whenToUseThisTool>
+
+<features>
+- Observation ID, text, source, confidence and creation time
+- Valid time (validFrom, and validTo once invalidated) - invalidated observations are listed too
+- Batch listing for several entities
+- Alias-aware entity resolution
+</features>
+
+<bestPractices>
+- Use open_nodes when only the observation texts are needed
+- Check source and confidence before relying on an observation
+</bestPractices>
+
+<parameters>
+- entityNames: Names of the entities (string[], required)
+</parameters>
+
+<examples>
+- Single entity: {"entityNames": ["Alice"]}
+- Several entities: {"entityNames": ["React", "Vue"]}
+</examples>`;
+
+const listObservationsSchema: z.ZodRawShape = {
+  entityNames: z.array(z.string()).describe('Names of the entities whose observations to list'),
+};
+
+export const listObservationsTool: ToolDefinition = {
+  capability: listObservationsCapability,
+  description: listObservationsDescription,
+  schema: listObservationsSchema,
+};
+
 // === DELETE ENTITIES TOOL ===
 
 const deleteEntitiesCapability: ToolCapabilityInfo = {
@@ -250,12 +665,12 @@ const deleteEntitiesCapability: ToolCapabilityInfo = {
 
 const deleteEntitiesDescription: ToolRegistrationDescription = () => `<description>
 Delete multiple entities and their associated relationships from the knowledge graph.
-**Permanent operation that removes entities and all their connections.**
-Use with caution as this operation cannot be undone and affects graph structure.
+**Removes entities and all their connections.**
+Use with caution as this operation affects graph structure; the deletion is recorded in the change log and can be reverted with undo.
 </description>
 
 <importantNotes>
-- (!important!) **Permanent deletion** - cannot be undone without backup
+- (!important!) **Deletion** - only undo or revert_to bring the entities back
 - (!important!) **Removes all relationships** involving the deleted entities
 - (!important!) Affects graph connectivity - may orphan related entities
 - (!important!) **Use search_nodes first** to verify entities before deletion
@@ -334,7 +749,7 @@ Allows fine-tuned graph structure modification without losing entity information
 - (!important!) **Entities remain intact** - only relationships are removed
 - (!important!) Requires exact relationship specification (from, to, type)
 - (!important!) **May affect graph connectivity** - could isolate entities
-- (!important!) Permanent operation - verify relationships before deletion
+- (!important!) Verify relationships before deletion - only undo or revert_to bring them back
 </importantNotes>
 
 <whenToUseThisTool>
@@ -400,10 +815,16 @@ const deleteObservationsCapability: ToolCapabilityInfo = {
     properties: {
       deletions: {
         type: 'array',
-        description: 'Array of observation deletions for specific entities'
+        description: 'Array of observation deletions for specific entities',
+        optional: true
+      },
+      observationIds: {
+        type: 'array',
+        description: 'IDs of observations to delete',
+        optional: true
       }
     },
-    required: ['deletions'],
+    required: [],
   },
 };
 
@@ -415,7 +836,7 @@ Allows selective removal of outdated, incorrect, or redundant observations.
 
 <importantNotes>
 - (!important!) **Entities remain intact** - only specified observations are removed
-- (!important!) Requires exact observation text matching
+- (!important!) Text matching ignores case, spacing and a trailing full stop; **deleting by ID is exact**
 - (!important!) **Other observations preserved** - selective removal only
 - (!important!) Use carefully - observations provide entity context and evidence
 </importantNotes>
@@ -430,7 +851,7 @@ Allows selective removal of outdated, incorrect, or redundant observations.
 </whenToUseThisTool>
 
 <features>
-- Selective observation removal by exact text matching
+- Selective observation removal by text or by observation ID
 - Preserves entities and other observations
 - Batch processing of multiple observation deletions
 - Maintains entity integrity during content updates
@@ -439,8 +860,8 @@ Allows selective removal of outdated, incorrect, or redundant observations.
 </features>
 
 <bestPractices>
-- Verify exact observation text before deletion using search or open tools
-- Consider whether updating is better than deleting observations
+- Use list_observations to find observation IDs before deleting
+- Consider whether update_observation is better than deleting
 - Remove observations that are clearly incorrect or outdated
 - Maintain enough observations to preserve entity context
 - Group related observation deletions for coherent operations
@@ -448,22 +869,25 @@ Allows selective removal of outdated, incorrect, or redundant observations.
 </bestPractices>
 
 <parameters>
-- deletions: Array of observation deletion objects, each containing:
+- deletions: Array of observation deletion objects (optional), each containing:
   - entityName: Name of the entity containing observations to delete (string, required)
-  - observations: Array of exact observation texts to remove (string[], required)
+  - observations: Array of observation texts to remove (string[], required)
+- observationIds: IDs of observations to remove (number[], optional)
 </parameters>
 
 <examples>
 - Remove outdated: {"deletions": [{"entityName": "Technology X", "observations": ["Discontinued in 2020", "No longer supported"]}]}
 - Fix errors: {"deletions": [{"entityName": "Person Y", "observations": ["Incorrect birth year 1980"]}]}
 - Clean duplicates: {"deletions": [{"entityName": "Concept Z", "observations": ["Duplicate description text"]}]}
+- By ID: {"observationIds": [42, 43]}
 </examples>`;
 
 const deleteObservationsSchema: z.ZodRawShape = {
   deletions: z.array(z.object({
     entityName: z.string().describe('Name of the entity containing observations to delete'),
-    observations: z.array(z.string()).describe('Array of exact observation texts to remove'),
-  })).describe('Array of observation deletion specifications'),
+    observations: z.array(z.string()).describe('Array of observation texts to remove'),
+  })).optional().describe('Array of observation deletion specifications'),
+  observationIds: z.array(z.number().int()).optional().describe('IDs of observations to delete'),
 };
 
 export const deleteObservationsTool: ToolDefinition = {
@@ -477,6 +901,9 @@ export const graphQueryTools = {
   readGraph: readGraphTool,
   searchNodes: searchNodesTool,
   openNodes: openNodesTool,
+  traverseGraph: traverseGraphTool,
+  findPaths: findPathsTool,
+  listObservations: listObservationsTool,
   deleteEntities: deleteEntitiesTool,
   deleteRelations: deleteRelationsTool,
   deleteObservations: deleteObservationsTool,
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolCapabilityInfo, ToolRegistrationDescription } from './types.js';
+import { searchFilterSchema } from '../search/search-filter.js';
 
 // === CREATE ENTITIES TOOL ===
 
@@ -117,6 +118,8 @@ Relationships define how entities relate to each other, enabling graph traversal
 - (!important!) Relationship types should be consistent and meaningful (e.g., IS_A, HAS, USES, IMPLEMENTS)
 - (!important!) Direction matters: "from" → "to" represents the relationship direction
 - (!important!) **Avoid redundant relationships** - check existing connections first
+- (!important!) Confidence (0-1, default 1.0), properties and source are optional; an existing relationship is left unchanged - use update_relation to edit it
+- (!important!) A relationship closed with invalidate is reopened when it is created again, valid from validFrom
 </importantNotes>
 
 <whenToUseThisTool>
@@ -151,11 +154,17 @@ Relationships define how entities relate to each other, enabling graph traversal
   - from: Name of the source entity (string, required)
   - to: Name of the target entity (string, required)
   - relationType: Type/category of the relationship (string, required)
+  - confidence: How certain the relationship is, 0-1 (number, optional, default: 1.0)
+  - properties: Arbitrary key/value details, e.g. {"since": 2019} (object, optional)
+  - source: Where it came from - a document ID, chunk ID or conversation reference (string, optional)
+  - validFrom: When the relationship became true, ISO 8601 (string, optional, default: now)
 </parameters>
 
 <examples>
 - Inheritance: {"relations": [{"from": "Dog", "to": "Animal", "relationType": "IS_A"}]}
+- With provenance: {"relations": [{"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "confidence": 0.8, "properties": {"role": "CTO", "since": 2021}, "source": "doc_hr_2024_chunk_3"}]}
 - Usage: {"relations": [{"from": "React", "to": "JavaScript", "relationType": "USES"}]}
+- Backdated: {"relations": [{"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "validFrom": "2021-03-01"}]}
 - Composition: {"relations": [{"from": "Car", "to": "Engine", "relationType": "HAS"}]}
 - Multiple: {"relations": [{"from": "Einstein", "to": "Relativity", "relationType": "DEVELOPED"}, {"from": "Relativity", "to": "Physics", "relationType": "PART_OF"}]}
 </examples>`;
@@ -165,6 +174,10 @@ const createRelationsSchema: z.ZodRawShape = {
     from: z.string().describe('Name of the source entity in the relationship'),
     to: z.string().describe('Name of the target entity in the relationship'),
     relationType: z.string().describe('Type of relationship (e.g., IS_A, HAS, USES, IMPLEMENTS)'),
+    confidence: z.number().min(0).max(1).optional().describe('How certain the relationship is, from 0 to 1 (default: 1.0)'),
+    properties: z.record(z.any()).optional().describe('Arbitrary key/value details of the relationship'),
+    source: z.string().optional().describe('Document ID, chunk ID or conversation reference the relationship came from'),
+    validFrom: z.string().optional().describe('When the relationship became true, ISO 8601 (default: now)'),
   })).describe('Array of relationships to create between entities'),
 };
 
@@ -174,6 +187,109 @@ export const createRelationsTool: ToolDefinition = {
   schema: createRelationsSchema,
 };
 
+// === UPDATE RELATION TOOL ===
+
+const updateRelationCapability: ToolCapabilityInfo = {
+  description: 'Edit the confidence, properties or source of an existing relationship without deleting it',
+  parameters: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Name of the source entity'
+      },
+      to: {
+        type: 'string',
+        description: 'Name of the target entity'
+      },
+      relationType: {
+        type: 'string',
+        description: 'Type of the relationship to edit'
+      },
+      confidence: {
+        type: 'number',
+        description: 'New confidence from 0 to 1',
+        optional: true
+      },
+      properties: {
+        type: 'object',
+        description: 'Properties to set; merged into the existing ones, null removes a key',
+        optional: true
+      },
+      source: {
+        type: 'string',
+        description: 'New source reference; an empty string clears it',
+        optional: true
+      }
+    },
+    required: ['from', 'to', 'relationType'],
+  },
+};
+
+const updateRelationDescription: ToolRegistrationDescription = () => `<description>
+Edit an existing relationship's confidence, properties or provenance in place.
+**The relationship keeps its identity - no need to delete and recreate it.**
+Only the given fields change; properties are merged into the existing ones.
+</description>
+
+<importantNotes>
+- (!important!) **The relationship is identified by from, to and relationType** - it must already exist
+- (!important!) Properties are merged: keys you pass overwrite, keys set to null are removed, others are kept
+- (!important!) Pass an empty string as source to clear the provenance
+- (!important!) Confidence is used by find_paths when weighted is enabled
+</importantNotes>
+
+<whenToUseThisTool>
+- When new evidence makes a relationship more or less certain
+- When adding details such as dates, roles or quantities to a relationship
+- When recording which document or conversation supports a relationship
+- When correcting a wrong property without losing the relationship
+</whenToUseThisTool>
+
+<features>
+- Partial updates of confidence, properties and source
+- Property merge with key removal via null
+- Entity names and aliases are resolved
+- Knowledge graph chunk of the relationship kept in sync
+</features>
+
+<bestPractices>
+- Keep confidence meaningful: 1.0 for stated facts, lower for inferences
+- Use stable property names across relationships of the same type
+- Reference the most specific source available (a chunk ID over a document ID)
+</bestPractices>
+
+<parameters>
+- from: Source entity name (string, required)
+- to: Target entity name (string, required)
+- relationType: Relationship type (string, required)
+- confidence: New confidence, 0-1 (number, optional)
+- properties: Properties to merge; null removes a key (object, optional)
+- source: New source reference; "" clears it (string, optional)
+</parameters>
+
+<examples>
+- Lower confidence: {"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "confidence": 0.4}
+- Add details: {"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "properties": {"role": "CEO", "since": 2023}}
+- Remove a property: {"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "properties": {"role": null}}
+- Record provenance: {"from": "Alice", "to": "Acme", "relationType": "WORKS_AT", "source": "conversation:2024-06-01"}
+</examples>`;
+
+const updateRelationSchema: z.ZodRawShape = {
+  from: z.string().describe('Name of the source entity'),
+  to: z.string().describe('Name of the target entity'),
+  relationType: z.string().describe('Type of the relationship to edit'),
+  confidence: z.number().min(0).max(1).optional().describe('New confidence from 0 to 1'),
+  properties: z.record(z.any()).optional().describe('Properties to merge into the existing ones; null removes a key'),
+  source: z.string().optional().describe('New source reference; an empty string clears it'),
+};
+
+export const updateRelationTool: ToolDefinition = {
+  capability: updateRelationCapability,
+  description: updateRelationDescription,
+  schema: updateRelationSchema,
+};
+
 // === ADD OBSERVATIONS TOOL ===
 
 const addObservationsCapability: ToolCapabilityInfo = {
@@ -201,8 +317,9 @@ Observations provide the factual foundation that supports entity existence and p
 
 <importantNotes>
 - (!important!) **Entity must exist** - this tool only adds to existing entities
-- (!important!) Only new observations are added - duplicates are automatically filtered
+- (!important!) Only new observations are added - duplicates are filtered ignoring case, spacing and a trailing full stop
 - (!important!) Observations are cumulative - they build the entity's knowledge base
+- (!important!) **Each observation gets an ID** - use it with update_observation and delete_observations
 - (!important!) **Be specific and factual** - observations should be verifiable statements
 </importantNotes>
 
@@ -218,7 +335,8 @@ Observations provide the factual foundation that supports entity existence and p
 <features>
 - Batch addition of observations to multiple entities
 - Automatic duplicate filtering - no redundant observations
-- Supports rich textual observations with context
+- Optional source and confidence recorded per observation
+- Observation-level embeddings, so search_nodes can report which observation matched
 - Maintains observation history and chronology
 - Integrates with document processing workflows
 - Enables incremental knowledge building
@@ -226,7 +344,7 @@ Observations provide the factual foundation that supports entity existence and p
 
 <bestPractices>
 - Keep observations factual and specific rather than general
-- Include source context when possible ("According to paper X...")
+- Record where an observation came from in source (a document, chunk, agent or session ID)
 - Use consistent terminology across observations
 - Add complementary observations that provide different perspectives
 - Include temporal information when relevant ("As of 2024...")
@@ -237,18 +355,25 @@ Observations provide the factual foundation that supports entity existence and p
 - observations: Array of observation addition objects, each containing:
   - entityName: Name of the existing entity to update (string, required)
   - contents: Array of new observation strings to add (string[], required)
+  - source: Where the observations came from, e.g. "document:paper_2024" or "session:abc" (string, optional)
+  - confidence: Confidence in the observations, 0-1 (number, optional)
+  - validFrom: When the observations became true, ISO 8601 (string, optional, default: now)
 </parameters>
 
 <examples>
 - Scientific updates: {"observations": [{"entityName": "Quantum Computing", "contents": ["IBM achieved quantum advantage in 2024", "Shows promise for cryptography applications"]}]}
 - Person details: {"observations": [{"entityName": "Marie Curie", "contents": ["First woman to win Nobel Prize", "Won Nobel Prizes in two different sciences"]}]}
 - Technology evolution: {"observations": [{"entityName": "React", "contents": ["React 18 introduced concurrent features", "Widely adopted for enterprise applications"]}]}
+- With provenance: {"observations": [{"entityName": "Alice", "contents": ["Prefers async communication"], "source": "session:2024-06-01", "confidence": 0.7}]}
 </examples>`;
 
 const addObservationsSchema: z.ZodRawShape = {
   observations: z.array(z.object({
     entityName: z.string().describe('Name of the existing entity to add observations to'),
     contents: z.array(z.string()).describe('Array of new observation strings to add'),
+    source: z.string().optional().describe('Where the observations came from (document, chunk, agent or session reference)'),
+    confidence: z.number().min(0).max(1).optional().describe('Confidence in the observations from 0 to 1'),
+    validFrom: z.string().optional().describe('When the observations became true, ISO 8601 (default: now)'),
   })).describe('Array of observation additions for specific entities'),
 };
 
@@ -258,10 +383,793 @@ export const addObservationsTool: ToolDefinition = {
   schema: addObservationsSchema,
 };
 
+// === UPDATE OBSERVATION TOOL ===
+
+const updateObservationCapability: ToolCapabilityInfo = {
+  description: 'Edit the text, source or confidence of a single observation by its ID',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'number',
+        description: 'ID of the observation, as returned by add_observations or list_observations'
+      },
+      text: {
+        type: 'string',
+        description: 'New observation text',
+        optional: true
+      },
+      source: {
+        type: 'string',
+        description: 'New source reference; an empty string clears it',
+        optional: true
+      },
+      confidence: {
+        type: 'number',
+        description: 'New confidence from 0 to 1',
+        optional: true
+      }
+    },
+    required: ['id'],
+  },
+};
+
+const updateObservationDescription: ToolRegistrationDescription = () => `<description>
+Edit a single observation in place, identified by its ID.
+**Corrects an observation without deleting and re-adding it** - its ID and creation time are kept.
+Only the given fields change.
+</description>
+
+<importantNotes>
+- (!important!) **Get observation IDs from list_observations** or from the result of add_observations
+- (!important!) The new text must not duplicate another observation of the same entity
+- (!important!) Pass an empty string as source to clear the provenance
+- (!important!) Changing the text re-embeds the observation and its entity
+</importantNotes>
+
+<whenToUseThisTool>
+- When an observation is slightly wrong or outdated and should be corrected
+- When recording where an existing observation came from
+- When new evidence makes an observation more or less certain
+</whenToUseThisTool>
+
+<features>
+- Partial updates of text, source and confidence
+- Duplicate check against the entity's other observations
+- Observation and entity embeddings plus knowledge graph chunks kept in sync
+</features>
+
+<bestPractices>
+- Prefer editing over delete-and-add so the observation keeps its history
+- Keep confidence meaningful: 1.0 for stated facts, lower for inferences
+- Reference the most specific source available (a chunk ID over a document ID)
+</bestPractices>
+
+<parameters>
+- id: Observation ID (number, required)
+- text: New observation text (string, optional)
+- source: New source reference; "" clears it (string, optional)
+- confidence: New confidence, 0-1 (number, optional)
+</parameters>
+
+<examples>
+- Correct text: {"id": 42, "text": "Founded in 2015"}
+- Record provenance: {"id": 42, "source": "chunk:doc_annual_report_chunk_3"}
+- Lower confidence: {"id": 42, "confidence": 0.5}
+</examples>`;
+
+const updateObservationSchema: z.ZodRawShape = {
+  id: z.number().int().describe('ID of the observation to edit'),
+  text: z.string().optional().describe('New observation text'),
+  source: z.string().optional().describe('New source reference; an empty string clears it'),
+  confidence: z.number().min(0).max(1).optional().describe('New confidence from 0 to 1'),
+};
+
+export const updateObservationTool: ToolDefinition = {
+  capability: updateObservationCapability,
+  description: updateObservationDescription,
+  schema: updateObservationSchema,
+};
+
+// === INVALIDATE TOOL ===
+
+const invalidateCapability: ToolCapabilityInfo = {
+  description: 'Mark relationships and observations as no longer true, keeping them as history instead of deleting them',
+  parameters: {
+    type: 'object',
+    properties: {
+      relations: {
+        type: 'array',
+        description: 'Relationships to invalidate, each with from, to and relationType',
+        optional: true
+      },
+      observationIds: {
+        type: 'array',
+        description: 'IDs of observations to invalidate',
+        optional: true
+      },
+      validTo: {
+        type: 'string',
+        description: 'When the facts stopped being true, ISO 8601 (default: now)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const invalidateDescription: ToolRegistrationDescription = () => `<description>
+Close relationships and observations that are no longer true, instead of deleting them.
+**Keeps the history of what was believed** - invalidated facts disappear from current reads but stay visible with asOf.
+Use it when a fact changes, such as someone changing jobs.
+</description>
+
+<importantNotes>
+- (!important!) **Prefer this over delete_relations and delete_observations when a fact has changed** rather than being wrong
+- (!important!) Invalidated facts are hidden from read_graph, open_nodes, search_nodes, hybrid_search, traverse_graph and find_paths
+- (!important!) Pass asOf to read_graph, open_nodes, search_nodes, hybrid_search, traverse_graph or find_paths to see them again as they were
+- (!important!) validTo cannot be in the future or before the fact became valid
+</importantNotes>
+
+<whenToUseThisTool>
+- When a relationship ends, e.g. Alice no longer works at Acme
+- When an observation becomes outdated, e.g. a version number or a status
+- Before recording the new state of a fact that changed
+</whenToUseThisTool>
+
+<features>
+- Batch invalidation of relationships and observations
+- Optional backdating of the end of validity
+- Facts that are unknown or already invalidated are reported in notFound
+- Embeddings and knowledge graph chunks updated to the current state
+</features>
+
+<bestPractices>
+- Invalidate the old fact and create the new one in the same turn, so the graph never holds both
+- Set validTo to when the change actually happened, if known
+- Use list_observations to find observation IDs
+</bestPractices>
+
+<parameters>
+- relations: Relationships to close, each with from, to and relationType (object[], optional)
+- observationIds: Observations to close (number[], optional)
+- validTo: End of validity, ISO 8601 (string, optional, default: now)
+</parameters>
+
+<examples>
+- Job change: {"relations": [{"from": "Alice", "to": "Acme", "relationType": "WORKS_AT"}], "validTo": "2024-05-31"}
+- Outdated observation: {"observationIds": [42]}
+</examples>`;
+
+const invalidateSchema: z.ZodRawShape = {
+  relations: z.array(z.object({
+    from: z.string().describe('Name of the source entity'),
+    to: z.string().describe('Name of the target entity'),
+    relationType: z.string().describe('Type of the relationship to invalidate'),
+  })).optional().describe('Relationships to invalidate'),
+  observationIds: z.array(z.number().int()).optional().describe('IDs of observations to invalidate'),
+  validTo: z.string().optional().describe('When the facts stopped being true, ISO 8601 (default: now)'),
+};
+
+export const invalidateTool: ToolDefinition = {
+  capability: invalidateCapability,
+  description: invalidateDescription,
+  schema: invalidateSchema,
+};
+
+// === UPDATE ENTITY TOOL ===
+
+const updateEntityCapability: ToolCapabilityInfo = {
+  description: 'Rename and/or retype an existing entity, keeping its relationships, observations and document links',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Current name (or alias) of the entity'
+      },
+      newName: {
+        type: 'string',
+        description: 'New name for the entity',
+        optional: true
+      },
+      entityType: {
+        type: 'string',
+        description: 'New entity type',
+        optional: true
+      }
+    },
+    required: ['name'],
+  },
+};
+
+const updateEntityDescription: ToolRegistrationDescription = () => `<description>
+Rename an entity, change its entity type, or both - in place.
+**Relationships, observations, document chunk links and aliases are all carried over.**
+The old name becomes an alias, so references to it keep resolving to the renamed entity.
+</description>
+
+<importantNotes>
+- (!important!) **Provide newName, entityType or both** - at least one must differ from the current value
+- (!important!) The new name must not already be the name or alias of another entity - use merge_entities to combine entities instead
+- (!important!) The entity's embedding and knowledge graph chunks are regenerated
+- (!important!) **Atomic** - if any step fails, nothing is changed
+</importantNotes>
+
+<whenToUseThisTool>
+- When an entity was created with a misspelled or informal name
+- When an entity was created with the wrong or default type (e.g. CONCEPT from create_relations)
+- When something was renamed in the real world (the old name stays resolvable)
+- Instead of deleting and recreating an entity, which would lose its relationships
+</whenToUseThisTool>
+
+<features>
+- Rename with the old name kept as an alias
+- Retype without touching anything else
+- Relationship and document link references rewritten to the new entity ID
+- Embedding and knowledge graph chunk regeneration
+</features>
+
+<bestPractices>
+- Use the canonical, most widely used name as the new name
+- Use consistent entity types across the graph (check read_graph with summary: true)
+- Use add_aliases for additional spellings rather than renaming back and forth
+</bestPractices>
+
+<parameters>
+- name: Current name or alias of the entity (string, required)
+- newName: New name (string, optional)
+- entityType: New entity type (string, optional)
+</parameters>
+
+<examples>
+- Fix a typo: {"name": "Pyhton", "newName": "Python"}
+- Retype: {"name": "OpenAI", "entityType": "ORGANIZATION"}
+- Real-world rename: {"name": "Facebook", "newName": "Meta", "entityType": "COMPANY"}
+</examples>`;
+
+const updateEntitySchema: z.ZodRawShape = {
+  name: z.string().describe('Current name or alias of the entity'),
+  newName: z.string().min(1).optional().describe('New name for the entity'),
+  entityType: z.string().min(1).optional().describe('New entity type'),
+};
+
+export const updateEntityTool: ToolDefinition = {
+  capability: updateEntityCapability,
+  description: updateEntityDescription,
+  schema: updateEntitySchema,
+};
+
+// === ADD ALIASES TOOL ===
+
+const addAliasesCapability: ToolCapabilityInfo = {
+  description: 'Register alternative names for existing entities so every tool resolves them to the canonical entity',
+  parameters: {
+    type: 'object',
+    properties: {
+      aliases: {
+        type: 'array',
+        description: 'Array of alias additions for specific entities',
+        items: {
+          type: 'object'
+        }
+      }
+    },
+    required: ['aliases'],
+  },
+};
+
+const addAliasesDescription: ToolRegistrationDescription = () => `<description>
+Register alternative names (aliases) for existing entities, such as spellings, abbreviations or former names.
+**Any tool that accepts an entity name also accepts its aliases and resolves them to the canonical entity.**
+Prevents duplicates like "Node.js", "NodeJS" and "node js" from becoming separate entities.
+</description>
+
+<importantNotes>
+- (!important!) **Entity must exist** - aliases are attached to an existing canonical entity
+- (!important!) Aliases match case-insensitively, just like entity names
+- (!important!) **An alias cannot belong to two entities** - aliases that already name or alias another entity are reported as conflicts and skipped
+- (!important!) Creating an entity whose name is an existing alias does not create a new entity
+</importantNotes>
+
+<whenToUseThisTool>
+- When the same concept appears under different spellings or abbreviations
+- **Before extracting entities from new documents** - so known variants map to existing entities
+- After renaming something, to keep the old name resolvable
+- When linking documents that mention an entity by a short or alternative name
+</whenToUseThisTool>
+
+<features>
+- Batch alias registration for multiple entities
+- Case-insensitive alias resolution across all entity-name parameters
+- Conflict detection against other entities and their aliases
+- Aliases count as mentions when linking entities to document chunks
+- Aliases are removed automatically with their entity
+</features>
+
+<bestPractices>
+- Keep the most common, unambiguous form as the entity name and register the rest as aliases
+- Avoid aliases that are ambiguous on their own (e.g. "Go" for the language)
+- Use open_nodes to see the aliases of an entity
+- Use remove_aliases to correct mistakes
+</bestPractices>
+
+<parameters>
+- aliases: Array of alias addition objects, each containing:
+  - entityName: Name (or existing alias) of the entity (string, required)
+  - aliases: Alternative names to register (string[], required)
+</parameters>
+
+<examples>
+- Spelling variants: {"aliases": [{"entityName": "Node.js", "aliases": ["NodeJS", "node js", "Node"]}]}
+- Abbreviations: {"aliases": [{"entityName": "Machine Learning", "aliases": ["ML"]}, {"entityName": "Large Language Model", "aliases": ["LLM"]}]}
+</examples>`;
+
+const addAliasesSchema: z.ZodRawShape = {
+  aliases: z.array(z.object({
+    entityName: z.string().describe('Name or existing alias of the entity'),
+    aliases: z.array(z.string()).describe('Alternative names to register'),
+  })).describe('Array of alias additions for specific entities'),
+};
+
+export const addAliasesTool: ToolDefinition = {
+  capability: addAliasesCapability,
+  description: addAliasesDescription,
+  schema: addAliasesSchema,
+};
+
+// === REMOVE ALIASES TOOL ===
+
+const removeAliasesCapability: ToolCapabilityInfo = {
+  description: 'Remove alternative names from entities',
+  parameters: {
+    type: 'object',
+    properties: {
+      aliases: {
+        type: 'array',
+        description: 'Array of alias removals for specific entities',
+        items: {
+          type: 'object'
+        }
+      }
+    },
+    required: ['aliases'],
+  },
+};
+
+const removeAliasesDescription: ToolRegistrationDescription = () => `<description>
+Remove aliases from entities so those names no longer resolve to them.
+**The entity itself, its observations and its relationships are not affected.**
+</description>
+
+<importantNotes>
+- (!important!) Only aliases of the given entity are removed - aliases of other entities are left untouched
+- (!important!) **The canonical entity name cannot be removed** - rename the entity instead
+- (!important!) Unknown aliases are ignored; the result lists what was actually removed
+</importantNotes>
+
+<whenToUseThisTool>
+- When an alias turned out to be ambiguous or wrong
+- Before reusing a name as the name or alias of another entity
+- When cleaning up after merging or restructuring entities
+</whenToUseThisTool>
+
+<features>
+- Batch alias removal for multiple entities
+- Case-insensitive alias matching
+- Reports the aliases actually removed per entity
+</features>
+
+<bestPractices>
+- Check the current aliases with open_nodes first
+- Register a corrected alias with add_aliases afterwards if needed
+</bestPractices>
+
+<parameters>
+- aliases: Array of alias removal objects, each containing:
+  - entityName: Name (or another alias) of the entity (string, required)
+  - aliases: Aliases to remove (string[], required)
+</parameters>
+
+<examples>
+- Remove an ambiguous alias: {"aliases": [{"entityName": "Go (programming language)", "aliases": ["Go"]}]}
+</examples>`;
+
+const removeAliasesSchema: z.ZodRawShape = {
+  aliases: z.array(z.object({
+    entityName: z.string().describe('Name or alias of the entity'),
+    aliases: z.array(z.string()).describe('Aliases to remove'),
+  })).describe('Array of alias removals for specific entities'),
+};
+
+export const removeAliasesTool: ToolDefinition = {
+  capability: removeAliasesCapability,
+  description: removeAliasesDescription,
+  schema: removeAliasesSchema,
+};
+
+// === FIND DUPLICATE ENTITIES TOOL ===
+
+const findDuplicateEntitiesCapability: ToolCapabilityInfo = {
+  description: 'Propose pairs of entities that likely describe the same thing, scored by name and embedding similarity',
+  parameters: {
+    type: 'object',
+    properties: {
+      threshold: {
+        type: 'number',
+        description: 'Minimum combined score between 0 and 1 for a pair to be proposed (default: 0.8)',
+        optional: true
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of candidate pairs to return (default: 20)',
+        optional: true
+      },
+      entityTypes: {
+        type: 'array',
+        description: 'Only compare entities of these types',
+        optional: true
+      },
+      entityNames: {
+        type: 'array',
+        description: 'Only propose pairs involving these entities',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const findDuplicateEntitiesDescription: ToolRegistrationDescription = () => `<description>
+Find near-duplicate entities such as "React", "ReactJS" and "React.js" and propose them as merge candidates.
+**Each candidate pair is scored from name similarity and entity embedding similarity.**
+Read-only: nothing is changed - review the candidates and use merge_entities to fold duplicates together.
+</description>
+
+<importantNotes>
+- (!important!) **Candidates are proposals, not decisions** - check entity types and observations before merging
+- (!important!) Name similarity ignores case, spacing and punctuation, so "React.js" and "ReactJS" score 1.0 on names
+- (!important!) Entities without an embedding from the active model are compared by name only (see unembeddedEntities)
+- (!important!) Lower the threshold to find more distant variants, at the cost of more false positives
+</importantNotes>
+
+<whenToUseThisTool>
+- Periodically, to keep the knowledge graph free of duplicates
+- **After bulk entity creation** (e.g. ingestDocument with createEntities)
+- Before creating an entity, with entityNames, to check whether it already exists under another spelling
+- When search results show several entities for the same concept
+</whenToUseThisTool>
+
+<features>
+- Embedding nearest-neighbour candidates using entity embeddings
+- Spelling-based candidates for names sharing a normalized prefix
+- Combined score with separate name and embedding similarity
+- Filters by entity type and by entities of interest
+</features>
+
+<bestPractices>
+- Start with the default threshold and review the top candidates
+- Restrict entityTypes to compare like with like
+- Run embed_all_entities first if many entities are unembedded
+- Register aliases instead of merging when both entities should stay separate but are often confused
+</bestPractices>
+
+<parameters>
+- threshold: Minimum combined score, 0-1 (number, optional, default: 0.8)
+- limit: Maximum number of pairs (number, optional, default: 20)
+- entityTypes: Only compare these entity types (string[], optional)
+- entityNames: Only pairs involving these entities (string[], optional)
+</parameters>
+
+<examples>
+- Whole graph: {}
+- Technologies only: {"entityTypes": ["TECHNOLOGY"], "threshold": 0.7}
+- Check one entity: {"entityNames": ["ReactJS"]}
+</examples>`;
+
+const findDuplicateEntitiesSchema: z.ZodRawShape = {
+  threshold: z.number().min(0).max(1).optional().default(0.8).describe('Minimum combined score for a pair to be proposed'),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe('Maximum number of candidate pairs to return'),
+  entityTypes: z.array(z.string()).optional().describe('Only compare entities of these types'),
+  entityNames: z.array(z.string()).optional().describe('Only propose pairs involving these entities'),
+};
+
+export const findDuplicateEntitiesTool: ToolDefinition = {
+  capability: findDuplicateEntitiesCapability,
+  description: findDuplicateEntitiesDescription,
+  schema: findDuplicateEntitiesSchema,
+};
+
+// === MERGE ENTITIES TOOL ===
+
+const mergeEntitiesCapability: ToolCapabilityInfo = {
+  description: 'Merge duplicate entities into a surviving entity, keeping their observations, relationships, document links and names',
+  parameters: {
+    type: 'object',
+    properties: {
+      target: {
+        type: 'string',
+        description: 'Name of the entity that survives the merge'
+      },
+      sources: {
+        type: 'array',
+        description: 'Names of the entities to fold into the target'
+      }
+    },
+    required: ['target', 'sources'],
+  },
+};
+
+const mergeEntitiesDescription: ToolRegistrationDescription = () => `<description>
+Fold one or more duplicate entities into a surviving entity in a single atomic operation.
+**Observations, relationships, document chunk links and aliases move to the survivor, and the merged names become its aliases.**
+The merged entities are deleted; any tool given their old names resolves to the survivor.
+</description>
+
+<importantNotes>
+- (!important!) **The merged entities are deleted** - check candidates with find_duplicate_entities first; undo reverts a mistaken merge
+- (!important!) The survivor keeps its own name and entity type
+- (!important!) Relationships that would duplicate an existing one, or link the survivor to itself, are dropped (the higher confidence is kept)
+- (!important!) **Atomic** - if any step fails, nothing is changed
+</importantNotes>
+
+<whenToUseThisTool>
+- After find_duplicate_entities proposed a pair you confirmed
+- When an agent created the same concept under several spellings
+- When consolidating entities after a naming convention change
+</whenToUseThisTool>
+
+<features>
+- Observation union without duplicates
+- Relationship re-pointing with de-duplication
+- Document chunk links moved to the survivor
+- Merged names and their aliases kept as aliases of the survivor
+- Knowledge graph chunks and the survivor's embedding regenerated
+</features>
+
+<bestPractices>
+- Choose the most common, canonical spelling as the target
+- Merge entities of the same type; retype the survivor first if needed
+- Review the survivor with open_nodes afterwards
+</bestPractices>
+
+<parameters>
+- target: Name of the surviving entity (string, required)
+- sources: Names of the entities to merge into it (string[], required)
+</parameters>
+
+<examples>
+- Spelling variants: {"target": "React", "sources": ["ReactJS", "React.js"]}
+- Abbreviation: {"target": "Machine Learning", "sources": ["ML"]}
+</examples>`;
+
+const mergeEntitiesSchema: z.ZodRawShape = {
+  target: z.string().describe('Name of the entity that survives the merge'),
+  sources: z.array(z.string()).min(1).describe('Names of the entities to fold into the target'),
+};
+
+export const mergeEntitiesTool: ToolDefinition = {
+  capability: mergeEntitiesCapability,
+  description: mergeEntitiesDescription,
+  schema: mergeEntitiesSchema,
+};
+
+// === GET HISTORY TOOL ===
+
+const getHistoryCapability: ToolCapabilityInfo = {
+  description: 'List the recorded changes to the knowledge graph, newest first, for one entity or the whole graph',
+  parameters: {
+    type: 'object',
+    properties: {
+      entityName: {
+        type: 'string',
+        description: 'Only changes touching this entity (current name, alias or former name)',
+        optional: true
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of changes to return (default: 20)',
+        optional: true
+      },
+      beforeId: {
+        type: 'number',
+        description: 'Only changes older than this change ID, to page through the log',
+        optional: true
+      },
+      includeState: {
+        type: 'boolean',
+        description: 'Include the before and after state of each change (default: false)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const getHistoryDescription: ToolRegistrationDescription = () => `<description>
+Read the change log of the knowledge graph.
+**Every mutation made through the knowledge graph tools is recorded** with its arguments and the state of the entities it touched before and after.
+Use it to see who changed what, and to pick a change ID for undo or revert_to.
+</description>
+
+<importantNotes>
+- (!important!) The log is append-only; undo and revert_to add 'revert' entries rather than removing changes
+- (!important!) Changes that were reverted carry revertedBy, revert entries carry reverts
+- (!important!) Document tools are not logged, only changes to entities, observations, aliases and relationships; the entities ingestDocument creates are logged as an ingestDocument change
+</importantNotes>
+
+<whenToUseThisTool>
+- When checking how an entity came to its current state
+- Before undo or revert_to, to see what would be reverted
+- When auditing what an agent changed in a session
+</whenToUseThisTool>
+
+<features>
+- Per-entity history that follows renames, merges and deletions
+- Paging with beforeId and nextBeforeId
+- Optional before and after snapshots of entities, observations, aliases and relationships
+</features>
+
+<bestPractices>
+- Leave includeState off for overviews; turn it on for the few changes you need to inspect
+- Page with the returned nextBeforeId instead of raising limit
+</bestPractices>
+
+<parameters>
+- entityName: Entity to show the history of (string, optional)
+- limit: Maximum number of changes (number, optional, default: 20)
+- beforeId: Only changes older than this ID (number, optional)
+- includeState: Include before and after snapshots (boolean, optional, default: false)
+</parameters>
+
+<examples>
+- Recent changes: {}
+- History of an entity: {"entityName": "Alice", "includeState": true}
+- Next page: {"beforeId": 120}
+</examples>`;
+
+const getHistorySchema: z.ZodRawShape = {
+  entityName: z.string().optional().describe('Only changes touching this entity (current name, alias or former name)'),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe('Maximum number of changes to return'),
+  beforeId: z.number().int().optional().describe('Only changes older than this change ID'),
+  includeState: z.boolean().optional().default(false).describe('Include the before and after state of each change'),
+};
+
+export const getHistoryTool: ToolDefinition = {
+  capability: getHistoryCapability,
+  description: getHistoryDescription,
+  schema: getHistorySchema,
+};
+
+// === UNDO TOOL ===
+
+const undoCapability: ToolCapabilityInfo = {
+  description: 'Revert the latest changes to the knowledge graph, restoring entities, observations, relationships, embeddings and knowledge graph chunks',
+  parameters: {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'number',
+        description: 'Number of changes to revert (default: 1)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const undoDescription: ToolRegistrationDescription = () => `<description>
+Revert the most recent changes recorded in the change log, newest first.
+**Restores entities, observations, aliases and relationships to their recorded state**, then regenerates their embeddings and knowledge graph chunks.
+All reverted changes are rolled back together or not at all.
+</description>
+
+<importantNotes>
+- (!important!) Reverts are themselves logged; undo skips them, so repeated undo walks further back instead of redoing
+- (!important!) Restored observations and relationships keep their original IDs
+- (!important!) Document chunk links are restored only if the chunk still exists
+- (!important!) **Atomic** - if any step fails, nothing is changed
+</importantNotes>
+
+<whenToUseThisTool>
+- Right after a mistaken merge, rename, deletion or batch of observations
+- When an agent went down a wrong path and its last few edits should be dropped
+</whenToUseThisTool>
+
+<features>
+- Multi-step undo
+- Restores deleted and merged entities with their aliases and document links
+- Re-embeds restored entities and observations and refreshes knowledge graph chunks
+</features>
+
+<bestPractices>
+- Check get_history first to see which changes will be reverted
+- Use revert_to to go back to a known change instead of counting steps
+</bestPractices>
+
+<parameters>
+- steps: Number of changes to revert (number, optional, default: 1)
+</parameters>
+
+<examples>
+- Undo the last change: {}
+- Undo the last three changes: {"steps": 3}
+</examples>`;
+
+const undoSchema: z.ZodRawShape = {
+  steps: z.number().int().min(1).max(100).optional().default(1).describe('Number of changes to revert'),
+};
+
+export const undoTool: ToolDefinition = {
+  capability: undoCapability,
+  description: undoDescription,
+  schema: undoSchema,
+};
+
+// === REVERT TO TOOL ===
+
+const revertToCapability: ToolCapabilityInfo = {
+  description: 'Return the knowledge graph to its state right after a recorded change, reverting every later change',
+  parameters: {
+    type: 'object',
+    properties: {
+      changeId: {
+        type: 'number',
+        description: 'ID of the last change to keep (0 reverts every change)'
+      }
+    },
+    required: ['changeId'],
+  },
+};
+
+const revertToDescription: ToolRegistrationDescription = () => `<description>
+Revert every change recorded after the given change that is still in effect, newest first.
+**Returns the entities those changes touched to their state right after the given change**, including embeddings and knowledge graph chunks.
+</description>
+
+<importantNotes>
+- (!important!) Changes already reverted are skipped
+- (!important!) changeId 0 reverts the whole change log
+- (!important!) **Atomic** - if any step fails, nothing is changed
+</importantNotes>
+
+<whenToUseThisTool>
+- When going back to a known good state after several edits
+- When dropping everything an agent did after a given point
+</whenToUseThisTool>
+
+<features>
+- Reverts any number of changes in one operation
+- Each reverted change gets its own revert entry in the change log
+</features>
+
+<bestPractices>
+- Find the change ID with get_history
+- Prefer undo for the last one or two changes
+</bestPractices>
+
+<parameters>
+- changeId: Last change to keep (number, required)
+</parameters>
+
+<examples>
+- Back to change 42: {"changeId": 42}
+</examples>`;
+
+const revertToSchema: z.ZodRawShape = {
+  changeId: z.number().int().min(0).describe('ID of the last change to keep (0 reverts every change)'),
+};
+
+export const revertToTool: ToolDefinition = {
+  capability: revertToCapability,
+  description: revertToDescription,
+  schema: revertToSchema,
+};
+
 // === HYBRID SEARCH TOOL ===
 
 const hybridSearchCapability: ToolCapabilityInfo = {
-  description: 'Perform advanced hybrid search combining vector similarity with knowledge graph traversal',
+  description: 'Perform advanced hybrid search combining vector similarity, BM25 full-text matching and knowledge graph traversal',
   parameters: {
     type: 'object',
     properties: {
@@ -278,6 +1186,21 @@ const hybridSearchCapability: ToolCapabilityInfo = {
         type: 'boolean',
         description: 'Whether to enhance results with knowledge graph connections',
         default: true
+      },
+      lexicalWeight: {
+        type: 'number',
+        description: 'Weight of the BM25 full-text ranking in the fusion (0 = vectors only, 1 = full-text only)',
+        default: 0.5
+      },
+      filter: {
+        type: 'object',
+        description: 'Restrict results by chunk_type, document_id, entityType, created_at or document metadata',
+        optional: true
+      },
+      asOf: {
+        type: 'string',
+        description: 'Search memory as it was at this ISO 8601 date or datetime',
+        optional: true
       }
     },
     required: ['query'],
@@ -294,7 +1217,10 @@ Perfect for complex queries that benefit from both content matching and conceptu
 - (!important!) **Hybrid approach is more powerful** than pure vector or graph search alone
 - (!important!) Graph enhancement finds related concepts even if not directly mentioned
 - (!important!) Results include similarity scores, graph boost, and hybrid rankings
+- (!important!) **Filters are applied before ranking** - limit counts filtered results, so a narrow filter still returns up to limit matches
+- (!important!) **Vector and BM25 full-text candidates are fused** with reciprocal rank fusion - exact identifiers, error codes and rare names are found even when embeddings miss them
 - (!important!) **Best results when knowledge graph is well-populated** with entities and relationships
+- (!important!) Invalidated relationships are not returned; with asOf, results are limited to what was recorded and valid at that time
 </importantNotes>
 
 <whenToUseThisTool>
@@ -308,6 +1234,8 @@ Perfect for complex queries that benefit from both content matching and conceptu
 
 <features>
 - Vector similarity search using sentence transformers
+- BM25 full-text search over chunk text (SQLite FTS5)
+- Reciprocal rank fusion with a configurable lexical weight, reporting vector_similarity, lexical_score and fusion_score per result
 - Knowledge graph traversal for conceptual enhancement
 - Hybrid scoring combining multiple relevance signals
 - Entity association highlighting
@@ -328,6 +1256,11 @@ Perfect for complex queries that benefit from both content matching and conceptu
 - query: Natural language search query (string, required)
 - limit: Maximum results to return, default 5 (number, optional)
 - useGraph: Enable knowledge graph enhancement, default true (boolean, optional)
+- lexicalWeight: Share of the BM25 ranking in the fusion between 0 and 1, default 0.5 (number, optional)
+- filter: Structured filter (object, optional). Fields: chunk_type, document_id, entityType, created_at and metadata (document metadata fields, dotted paths allowed).
+  Each condition is a value (equality) or an object of operators: eq, in (array), gt, gte, lt, lte, exists (boolean).
+  Conditions on metadata arrays match if any element matches; entityType matches the entity a chunk is about or any entity linked to it.
+- asOf: Point in time to search memory at, ISO 8601 (string, optional)
 </parameters>
 
 <examples>
@@ -335,12 +1268,20 @@ Perfect for complex queries that benefit from both content matching and conceptu
 - Technical research: {"query": "React performance optimization techniques", "useGraph": true}
 - Discovery mode: {"query": "Einstein's contributions to modern physics", "limit": 15}
 - Quick lookup: {"query": "quantum computing advantages", "limit": 3, "useGraph": false}
+- Exact identifier: {"query": "ERR_CONNECTION_RESET", "lexicalWeight": 0.8}
+- Past beliefs: {"query": "Alice employer", "asOf": "2023-06-01"}
+- One document: {"query": "deployment steps", "filter": {"document_id": "runbook"}}
+- Tagged and recent: {"query": "incident causes", "filter": {"metadata": {"tags": "postmortem"}, "created_at": {"gte": "2024-01-01"}}}
+- Knowledge graph only: {"query": "who works on rockets", "filter": {"chunk_type": {"in": ["entity", "relationship"]}}}
 </examples>`;
 
 const hybridSearchSchema: z.ZodRawShape = {
   query: z.string().describe('The search query to find relevant information'),
   limit: z.number().optional().default(5).describe('Maximum number of results to return'),
   useGraph: z.boolean().optional().default(true).describe('Whether to enhance results with knowledge graph connections'),
+  lexicalWeight: z.number().min(0).max(1).optional().default(0.5).describe('Weight of the BM25 full-text ranking in the fusion (0 = vectors only, 1 = full-text only)'),
+  filter: searchFilterSchema.describe('Restrict results by chunk_type, document_id, entityType, created_at or document metadata').optional(),
+  asOf: z.string().optional().describe('Search memory as it was at this ISO 8601 date or datetime'),
 };
 
 export const hybridSearchTool: ToolDefinition = {
@@ -371,6 +1312,8 @@ This tool creates embeddings from entity names, types, and observations for powe
 - (!important!) **Enables semantic search** - required for vector-based entity discovery
 - (!important!) **Replaces pattern matching** with intelligent similarity search
 - (!important!) **Automatic for new entities** - only needed once for existing entities
+- (!important!) Also embeds observations that have no vector yet, such as those carried over by the observations migration
+- (!important!) **Reports progress and can be cancelled** - sends progress notifications when the request carries a progress token, and stops between items when the request is cancelled; vectors written before that are kept
 </importantNotes>
 
 <whenToUseThisTool>
@@ -419,6 +1362,132 @@ export const embedAllEntitiesTool: ToolDefinition = {
   schema: embedAllEntitiesSchema,
 };
 
+// === REEMBED STALE TOOL ===
+
+const reembedStaleCapability: ToolCapabilityInfo = {
+  description: 'Regenerate all chunk and entity vectors that were produced by a different embedding model than the active one',
+  parameters: {
+    type: 'object',
+    properties: {
+      dryRun: {
+        type: 'boolean',
+        description: 'Only count stale vectors without re-embedding them (default: false)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const reembedStaleDescription: ToolRegistrationDescription = () => `<description>
+Regenerate every stored vector whose provenance does not match the active embedding model.
+**Restores a single consistent vector space after switching embedding providers or after a fallback model was used.**
+Every vector is tagged with the model that produced it; searches ignore vectors from other models until they are re-embedded.
+</description>
+
+<importantNotes>
+- (!important!) **Stale vectors are invisible to search** - hybridSearch and searchNodes skip them
+- (!important!) **Covers document chunks, knowledge graph chunks and entities**
+- (!important!) Vectors created before provenance tracking are attributed to the original built-in model (transformers:sentence-transformers/all-MiniLM-L12-v2), except the semantic hash vectors it fell back to when the model failed to load: those are tagged deterministic:semantic-hash-v1 and are stale unless the deterministic provider is active
+- (!important!) **Can take a while** on large knowledge bases - use dryRun first to see how much work is pending
+- (!important!) **Reports progress and can be cancelled** - sends progress notifications when the request carries a progress token, and stops between items when the request is cancelled; vectors written before that are kept
+</importantNotes>
+
+<whenToUseThisTool>
+- After changing EMBEDDING_PROVIDER or EMBEDDING_MODEL
+- When getKnowledgeGraphStats reports mixed_vector_spaces
+- After the server fell back to the deterministic embedder and the real model is available again
+</whenToUseThisTool>
+
+<parameters>
+- dryRun: Only count stale vectors (boolean, optional, default: false)
+</parameters>
+
+<examples>
+- Estimate: {"dryRun": true}
+- Re-embed everything stale: {}
+</examples>`;
+
+const reembedStaleSchema: z.ZodRawShape = {
+  dryRun: z.boolean().default(false).optional().describe('Only count stale vectors without re-embedding them'),
+};
+
+export const reembedStaleTool: ToolDefinition = {
+  capability: reembedStaleCapability,
+  description: reembedStaleDescription,
+  schema: reembedStaleSchema,
+};
+
+// === VERIFY INDEX INTEGRITY TOOL ===
+
+const verifyIndexIntegrityCapability: ToolCapabilityInfo = {
+  description: 'Detect and optionally repair orphaned, missing and misaligned vectors in the chunk, entity and observation vector indexes',
+  parameters: {
+    type: 'object',
+    properties: {
+      repair: {
+        type: 'boolean',
+        description: 'Delete orphaned vectors and re-embed missing or misaligned ones (default: false)',
+        optional: true
+      },
+      checkAlignment: {
+        type: 'boolean',
+        description: 'Compare every stored vector with a fresh embedding of its text (default: false)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const verifyIndexIntegrityDescription: ToolRegistrationDescription = () => `<description>
+Verify that every vector in the chunk, entity and observation indexes is keyed to the row it describes.
+**Detects orphaned vectors, embedded chunks and observations without a vector and vectors attached to the wrong chunk, and repairs them on request.**
+</description>
+
+<importantNotes>
+- (!important!) **Read-only unless repair is true** - run once without repair to see the report
+- (!important!) **Alignment checking embeds every chunk, entity and observation again** - it is off by default; set checkAlignment to true for a full check
+- (!important!) **Reports progress and can be cancelled** - alignment checks and repairs send progress notifications when the request carries a progress token, and stop between items when the request is cancelled; repairs made before that are kept
+- (!important!) Vectors from another embedding model cannot be compared and are reported as unverifiable - use reembedStale for those
+- (!important!) Databases written by older versions may contain vectors attached to the wrong chunk - run a repair once after upgrading
+</importantNotes>
+
+<whenToUseThisTool>
+- After upgrading from a version that stored vectors without explicit rowids
+- When hybridSearch returns chunks that do not match the query
+- When startup logs report vector index drift
+</whenToUseThisTool>
+
+<features>
+- Orphaned vectors: vectors with no embedded chunk, entity or observation behind them (deleted on repair)
+- Missing vectors: chunks, entities and observations recorded as embedded without a stored vector (re-embedded on repair)
+- Misaligned vectors: stored vectors that do not match a fresh embedding of their text (re-embedded on repair)
+- Unembedded counts for chunks and observations that were never embedded (informational)
+</features>
+
+<parameters>
+- repair: Fix the problems found (boolean, optional, default: false)
+- checkAlignment: Re-embed texts to detect misaligned vectors (boolean, optional, default: false)
+</parameters>
+
+<examples>
+- Structural report: {}
+- Full check including alignment: {"checkAlignment": true}
+- Repair everything: {"repair": true, "checkAlignment": true}
+</examples>`;
+
+const verifyIndexIntegritySchema: z.ZodRawShape = {
+  repair: z.boolean().default(false).optional().describe('Delete orphaned vectors and re-embed missing or misaligned ones'),
+  checkAlignment: z.boolean().default(false).optional().describe('Compare every stored vector with a fresh embedding of its text'),
+};
+
+export const verifyIndexIntegrityTool: ToolDefinition = {
+  capability: verifyIndexIntegrityCapability,
+  description: verifyIndexIntegrityDescription,
+  schema: verifyIndexIntegritySchema,
+};
+
 // === GET DETAILED CONTEXT TOOL ===
 
 const getDetailedContextCapability: ToolCapabilityInfo = {
@@ -506,8 +1575,21 @@ export const getDetailedContextTool: ToolDefinition = {
 export const knowledgeGraphTools = {
   createEntities: createEntitiesTool,
   createRelations: createRelationsTool,
+  updateRelation: updateRelationTool,
   addObservations: addObservationsTool,
+  updateObservation: updateObservationTool,
+  invalidate: invalidateTool,
+  updateEntity: updateEntityTool,
+  addAliases: addAliasesTool,
+  removeAliases: removeAliasesTool,
+  findDuplicateEntities: findDuplicateEntitiesTool,
+  mergeEntities: mergeEntitiesTool,
+  getHistory: getHistoryTool,
+  undo: undoTool,
+  revertTo: revertToTool,
   hybridSearch: hybridSearchTool,
   embedAllEntities: embedAllEntitiesTool,
+  reembedStale: reembedStaleTool,
+  verifyIndexIntegrity: verifyIndexIntegrityTool,
   getDetailedContext: getDetailedContextTool,
 }; 
\ No newline at end of file
@@ -172,4 +172,66 @@ Rolls back the database schema to a specific version by reversing applied migrat
       targetVersion: z.number().min(0).describe('Target schema version to rollback to'),
     },
   },
+
+  migrateEmbeddingDimensions: {
+    capability: {
+      description: 'Rebuild the vector tables at the configured embedding dimension and re-embed all chunks and entities',
+      parameters: {
+        type: 'object',
+        properties: {
+          dryRun: {
+            type: 'boolean',
+            description: 'Only estimate the work without changing anything (default: false)',
+            optional: true,
+          },
+        },
+        required: [],
+      },
+    },
+    description: (settings) => `
+**Migrate Embedding Dimensions**
+
+Recreates the \`chunks\`, \`entity_embeddings\` and \`observation_embeddings\` vector tables at the dimension configured with \`EMBEDDING_DIMENSIONS\` and re-embeds every stored chunk, entity and observation with the active embedding model.
+
+**Purpose:**
+- Switch to a model with a different vector size (e.g. 768 or 1024 dimensions)
+- Resume an interrupted dimension migration
+- Estimate the cost of a migration before running it
+
+**Parameters:**
+- \`dryRun\`: Only report what would be re-embedded, with token, storage and time estimates (default: false)
+
+**Safety:**
+- Empty vector tables are recreated automatically at startup; this tool is only needed when vectors exist
+- Until the migration has run, embedding and vector search fail with a dimension mismatch error
+- New vectors are written to staging tables beside the existing ones, which are swapped in with one transaction once every vector is re-embedded; until then the old vectors stay in place
+- Fails without touching the existing vectors when the model produces vectors of another size
+- Progress is logged and an interrupted run resumes from the vectors already staged when the tool is called again
+- Sends progress notifications when the request carries a progress token, and stops between vectors when the request is cancelled
+
+**Returns:**
+- Previous and target dimensions
+- Stale and re-embedded counts for chunks, entities and observations
+- Estimate: vectors, chunk tokens, vector storage bytes and seconds (dry run only)
+
+**Example:**
+\`\`\`json
+{
+  "activeModel": "openai:text-embedding-3-small",
+  "dryRun": true,
+  "previousDimensions": 384,
+  "targetDimensions": 1024,
+  "rebuilt": false,
+  "chunks": { "stale": 120, "reembedded": 0 },
+  "entities": { "stale": 45, "reembedded": 0 },
+  "estimate": { "vectors": 165, "chunkTokens": 24800, "storageBytes": 675840, "seconds": 33 }
+}
+\`\`\`
+
+**⚠️ Warning:** Re-embedding calls the embedding model once per chunk and entity. Run with \`dryRun\` first on large knowledge bases.
+    `.trim(),
+    schema: {
+      dryRun: z.boolean().default(false).optional().describe('Only estimate the work without changing anything'),
+    },
+  },
 }; 
\ No newline at end of file
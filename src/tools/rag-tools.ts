@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolCapabilityInfo, ToolRegistrationDescription } from './types.js';
+import { CHUNKING_STRATEGIES } from '../chunking/chunking-strategies.js';
 
 // === STORE DOCUMENT TOOL ===
 
@@ -80,6 +81,11 @@ const chunkDocumentCapability: ToolCapabilityInfo = {
         type: 'string',
         description: 'ID of the stored document to chunk'
       },
+      strategy: {
+        type: 'string',
+        description: `Chunking strategy: ${CHUNKING_STRATEGIES.join(', ')} (default: tokens)`,
+        optional: true
+      },
       maxTokens: {
         type: 'number',
         description: 'Maximum tokens per chunk (default: 200)',
@@ -102,10 +108,20 @@ Create text chunks from a stored document with configurable chunking parameters.
 
 <importantNotes>
 - (!important!) **Document must be stored first** using storeDocument
-- (!important!) **Configurable chunking** - adjust maxTokens and overlap as needed
+- (!important!) **Configurable chunking** - adjust strategy, maxTokens and overlap as needed
 - (!important!) **Replaces existing chunks** for the document if any exist
+- (!important!) **Character offsets** - startPos/endPos are exact character positions in the original document
 </importantNotes>
 
+<strategies>
+- tokens: fixed token windows (default, ignores document structure)
+- sentences: packs whole sentences up to maxTokens
+- paragraphs: packs whole paragraphs (blank-line separated) up to maxTokens
+- markdown: never crosses a heading, keeps fenced code blocks intact, records the heading path in chunk metadata
+- code: keeps top-level functions/classes together with their leading comments, records symbol names in chunk metadata
+- Units larger than maxTokens are split into token windows; overlap carries whole trailing units where possible
+</strategies>
+
 <whenToUseThisTool>
 - After storing a document with storeDocument
 - When you need specific chunk sizes for different document types
@@ -118,16 +134,20 @@ Create text chunks from a stored document with configurable chunking parameters.
 - Larger chunks (300-500 tokens) for context preservation
 - Use overlap (10-30 tokens) to maintain continuity
 - Consider document type when choosing chunk size
+- Prefer markdown for documentation, code for source files, sentences or paragraphs for prose
 </bestPractices>
 
 <examples>
 - Default chunking: {"documentId": "doc1"}
 - Custom size: {"documentId": "doc1", "maxTokens": 150, "overlap": 30}
 - Large context: {"documentId": "legal_doc", "maxTokens": 400, "overlap": 50}
+- Markdown docs: {"documentId": "readme", "strategy": "markdown", "maxTokens": 300}
+- Source code: {"documentId": "server_ts", "strategy": "code", "maxTokens": 400, "overlap": 0}
 </examples>`;
 
 const chunkDocumentSchema: z.ZodRawShape = {
   documentId: z.string().describe('ID of the stored document to chunk'),
+  strategy: z.enum(['tokens', 'sentences', 'paragraphs', 'markdown', 'code']).default('tokens').optional().describe('Chunking strategy'),
   maxTokens: z.number().default(200).optional().describe('Maximum tokens per chunk'),
   overlap: z.number().default(20).optional().describe('Number of overlapping tokens'),
 };
@@ -163,6 +183,7 @@ Generate vector embeddings for all chunks of a document to enable semantic searc
 - (!important!) **Document must be chunked first** using chunkDocument
 - (!important!) **Generates embeddings** using sentence transformer model
 - (!important!) **Enables vector search** - required for hybridSearch functionality
+- (!important!) **Reports progress and can be cancelled** - sends progress notifications when the request carries a progress token, and stops between items when the request is cancelled; vectors written before that are kept
 </importantNotes>
 
 <whenToUseThisTool>
@@ -275,7 +296,7 @@ export const extractTermsTool: ToolDefinition = {
 // === LINK ENTITIES TO DOCUMENT TOOL ===
 
 const linkEntitiesToDocumentCapability: ToolCapabilityInfo = {
-  description: 'Explicitly link entities to a document for graph-enhanced search',
+  description: 'Link entities to the document chunks that mention them for graph-enhanced search',
   parameters: {
     type: 'object',
     properties: {
@@ -287,6 +308,12 @@ const linkEntitiesToDocumentCapability: ToolCapabilityInfo = {
         type: 'array',
         description: 'Names of entities to link to the document',
         items: { type: 'string' }
+      },
+      chunkIds: {
+        type: 'array',
+        description: 'Explicit chunk IDs to link the entities to, bypassing mention detection (optional)',
+        items: { type: 'string' },
+        optional: true
       }
     },
     required: ['documentId', 'entityNames'],
@@ -294,38 +321,42 @@ const linkEntitiesToDocumentCapability: ToolCapabilityInfo = {
 };
 
 const linkEntitiesToDocumentDescription: ToolRegistrationDescription = () => `<description>
-Explicitly link existing entities to a document to enable graph-enhanced search.
-**Creates associations between entities and documents for better search results.**
+Link existing entities to the chunks of a document that actually mention them to enable graph-enhanced search.
+**Creates chunk-level associations so hybridSearch only boosts chunks that are about the entity.**
 </description>
 
 <importantNotes>
 - (!important!) **Entities must exist** - create them first with createEntities
-- (!important!) **Document must be stored** - use storeDocument first
-- (!important!) **Explicit linking** - AI agent controls which entities are associated
+- (!important!) **Document must be chunked** - use chunkDocument (or ingestDocument) first
+- (!important!) **Chunk-level linking** - an entity is linked only to chunks whose text contains its name (case-insensitive, whole words)
+- (!important!) **Explicit chunks** - pass chunkIds to link entities to specific chunks regardless of their text
+- (!important!) Entities that are not mentioned anywhere are reported in unmatchedEntities and not linked
 </importantNotes>
 
 <whenToUseThisTool>
 - After creating entities related to a document
 - **To enable graph-enhanced search** on document content
 - When building explicit knowledge connections
-- When entities are mentioned or relevant to the document
+- When an entity is relevant to a passage that does not name it (use chunkIds)
 </whenToUseThisTool>
 
 <bestPractices>
 - Link entities that are actually mentioned in the document
-- Include both explicit mentions and relevant concepts
-- Use after manual entity creation for precision
-- Consider both direct and indirect entity relationships
+- Use chunkIds for concepts that are discussed but not named verbatim
+- Use getEntityChunkLinks to review the resulting associations
+- Re-run linking after re-chunking a document, since chunking removes existing links
 </bestPractices>
 
 <examples>
 - Link research entities: {"documentId": "ml_paper", "entityNames": ["Machine Learning", "Neural Networks", "Deep Learning"]}
 - Business entities: {"documentId": "quarterly_report", "entityNames": ["Q3 2024", "Revenue", "Growth Strategy"]}
+- Explicit chunks: {"documentId": "ml_paper", "entityNames": ["Backpropagation"], "chunkIds": ["ml_paper_chunk_3", "ml_paper_chunk_4"]}
 </examples>`;
 
 const linkEntitiesToDocumentSchema: z.ZodRawShape = {
   documentId: z.string().describe('ID of the document to link entities to'),
   entityNames: z.array(z.string()).describe('Names of entities to link to the document'),
+  chunkIds: z.array(z.string()).optional().describe('Explicit chunk IDs to link the entities to'),
 };
 
 export const linkEntitiesToDocumentTool: ToolDefinition = {
@@ -334,6 +365,274 @@ export const linkEntitiesToDocumentTool: ToolDefinition = {
   schema: linkEntitiesToDocumentSchema,
 };
 
+// === GET ENTITY CHUNK LINKS TOOL ===
+
+const getEntityChunkLinksCapability: ToolCapabilityInfo = {
+  description: 'Report which document chunks each entity is linked to',
+  parameters: {
+    type: 'object',
+    properties: {
+      entityNames: {
+        type: 'array',
+        description: 'Only report links for these entities (optional)',
+        items: { type: 'string' },
+        optional: true
+      },
+      documentId: {
+        type: 'string',
+        description: 'Only report links to chunks of this document (optional)',
+        optional: true
+      }
+    },
+    required: [],
+  },
+};
+
+const getEntityChunkLinksDescription: ToolRegistrationDescription = () => `<description>
+Report the chunk-level associations between entities and document chunks.
+**Use this to audit what linkEntitiesToDocument produced** and why hybridSearch boosts a chunk.
+</description>
+
+<importantNotes>
+- (!important!) **Read-only** - does not change any links
+- (!important!) Entities without any chunk links are omitted from the result
+</importantNotes>
+
+<whenToUseThisTool>
+- After linking entities to verify the associations
+- When a search result carries unexpected entities
+- Before re-chunking a document, to know which links will need recreating
+</whenToUseThisTool>
+
+<examples>
+- All links: {}
+- One entity: {"entityNames": ["Machine Learning"]}
+- One document: {"documentId": "ml_paper"}
+</examples>`;
+
+const getEntityChunkLinksSchema: z.ZodRawShape = {
+  entityNames: z.array(z.string()).optional().describe('Only report links for these entities'),
+  documentId: z.string().optional().describe('Only report links to chunks of this document'),
+};
+
+export const getEntityChunkLinksTool: ToolDefinition = {
+  capability: getEntityChunkLinksCapability,
+  description: getEntityChunkLinksDescription,
+  schema: getEntityChunkLinksSchema,
+};
+
+// === INGEST DOCUMENT TOOL ===
+
+const ingestDocumentCapability: ToolCapabilityInfo = {
+  description: 'Store, chunk, embed, extract terms and link entities for a document in one atomic call',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier for the document'
+      },
+      content: {
+        type: 'string',
+        description: 'The full text content of the document'
+      },
+      metadata: {
+        type: 'object',
+        description: 'Additional metadata for the document (optional)',
+        additionalProperties: true,
+        optional: true
+      },
+      strategy: {
+        type: 'string',
+        description: `Chunking strategy: ${CHUNKING_STRATEGIES.join(', ')} (default: tokens)`,
+        optional: true
+      },
+      maxTokens: {
+        type: 'number',
+        description: 'Maximum tokens per chunk (default: 200)',
+        optional: true
+      },
+      overlap: {
+        type: 'number',
+        description: 'Number of overlapping tokens between chunks (default: 20)',
+        optional: true
+      },
+      extractTerms: {
+        type: 'boolean',
+        description: 'Extract candidate terms from the document (default: true)',
+        optional: true
+      },
+      createEntities: {
+        type: 'boolean',
+        description: 'Create entities for extracted terms that do not exist yet (default: false)',
+        optional: true
+      },
+      linkEntities: {
+        type: 'boolean',
+        description: 'Link entities matching the extracted terms to the document (default: true)',
+        optional: true
+      },
+      entityType: {
+        type: 'string',
+        description: 'Entity type used for auto-created entities (default: CONCEPT)',
+        optional: true
+      },
+      minLength: {
+        type: 'number',
+        description: 'Minimum term length (default: 3)',
+        optional: true
+      },
+      includeCapitalized: {
+        type: 'boolean',
+        description: 'Include capitalized words as potential entities (default: true)',
+        optional: true
+      },
+      customPatterns: {
+        type: 'array',
+        description: 'Custom regex patterns for domain-specific terms (optional)',
+        items: { type: 'string' },
+        optional: true
+      }
+    },
+    required: ['id', 'content'],
+  },
+};
+
+const ingestDocumentDescription: ToolRegistrationDescription = () => `<description>
+Run the complete document pipeline in a single call: storeDocument → chunkDocument → embedChunks → extractTerms → createEntities → linkEntitiesToDocument.
+**The recommended way to add a document** - the document is immediately searchable with hybridSearch.
+All stages run in one database transaction, so a failure leaves no partially ingested document behind.
+</description>
+
+<importantNotes>
+- (!important!) **Embedding is always performed** - no separate embedChunks call is needed
+- (!important!) **Atomic** - if any stage fails, every change made by this call is rolled back
+- (!important!) **Replaces existing document** with the same ID, including its chunks and links
+- (!important!) **Entity creation is opt-in** - set createEntities to true to turn extracted terms into entities
+- (!important!) Returns a per-stage report so you can verify what happened
+</importantNotes>
+
+<whenToUseThisTool>
+- **Whenever you add a new document** and do not need custom per-stage control
+- When re-ingesting an updated version of a document
+- When you want extracted terms linked to the document automatically
+</whenToUseThisTool>
+
+<bestPractices>
+- Leave createEntities off and review the returned terms when precision matters
+- Enable createEntities for exploratory ingestion of large corpora
+- Use customPatterns for domain-specific identifiers
+- Use the individual tools (storeDocument, chunkDocument, ...) when a stage needs manual intervention
+</bestPractices>
+
+<examples>
+- Basic ingestion: {"id": "design_doc", "content": "The Payment Service talks to Stripe..."}
+- With entity creation: {"id": "ml_paper", "content": "...", "metadata": {"title": "ML Survey"}, "createEntities": true, "entityType": "TECHNOLOGY"}
+- Custom chunking, no terms: {"id": "notes", "content": "...", "maxTokens": 150, "overlap": 30, "extractTerms": false}
+- Markdown document: {"id": "readme", "content": "# Setup\n...", "strategy": "markdown"}
+</examples>`;
+
+const ingestDocumentSchema: z.ZodRawShape = {
+  id: z.string().describe('Unique identifier for the document'),
+  content: z.string().describe('The full text content of the document'),
+  metadata: z.record(z.any()).optional().describe('Additional metadata for the document'),
+  strategy: z.enum(['tokens', 'sentences', 'paragraphs', 'markdown', 'code']).default('tokens').optional().describe('Chunking strategy'),
+  maxTokens: z.number().default(200).optional().describe('Maximum tokens per chunk'),
+  overlap: z.number().default(20).optional().describe('Number of overlapping tokens'),
+  extractTerms: z.boolean().default(true).optional().describe('Extract candidate terms from the document'),
+  createEntities: z.boolean().default(false).optional().describe('Create entities for extracted terms'),
+  linkEntities: z.boolean().default(true).optional().describe('Link entities matching extracted terms to the document'),
+  entityType: z.string().default('CONCEPT').optional().describe('Entity type for auto-created entities'),
+  minLength: z.number().default(3).optional().describe('Minimum term length'),
+  includeCapitalized: z.boolean().default(true).optional().describe('Include capitalized words'),
+  customPatterns: z.array(z.string()).optional().describe('Custom regex patterns for domain terms'),
+};
+
+export const ingestDocumentTool: ToolDefinition = {
+  capability: ingestDocumentCapability,
+  description: ingestDocumentDescription,
+  schema: ingestDocumentSchema,
+};
+
+// === GENERATE KNOWLEDGE GRAPH CHUNKS TOOL ===
+
+const generateKnowledgeGraphChunksCapability: ToolCapabilityInfo = {
+  description: 'Generate searchable text chunks for all entities and relationships in the knowledge graph',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const generateKnowledgeGraphChunksDescription: ToolRegistrationDescription = () => `<description>
+Generate text chunks describing every entity and relationship so the knowledge graph itself becomes searchable with hybridSearch.
+**Incremental - only chunks whose entity or relationship changed are rewritten, and chunks of deleted items are removed.**
+</description>
+
+<importantNotes>
+- (!important!) **Entity and relationship writes keep their chunks in sync automatically** - use this tool to backfill an existing graph or repair drift
+- (!important!) **Changed chunks lose their vector** - run embedKnowledgeGraphChunks afterwards
+- (!important!) Entity chunks read "<name> is a <type>. <observations>", relationship chunks "<source> <relation> <target>"
+</importantNotes>
+
+<whenToUseThisTool>
+- After upgrading a database whose entities and relationships predate automatic chunk maintenance
+- When hybridSearch returns no entity or relationship results
+- After bulk changes made outside the entity and relation tools
+</whenToUseThisTool>
+
+<examples>
+- Backfill: {}
+</examples>`;
+
+const generateKnowledgeGraphChunksSchema: z.ZodRawShape = {};
+
+export const generateKnowledgeGraphChunksTool: ToolDefinition = {
+  capability: generateKnowledgeGraphChunksCapability,
+  description: generateKnowledgeGraphChunksDescription,
+  schema: generateKnowledgeGraphChunksSchema,
+};
+
+// === EMBED KNOWLEDGE GRAPH CHUNKS TOOL ===
+
+const embedKnowledgeGraphChunksCapability: ToolCapabilityInfo = {
+  description: 'Generate vector embeddings for entity and relationship chunks that do not have one yet',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+const embedKnowledgeGraphChunksDescription: ToolRegistrationDescription = () => `<description>
+Embed the knowledge graph chunks created by generateKnowledgeGraphChunks.
+**Incremental - chunks that already have a vector from the active embedding model are skipped.**
+</description>
+
+<importantNotes>
+- (!important!) **Run generateKnowledgeGraphChunks first** - this tool only embeds existing chunks
+- (!important!) Chunks updated by entity and relation writes are re-embedded automatically
+- (!important!) **Reports progress and can be cancelled** - sends progress notifications when the request carries a progress token, and stops between items when the request is cancelled; vectors written before that are kept
+</importantNotes>
+
+<whenToUseThisTool>
+- After generateKnowledgeGraphChunks reports updated chunks
+- **Before using hybridSearch** to find entities and relationships
+</whenToUseThisTool>
+
+<examples>
+- Embed pending chunks: {}
+</examples>`;
+
+const embedKnowledgeGraphChunksSchema: z.ZodRawShape = {};
+
+export const embedKnowledgeGraphChunksTool: ToolDefinition = {
+  capability: embedKnowledgeGraphChunksCapability,
+  description: embedKnowledgeGraphChunksDescription,
+  schema: embedKnowledgeGraphChunksSchema,
+};
+
 // === GET KNOWLEDGE GRAPH STATS TOOL ===
 
 const getStatsCapability: ToolCapabilityInfo = {
@@ -559,6 +858,10 @@ export const ragTools = {
   embedChunks: embedChunksTool,
   extractTerms: extractTermsTool,
   linkEntitiesToDocument: linkEntitiesToDocumentTool,
+  ingestDocument: ingestDocumentTool,
+  getEntityChunkLinks: getEntityChunkLinksTool,
+  generateKnowledgeGraphChunks: generateKnowledgeGraphChunksTool,
+  embedKnowledgeGraphChunks: embedKnowledgeGraphChunksTool,
   getKnowledgeGraphStats: getKnowledgeGraphStatsTool,
   deleteDocuments: deleteDocumentsTool,
   listDocuments: listDocumentsTool,
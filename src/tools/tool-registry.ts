@@ -80,6 +80,19 @@ function zodTypeToJsonSchema(zodType: any, fieldName: string): any {
           ...(def.default !== undefined && { default: def.default }),
         };
       
+      case 'ZodEnum':
+        return {
+          type: 'string',
+          description: def.description || `${fieldName} parameter`,
+          enum: def.values,
+        };
+
+      case 'ZodUnion':
+        return {
+          anyOf: def.options.map((option: any) => zodTypeToJsonSchema(option, fieldName)),
+          description: def.description || `${fieldName} parameter`,
+        };
+
       case 'ZodArray':
         return {
           type: 'array',
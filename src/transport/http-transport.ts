@@ -0,0 +1,134 @@
+import http from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+export type TransportName = 'stdio' | 'http';
+
+export const TRANSPORTS: TransportName[] = ['stdio', 'http'];
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+export interface TransportConfig {
+  transport: TransportName;
+  host: string;
+  port: number;
+}
+
+// A running HTTP server and its MCP sessions
+export interface HttpMcpServer {
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Read the transport from command line flags (--transport stdio|http, --http, --host, --port; values as
+ * "--flag value" or "--flag=value"), falling back to MCP_TRANSPORT, MCP_HTTP_HOST and MCP_HTTP_PORT.
+ */
+export function loadTransportConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): TransportConfig {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+
+    const [, flag, inlineValue] = match;
+    if (flag === 'http') {
+      flags.set('transport', 'http');
+    } else if (inlineValue !== undefined) {
+      flags.set(flag, inlineValue);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags.set(flag, argv[++i]);
+    }
+  }
+
+  const transport = (flags.get('transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase() as TransportName;
+  if (!TRANSPORTS.includes(transport)) {
+    throw new Error(`Unknown transport '${transport}', expected one of: ${TRANSPORTS.join(', ')}`);
+  }
+
+  const portValue = flags.get('port') ?? env.MCP_HTTP_PORT;
+  const port = portValue !== undefined ? Number(portValue) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port '${portValue}', expected an integer between 0 and 65535`);
+  }
+
+  return {
+    transport,
+    host: flags.get('host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port
+  };
+}
+
+/**
+ * Serve MCP over HTTP with Server-Sent Events: GET /sse opens a session (one MCP server from createServer),
+ * POST /messages?sessionId=... carries the client's messages, GET /health reports liveness. The sessions share
+ * one manager and database connection; its write lock runs their writing tool calls one at a time, and its read
+ * lock keeps every session's reads out of another session's uncommitted transaction.
+ */
+export async function startHttpServer(createServer: () => Server, options: { host: string; port: number }): Promise<HttpMcpServer> {
+  const sessions = new Map<string, { server: Server; transport: SSEServerTransport }>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/sse') {
+        const transport = new SSEServerTransport('/messages', res);
+        const server = createServer();
+        sessions.set(transport.sessionId, { server, transport });
+        res.on('close', () => {
+          sessions.delete(transport.sessionId);
+          console.error(`🔌 HTTP session ${transport.sessionId} closed (${sessions.size} open)`);
+        });
+
+        await server.connect(transport);
+        console.error(`🔌 HTTP session ${transport.sessionId} opened (${sessions.size} open)`);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/messages') {
+        const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+        if (!session) {
+          res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Unknown session');
+          return;
+        }
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+    } catch (error) {
+      console.error(`❌ HTTP ${req.method} ${url.pathname} failed:`, error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    sessionCount: () => sessions.size,
+
+    // Stop accepting connections, then end every open session
+    async close() {
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      for (const { server } of [...sessions.values()]) {
+        await server.close();
+      }
+      sessions.clear();
+      await closed;
+    }
+  };
+}